@@ -0,0 +1,350 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { TelemetryMessage } from './types';
+import { NUMERIC_FIELDS, NumericTelemetryField } from './telemetryStore';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type ComparisonOperator = '>' | '>=' | '<' | '<=';
+
+export interface AlertCondition {
+    // 'threshold' compares the field value, 'rate' compares its change per second
+    type: 'threshold' | 'rate';
+    operator: ComparisonOperator;
+    value: number;
+}
+
+export interface AlertRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    severity: AlertSeverity;
+    field: NumericTelemetryField;
+    condition: AlertCondition;
+    // Condition must hold continuously for this long before the alert fires
+    forMs: number;
+    // Margin the value must move back past the limit before an active alert clears
+    hysteresis: number;
+    vehicleId?: string;
+    sourceConnection?: string;
+}
+
+export interface Alert {
+    id: string;
+    ruleId: string;
+    ruleName: string;
+    severity: AlertSeverity;
+    vehicleId: string;
+    sourceConnection: string;
+    field: NumericTelemetryField;
+    value: number;
+    limit: number;
+    message: string;
+    state: 'active' | 'cleared';
+    firedAt: string;
+    clearedAt?: string;
+    acknowledged: boolean;
+    acknowledgedAt?: string;
+    acknowledgedBy?: string;
+}
+
+export type AlertEvent = 'fired' | 'cleared' | 'acknowledged';
+export type AlertListener = (alert: Alert, event: AlertEvent) => void;
+
+interface RuleState {
+    lastValue?: number;
+    lastTime?: number;
+    pendingSince?: number;
+    active?: Alert;
+}
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const OPERATORS: ComparisonOperator[] = ['>', '>=', '<', '<='];
+const MAX_HISTORY = 500;
+
+const DEFAULT_RULES: Omit<AlertRule, 'id'>[] = [
+    {
+        name: 'Battery critical',
+        enabled: true,
+        severity: 'critical',
+        field: 'battery_percentage',
+        condition: { type: 'threshold', operator: '<', value: 10 },
+        forMs: 0,
+        hysteresis: 2
+    },
+    {
+        name: 'High temperature',
+        enabled: true,
+        severity: 'warning',
+        field: 'temperature',
+        condition: { type: 'threshold', operator: '>', value: 40 },
+        forMs: 10000,
+        hysteresis: 2
+    },
+    {
+        name: 'Rapid altitude loss',
+        enabled: true,
+        severity: 'critical',
+        field: 'altitude',
+        condition: { type: 'rate', operator: '<', value: -100 },
+        forMs: 2000,
+        hysteresis: 20
+    }
+];
+
+export interface AlertEngine {
+    getRules(): AlertRule[];
+    getRule(id: string): AlertRule | undefined;
+    // Changing or removing a rule restarts its evaluation; alerts it already raised are cleared
+    saveRule(rule: AlertRule): void;
+    deleteRule(id: string): boolean;
+    evaluate(message: TelemetryMessage): void;
+    acknowledge(id: string, by?: string): Alert | undefined;
+    getActive(): Alert[];
+    getHistory(limit?: number): Alert[];
+    // Writes the default rules out if the rules file did not exist yet
+    persist(): void;
+}
+
+// Validates user input into a rule; returns an error message for bad input
+export function parseAlertRule(input: unknown, id: string = randomUUID()): AlertRule | string {
+    if (!input || typeof input !== 'object') return 'Rule body must be a JSON object';
+    const body = input as Record<string, unknown>;
+    if (typeof body.name !== 'string' || !body.name.trim()) return 'name is required';
+    const field = body.field as NumericTelemetryField;
+    if (!NUMERIC_FIELDS.includes(field)) return `field must be one of ${NUMERIC_FIELDS.join(', ')}`;
+
+    const enabled = body.enabled ?? true;
+    if (typeof enabled !== 'boolean') return 'enabled must be true or false';
+
+    const severity = (body.severity ?? 'warning') as AlertSeverity;
+    if (!SEVERITIES.includes(severity)) return `severity must be one of ${SEVERITIES.join(', ')}`;
+
+    const condition = (body.condition ?? {}) as Partial<Record<keyof AlertCondition, unknown>>;
+    const type = condition.type as AlertCondition['type'];
+    const operator = condition.operator as ComparisonOperator;
+    if (type !== 'threshold' && type !== 'rate') return 'condition.type must be "threshold" or "rate"';
+    if (!OPERATORS.includes(operator)) return `condition.operator must be one of ${OPERATORS.join(' ')}`;
+    if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) return 'condition.value must be a number';
+
+    const forMs = body.forMs ?? 0;
+    const hysteresis = body.hysteresis ?? 0;
+    if (typeof forMs !== 'number' || forMs < 0) return 'forMs must be a non-negative number';
+    if (typeof hysteresis !== 'number' || hysteresis < 0) return 'hysteresis must be a non-negative number';
+
+    return {
+        id,
+        name: body.name.trim(),
+        enabled,
+        severity,
+        field,
+        condition: { type, operator, value: condition.value },
+        forMs,
+        hysteresis,
+        ...(typeof body.vehicleId === 'string' && { vehicleId: body.vehicleId }),
+        ...(typeof body.sourceConnection === 'string' && { sourceConnection: body.sourceConnection })
+    };
+}
+
+function compare(value: number, operator: ComparisonOperator, limit: number): boolean {
+    switch (operator) {
+        case '>': return value > limit;
+        case '>=': return value >= limit;
+        case '<': return value < limit;
+        case '<=': return value <= limit;
+    }
+}
+
+// An active alert clears once the value is back past the limit by the hysteresis margin
+function hasRecovered(value: number, rule: AlertRule): boolean {
+    const { operator, value: limit } = rule.condition;
+    return operator === '>' || operator === '>='
+        ? value < limit - rule.hysteresis
+        : value > limit + rule.hysteresis;
+}
+
+// Reads the rules file, skipping entries that don't parse as a rule; throws when it isn't a JSON array
+function loadAlertRules(file: string): AlertRule[] {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new Error(`Alert rules file ${file} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(stored)) throw new Error(`Alert rules file ${file} must contain a JSON array`);
+
+    const rules: AlertRule[] = [];
+    for (const [index, entry] of stored.entries()) {
+        const id = typeof entry?.id === 'string' ? entry.id : undefined;
+        const rule = parseAlertRule(entry, id);
+        if (typeof rule === 'string') {
+            console.warn(`Skipping alert rule ${id ?? index} in ${file}: ${rule}`);
+            continue;
+        }
+        rules.push(rule);
+    }
+    return rules;
+}
+
+// Rules are loaded from `file`; if it does not exist yet the defaults are used and written out by persist()
+export function createAlertEngine(file: string, listener: AlertListener = () => {}): AlertEngine {
+    const rulesFile = path.resolve(file);
+    let rules: Map<string, AlertRule>;
+    // Evaluation state per rule and vehicle, keyed by "<ruleId>|<vehicleId>"
+    const ruleStates: Map<string, RuleState> = new Map();
+    // Alerts that have fired and not cleared, under the same keys; unlike history these are never trimmed
+    const activeAlerts: Map<string, Alert> = new Map();
+    const history: Alert[] = [];
+
+    const saveAlertRules = () => {
+        fs.mkdirSync(path.dirname(rulesFile), { recursive: true });
+        fs.writeFileSync(rulesFile, JSON.stringify(Array.from(rules.values()), null, 2));
+    };
+
+    const loaded = fs.existsSync(rulesFile);
+    if (loaded) {
+        rules = new Map(loadAlertRules(rulesFile).map(rule => [rule.id, rule]));
+    } else {
+        rules = new Map(DEFAULT_RULES.map(rule => {
+            const id = randomUUID();
+            return [id, { id, ...rule }];
+        }));
+    }
+
+    const alertKey = (alert: Alert) => `${alert.ruleId}|${alert.vehicleId}`;
+
+    const clearAlert = (alert: Alert) => {
+        activeAlerts.delete(alertKey(alert));
+        alert.state = 'cleared';
+        alert.clearedAt = new Date().toISOString();
+        listener(alert, 'cleared');
+    };
+
+    const fireAlert = (rule: AlertRule, message: TelemetryMessage, value: number): Alert => {
+        const unit = rule.condition.type === 'rate' ? '/s' : '';
+        const alert: Alert = {
+            id: randomUUID(),
+            ruleId: rule.id,
+            ruleName: rule.name,
+            severity: rule.severity,
+            vehicleId: message.vehicleId,
+            sourceConnection: message.sourceConnection,
+            field: rule.field,
+            value,
+            limit: rule.condition.value,
+            message: `${rule.name}: ${rule.field}${rule.condition.type === 'rate' ? ' rate' : ''} ` +
+                `${value.toFixed(2)}${unit} ${rule.condition.operator} ${rule.condition.value}${unit} on ${message.vehicleId}`,
+            state: 'active',
+            firedAt: new Date().toISOString(),
+            acknowledged: false
+        };
+
+        activeAlerts.set(alertKey(alert), alert);
+        history.push(alert);
+        if (history.length > MAX_HISTORY) history.shift();
+        listener(alert, 'fired');
+        return alert;
+    };
+
+    const resetRuleState = (ruleId: string) => {
+        for (const [key, state] of ruleStates) {
+            if (!key.startsWith(`${ruleId}|`)) continue;
+            if (state.active) clearAlert(state.active);
+            ruleStates.delete(key);
+        }
+    };
+
+    return {
+        getRules() {
+            return Array.from(rules.values());
+        },
+
+        getRule(id) {
+            return rules.get(id);
+        },
+
+        saveRule(rule) {
+            rules.set(rule.id, rule);
+            resetRuleState(rule.id);
+            saveAlertRules();
+        },
+
+        deleteRule(id) {
+            if (!rules.has(id)) return false;
+
+            resetRuleState(id);
+            rules.delete(id);
+            saveAlertRules();
+            return true;
+        },
+
+        evaluate(message) {
+            const time = Date.parse(message.timestamp);
+
+            for (const rule of rules.values()) {
+                if (!rule.enabled) continue;
+                if (rule.vehicleId && rule.vehicleId !== message.vehicleId) continue;
+                if (rule.sourceConnection && rule.sourceConnection !== message.sourceConnection) continue;
+
+                const key = `${rule.id}|${message.vehicleId}`;
+                const state = ruleStates.get(key) || {};
+                ruleStates.set(key, state);
+
+                const raw = message[rule.field];
+                let value: number | undefined = raw;
+
+                if (rule.condition.type === 'rate') {
+                    const dt = state.lastTime !== undefined ? (time - state.lastTime) / 1000 : 0;
+                    value = dt > 0 && state.lastValue !== undefined ? (raw - state.lastValue) / dt : undefined;
+                    state.lastValue = raw;
+                    state.lastTime = time;
+                }
+                if (value === undefined) continue;
+
+                if (state.active) {
+                    state.active.value = value;
+                    if (hasRecovered(value, rule)) {
+                        clearAlert(state.active);
+                        state.active = undefined;
+                        state.pendingSince = undefined;
+                    }
+                    continue;
+                }
+
+                if (!compare(value, rule.condition.operator, rule.condition.value)) {
+                    state.pendingSince = undefined;
+                    continue;
+                }
+
+                state.pendingSince ??= time;
+                if (time - state.pendingSince >= rule.forMs) {
+                    state.active = fireAlert(rule, message, value);
+                }
+            }
+        },
+
+        acknowledge(id, by) {
+            const alert = Array.from(activeAlerts.values()).find(entry => entry.id === id)
+                ?? history.find(entry => entry.id === id);
+            if (!alert || alert.acknowledged) return alert;
+
+            alert.acknowledged = true;
+            alert.acknowledgedAt = new Date().toISOString();
+            alert.acknowledgedBy = by;
+            listener(alert, 'acknowledged');
+            return alert;
+        },
+
+        getActive() {
+            return Array.from(activeAlerts.values());
+        },
+
+        getHistory(limit = MAX_HISTORY) {
+            return history.slice(-limit);
+        },
+
+        persist() {
+            if (!loaded && !fs.existsSync(rulesFile)) saveAlertRules();
+        }
+    };
+}
@@ -0,0 +1,186 @@
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+/*
+ * Two ways to authenticate, both sent as "Authorization: Bearer <credential>" (or X-API-Key)
+ * over REST and as `auth.token` in the Socket.IO handshake:
+ *   - API keys from API_KEYS, e.g. "ops@operator:s3cret-ops,viewer:wall-display"; the optional label
+ *     names the key's holder in sessions and alert acknowledgements, which never show the key itself
+ *   - Signed tokens "<base64url payload>.<base64url HMAC-SHA256>" issued by POST /auth/token
+ *     with AUTH_TOKEN_SECRET; the payload is {"sub", "role", "exp"} with exp in seconds
+ * Viewers can read; operators can also control the simulator, replay, listeners and rules.
+ * With neither API_KEYS nor AUTH_TOKEN_SECRET set, authentication is off and everyone is an operator.
+ */
+export type Role = 'viewer' | 'operator';
+
+export const ROLES: Role[] = ['viewer', 'operator'];
+
+export interface AuthContext {
+    role: Role;
+    subject: string;
+    method: 'api_key' | 'token' | 'anonymous';
+    // Token expiry, ms since epoch
+    expiresAt?: number;
+}
+
+export interface ApiKey {
+    role: Role;
+    // Subject the key authenticates as
+    subject: string;
+}
+
+export interface AuthConfig {
+    apiKeys: Map<string, ApiKey>;
+    tokenSecret?: string;
+    // Role given to requests without credentials; null rejects them
+    anonymousRole: Role | null;
+}
+
+interface TokenPayload {
+    sub: string;
+    role: Role;
+    exp: number;
+}
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, operator: 1 };
+
+const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+// Unlabelled keys are told apart by a short hash, so the subject can be shown to anyone without leaking the key
+export const apiKeySubject = (key: string, label?: string) =>
+    `api-key:${label || createHash('sha256').update(key).digest('hex').slice(0, 8)}`;
+
+export function authConfigFromEnv(env: NodeJS.ProcessEnv): AuthConfig {
+    const apiKeys: Map<string, ApiKey> = new Map();
+    for (const entry of (env.API_KEYS || '').split(',').map(part => part.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const at = entry.indexOf('@');
+        const labelEnd = at >= 0 && at < separator ? at : -1;
+        const label = entry.slice(0, Math.max(0, labelEnd));
+        const role = entry.slice(labelEnd + 1, separator);
+        const key = entry.slice(separator + 1);
+        if (separator <= 0 || labelEnd === 0 || !isRole(role) || !key) {
+            throw new Error(`Invalid API_KEYS entry "${entry}", expected [label@]<viewer|operator>:<key>`);
+        }
+        apiKeys.set(key, { role, subject: apiKeySubject(key, label) });
+    }
+
+    const anonymousRole = env.AUTH_ANONYMOUS_ROLE;
+    if (anonymousRole && anonymousRole !== 'none' && !isRole(anonymousRole)) {
+        throw new Error(`Invalid AUTH_ANONYMOUS_ROLE "${anonymousRole}", expected viewer, operator or none`);
+    }
+
+    return {
+        apiKeys,
+        tokenSecret: env.AUTH_TOKEN_SECRET || undefined,
+        anonymousRole: isRole(anonymousRole) ? anonymousRole : null
+    };
+}
+
+export interface Auth {
+    isEnabled(): boolean;
+    // Resolves a credential to a role; null means the caller is not allowed in at all
+    authenticate(credential: string | undefined): AuthContext | null;
+    issueToken(subject: string, role: Role, ttlSeconds: number): { token: string; expiresAt: string };
+    // Authenticates every request; reads need a viewer, anything that changes state needs an operator
+    middleware(publicPaths?: string[]): (req: Request, res: Response, next: NextFunction) => void;
+}
+
+export function hasRole(context: AuthContext | undefined, role: Role): boolean {
+    return !!context && ROLE_RANK[context.role] >= ROLE_RANK[role];
+}
+
+const sign = (payload: string, secret: string) => createHmac('sha256', secret).update(payload).digest('base64url');
+
+function safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function credentialFromRequest(req: Request): string | undefined {
+    const header = req.headers.authorization;
+    if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim();
+    const apiKey = req.headers['x-api-key'];
+    return typeof apiKey === 'string' ? apiKey : undefined;
+}
+
+export function createAuth(config: AuthConfig): Auth {
+    const isEnabled = () => config.apiKeys.size > 0 || !!config.tokenSecret;
+
+    const verifyToken = (token: string): AuthContext | null => {
+        if (!config.tokenSecret) return null;
+
+        const [payload, signature, ...rest] = token.split('.');
+        if (!payload || !signature || rest.length > 0 || !safeEqual(signature, sign(payload, config.tokenSecret))) {
+            return null;
+        }
+
+        let claims: TokenPayload;
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        } catch {
+            return null;
+        }
+        if (!isRole(claims.role) || typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+            return null;
+        }
+        return { role: claims.role, subject: String(claims.sub), method: 'token', expiresAt: claims.exp * 1000 };
+    };
+
+    const authenticate = (credential: string | undefined): AuthContext | null => {
+        if (!isEnabled()) {
+            return { role: 'operator', subject: 'anonymous', method: 'anonymous' };
+        }
+
+        if (credential) {
+            for (const [key, { role, subject }] of config.apiKeys) {
+                if (safeEqual(credential, key)) {
+                    return { role, subject, method: 'api_key' };
+                }
+            }
+            return verifyToken(credential);
+        }
+
+        return config.anonymousRole ? { role: config.anonymousRole, subject: 'anonymous', method: 'anonymous' } : null;
+    };
+
+    return {
+        isEnabled,
+        authenticate,
+
+        issueToken(subject, role, ttlSeconds) {
+            if (!config.tokenSecret) {
+                throw new Error('AUTH_TOKEN_SECRET is not configured');
+            }
+
+            const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+            const payload = Buffer.from(JSON.stringify({ sub: subject, role, exp, jti: randomUUID() })).toString('base64url');
+            return { token: `${payload}.${sign(payload, config.tokenSecret)}`, expiresAt: new Date(exp * 1000).toISOString() };
+        },
+
+        middleware(publicPaths = []) {
+            return (req, res, next) => {
+                if (req.method === 'OPTIONS' || publicPaths.includes(req.path)) {
+                    next();
+                    return;
+                }
+
+                const context = authenticate(credentialFromRequest(req));
+                if (!context) {
+                    res.status(401).json({ error: 'Authentication required' });
+                    return;
+                }
+
+                const readOnly = req.method === 'GET' || req.method === 'HEAD';
+                if (!readOnly && !hasRole(context, 'operator')) {
+                    res.status(403).json({ error: 'Operator role required', role: context.role });
+                    return;
+                }
+
+                res.locals.auth = context;
+                next();
+            };
+        }
+    };
+}
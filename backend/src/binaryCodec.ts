@@ -0,0 +1,159 @@
+import { FlightTelemetry } from './types';
+import { ValidationResult, parseAndValidateTelemetry, validateTelemetry } from './validation';
+
+/*
+ * Binary telemetry packet (all numbers little-endian):
+ *
+ *   offset  size  field
+ *   0       4     magic "FTLM"
+ *   4       1     version (1 or 2)
+ *   5       1     flags (reserved, 0)
+ *   6       4     sequence number (uint32)
+ *   10      8     timestamp, ms since epoch (float64)
+ *   18      4     altitude (float32)
+ *   22      4     speedX (float32)
+ *   26      4     speedY (float32)
+ *   30      4     speedZ (float32)
+ *   34      4     heading (float32)
+ *   38      8     latitude (float64)
+ *   46      8     longitude (float64)
+ *   54      4     temperature (float32)
+ *   58      4     battery_percentage (float32)
+ *   62      16    vehicle ID, ASCII, NUL padded (version 2 only)
+ *   62/78   4     CRC-32 of all preceding bytes (uint32)
+ *
+ * Version 1 packets are 66 bytes, version 2 packets are 82 bytes.
+ */
+export const BINARY_MAGIC = Buffer.from('FTLM', 'ascii');
+export const BINARY_VERSION = 2;
+
+const PACKET_SIZES: Record<number, number> = { 1: 66, 2: 82 };
+const VEHICLE_ID_OFFSET = 62;
+const VEHICLE_ID_BYTES = 16;
+
+export type PacketFormat = 'json' | 'binary';
+
+export type DecodedPacket = ValidationResult & { format: PacketFormat; sequence?: number };
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+export function crc32(buffer: Buffer, end = buffer.length): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < end; i++) {
+        crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function isBinaryTelemetryPacket(msg: Buffer): boolean {
+    return msg.length >= BINARY_MAGIC.length && msg.subarray(0, BINARY_MAGIC.length).equals(BINARY_MAGIC);
+}
+
+export function encodeBinaryTelemetry(data: FlightTelemetry, sequence: number): Buffer {
+    const vehicleId = Buffer.from(data.vehicleId || '', 'ascii');
+    if (vehicleId.length > VEHICLE_ID_BYTES) {
+        throw new RangeError(`vehicleId "${data.vehicleId}" exceeds ${VEHICLE_ID_BYTES} bytes`);
+    }
+
+    const size = PACKET_SIZES[BINARY_VERSION];
+    const crcOffset = size - 4;
+    const buffer = Buffer.alloc(size);
+
+    BINARY_MAGIC.copy(buffer, 0);
+    buffer.writeUInt8(BINARY_VERSION, 4);
+    buffer.writeUInt8(0, 5);
+    buffer.writeUInt32LE(sequence >>> 0, 6);
+    buffer.writeDoubleLE(Date.parse(data.timestamp), 10);
+    buffer.writeFloatLE(data.altitude, 18);
+    buffer.writeFloatLE(data.speedX, 22);
+    buffer.writeFloatLE(data.speedY, 26);
+    buffer.writeFloatLE(data.speedZ, 30);
+    buffer.writeFloatLE(data.heading, 34);
+    buffer.writeDoubleLE(data.latitude, 38);
+    buffer.writeDoubleLE(data.longitude, 46);
+    buffer.writeFloatLE(data.temperature, 54);
+    buffer.writeFloatLE(data.battery_percentage, 58);
+    vehicleId.copy(buffer, VEHICLE_ID_OFFSET);
+    buffer.writeUInt32LE(crc32(buffer, crcOffset), crcOffset);
+
+    return buffer;
+}
+
+export function decodeBinaryTelemetry(msg: Buffer): DecodedPacket {
+    const version = msg.length > 4 ? msg.readUInt8(4) : undefined;
+    const size = version !== undefined ? PACKET_SIZES[version] : undefined;
+
+    if (size === undefined) {
+        return {
+            valid: false,
+            format: 'binary',
+            issues: [{ field: '$', code: 'unsupported_version', message: `Unsupported binary packet version ${version}` }]
+        };
+    }
+
+    if (msg.length !== size) {
+        return {
+            valid: false,
+            format: 'binary',
+            issues: [{
+                field: '$',
+                code: 'bad_length',
+                message: `Binary v${version} packet is ${msg.length} bytes, expected ${size}`
+            }]
+        };
+    }
+
+    const crcOffset = size - 4;
+    const expectedCrc = msg.readUInt32LE(crcOffset);
+    const actualCrc = crc32(msg, crcOffset);
+    if (expectedCrc !== actualCrc) {
+        return {
+            valid: false,
+            format: 'binary',
+            issues: [{
+                field: '$',
+                code: 'crc_mismatch',
+                message: `CRC ${actualCrc.toString(16)} does not match ${expectedCrc.toString(16)}`
+            }]
+        };
+    }
+
+    const timestamp = msg.readDoubleLE(10);
+    const vehicleId = version === 2
+        ? msg.toString('ascii', VEHICLE_ID_OFFSET, VEHICLE_ID_OFFSET + VEHICLE_ID_BYTES).replace(/\0+$/, '')
+        : '';
+    const decoded = {
+        ...(vehicleId && { vehicleId }),
+        timestamp: Number.isFinite(timestamp) ? new Date(timestamp).toISOString() : 'invalid',
+        altitude: msg.readFloatLE(18),
+        speedX: msg.readFloatLE(22),
+        speedY: msg.readFloatLE(26),
+        speedZ: msg.readFloatLE(30),
+        heading: msg.readFloatLE(34),
+        latitude: msg.readDoubleLE(38),
+        longitude: msg.readDoubleLE(46),
+        temperature: msg.readFloatLE(54),
+        battery_percentage: msg.readFloatLE(58)
+    };
+
+    return { ...validateTelemetry(decoded), format: 'binary', sequence: msg.readUInt32LE(6) };
+}
+
+// Detects the packet format from its header and decodes it
+export function decodeTelemetryPacket(msg: Buffer): DecodedPacket {
+    if (isBinaryTelemetryPacket(msg)) {
+        return decodeBinaryTelemetry(msg);
+    }
+    const result = parseAndValidateTelemetry(msg.toString());
+    return { ...result, format: 'json' };
+}
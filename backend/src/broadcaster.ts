@@ -0,0 +1,148 @@
+import { Server, Socket } from 'socket.io';
+import { TelemetryMessage } from './types';
+import { AuthContext } from './auth';
+import { ClientDelivery, ClientDeliveryConfig, createClientDelivery } from './clientDelivery';
+import { BATCH_FORMATS, BatchFormat, buildBatch, createTelemetryBatcher, encodeBatch } from './telemetryBatcher';
+import { LatencyRecorder } from './latency';
+import { ResumeBuffer, createResumeBuffer } from './resumeBuffer';
+
+// Clients start in the "all vehicles" room (or the vehicle rooms named in their handshake) until they subscribe to specific ones
+const ALL_VEHICLES_ROOM = 'vehicles:all';
+const vehicleRoom = (vehicleId: string) => `vehicle:${vehicleId}`;
+
+export type TelemetryFormat = BatchFormat | 'message';
+
+export interface BroadcasterOptions {
+    // Tick on which telemetryBatch events go out to clients that negotiated a batch format
+    batchIntervalMs: number;
+    delivery: ClientDeliveryConfig;
+    // Recent messages kept for clients resuming after a reconnect, 0 disables backfill
+    resumeBufferSize: number;
+}
+
+// Sent as `telemetryBackfill` right after connecting when the handshake carries `lastMessageId`
+export interface BackfillReport {
+    since: number;
+    recovered: number;
+    lost: { from: number; to: number } | null;
+    restarted: boolean;
+}
+
+/*
+ * Fans telemetry out to Socket.IO clients: vehicle subscriptions, each client's delivery policy,
+ * and per-message `telemetryData` or batched `telemetryBatch` events depending on the handshake.
+ */
+export interface Broadcaster {
+    readonly delivery: ClientDelivery;
+    readonly resumeBuffer: ResumeBuffer;
+    // Registers a connected client, backfills what it missed, and returns the telemetry format it negotiated
+    addClient(socket: Socket, auth: AuthContext): TelemetryFormat;
+    removeClient(id: string): void;
+    subscribe(socket: Socket, vehicleIds: string[]): void;
+    subscribeAll(socket: Socket): void;
+    broadcast(message: TelemetryMessage): void;
+    getTelemetryFormat(id: string): TelemetryFormat;
+    start(): void;
+    stop(): void;
+}
+
+export function createBroadcaster(io: Server, options: BroadcasterOptions, latency: LatencyRecorder): Broadcaster {
+    const delivery = createClientDelivery(options.delivery);
+    const resumeBuffer = createResumeBuffer(options.resumeBufferSize);
+    const batcher = createTelemetryBatcher(
+        { intervalMs: options.batchIntervalMs },
+        (socketIds, payload) => io.to(socketIds).emit("telemetryBatch", payload)
+    );
+
+    const leaveVehicleRooms = (socket: Socket) => {
+        for (const room of socket.rooms) {
+            if (room.startsWith('vehicle:')) socket.leave(room);
+        }
+    };
+
+    // Everything after `since` for the vehicles the client watches, in the client's telemetry format. Runs before
+    // the client gets any live telemetry, so the backfill always arrives first
+    const backfill = (socket: Socket, format: TelemetryFormat, since: number, vehicleIds?: Set<string>) => {
+        const { messages, lost, restarted } = resumeBuffer.since(since, vehicleIds);
+        const report: BackfillReport = { since, recovered: messages.length, lost, restarted };
+        const data = format === 'message'
+            ? { messages }
+            : { batch: encodeBatch(buildBatch(messages, Date.now()), format) };
+        socket.emit("telemetryBackfill", { ...report, ...data });
+    };
+
+    return {
+        delivery,
+        resumeBuffer,
+
+        addClient(socket, auth) {
+            delivery.register(socket, auth.subject, auth.role);
+            const handshake = socket.handshake.auth ?? {};
+
+            // Clients opt into batched telemetry with `auth.telemetryFormat`; anything else keeps per-message telemetryData
+            const requestedFormat = handshake.telemetryFormat;
+            const telemetryFormat = BATCH_FORMATS.includes(requestedFormat) ? requestedFormat as BatchFormat : 'message';
+            if (telemetryFormat !== 'message') batcher.addClient(socket.id, telemetryFormat);
+
+            // Reconnecting clients can restore their vehicle subscription in the handshake instead of re-subscribing
+            const vehicleIds = Array.isArray(handshake.vehicleIds)
+                ? new Set<string>(handshake.vehicleIds.filter((id: unknown) => typeof id === 'string'))
+                : undefined;
+            if (vehicleIds) {
+                socket.join(Array.from(vehicleIds, vehicleRoom));
+            } else {
+                socket.join(ALL_VEHICLES_ROOM);
+            }
+
+            if (Number.isInteger(handshake.lastMessageId) && handshake.lastMessageId > 0) {
+                backfill(socket, telemetryFormat, handshake.lastMessageId, vehicleIds);
+            }
+            return telemetryFormat;
+        },
+
+        removeClient(id) {
+            delivery.unregister(id);
+            batcher.removeClient(id);
+        },
+
+        subscribe(socket, vehicleIds) {
+            socket.leave(ALL_VEHICLES_ROOM);
+            leaveVehicleRooms(socket);
+            socket.join(vehicleIds.filter(id => typeof id === 'string').map(vehicleRoom));
+        },
+
+        subscribeAll(socket) {
+            leaveVehicleRooms(socket);
+            socket.join(ALL_VEHICLES_ROOM);
+        },
+
+        broadcast(message) {
+            const emittedAt = Date.now();
+            const processingLatency = emittedAt - message.receivedAt;
+            latency.record('pipeline', processingLatency);
+            resumeBuffer.add(message);
+
+            // Each client's delivery policy decides whether it gets this message; batch clients get it on the
+            // next tick and the rest share one emit
+            const { rooms } = io.sockets.adapter;
+            const addressed = new Set([...(rooms.get(ALL_VEHICLES_ROOM) ?? []), ...(rooms.get(vehicleRoom(message.vehicleId)) ?? [])]);
+            const recipients = delivery.selectRecipients(addressed, message.vehicleId, emittedAt)
+                .filter(id => !batcher.add(id, message));
+            if (recipients.length > 0) {
+                io.to(recipients).emit("telemetryData", { ...message, processingLatency, emittedAt });
+            }
+        },
+
+        getTelemetryFormat(id) {
+            return batcher.getFormat(id) ?? 'message';
+        },
+
+        start() {
+            batcher.start();
+        },
+
+        stop() {
+            batcher.stop();
+        }
+    };
+}
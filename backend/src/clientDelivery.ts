@@ -0,0 +1,235 @@
+import { Socket } from 'socket.io';
+import { RateWindow, createRateWindow } from './metrics';
+
+/*
+ * Per-client flow control for the telemetry broadcast. Each socket's backlog is the number of
+ * packets engine.io has queued but not yet handed to the transport; above `highWaterMark` the
+ * client is lagging. What happens then depends on the client's policy:
+ *   - reliable: everything is queued (the old behaviour)
+ *   - volatile: messages are skipped while the client is lagging
+ *   - decimate: at most `maxRate` messages per second per vehicle, lagging or not
+ * Under any policy a client that stays lagging for `disconnectAfterMs` (0 disables) is disconnected.
+ */
+export type DeliveryMode = 'reliable' | 'volatile' | 'decimate';
+
+export const DELIVERY_MODES: DeliveryMode[] = ['reliable', 'volatile', 'decimate'];
+
+export interface DeliveryPolicy {
+    mode: DeliveryMode;
+    // Messages per second per vehicle in decimate mode
+    maxRate: number;
+    disconnectAfterMs: number;
+}
+
+export interface ClientDeliveryConfig {
+    defaultPolicy: DeliveryPolicy;
+    // Queued packets at which a client counts as lagging; it recovers below half of this
+    highWaterMark: number;
+}
+
+export interface ClientDeliveryStats {
+    id: string;
+    subject: string;
+    role: string;
+    address: string;
+    transport: string;
+    connectedAt: string;
+    policy: DeliveryPolicy;
+    sent: number;
+    sendRate: number;
+    // Skipped while lagging (volatile) and thinned out to the target rate (decimate)
+    dropped: number;
+    decimated: number;
+    buffered: number;
+    maxBuffered: number;
+    laggingForMs: number;
+}
+
+interface ClientState {
+    socket: Socket;
+    subject: string;
+    role: string;
+    connectedAt: number;
+    policy: DeliveryPolicy;
+    sent: number;
+    sendRate: RateWindow;
+    dropped: number;
+    decimated: number;
+    maxBuffered: number;
+    laggingSince?: number;
+    // Last emit per vehicle, for decimation
+    lastSent: Map<string, number>;
+}
+
+export interface DeliveryTotals {
+    clients: number;
+    lagging: number;
+    // Totals since startup, including clients that have since left
+    dropped: number;
+    decimated: number;
+    slowDisconnects: number;
+    highWaterMark: number;
+}
+
+export interface ClientDelivery {
+    getDefaultPolicy(): DeliveryPolicy;
+    register(socket: Socket, subject: string, role: string): void;
+    unregister(id: string): void;
+    getPolicy(id: string): DeliveryPolicy | undefined;
+    setPolicy(id: string, policy: DeliveryPolicy): boolean;
+    // Filters the sockets a message is addressed to down to those that should get it now
+    selectRecipients(socketIds: Iterable<string>, vehicleId: string, now?: number): string[];
+    // Disconnects clients that have been lagging for longer than their policy allows
+    disconnectSlowClients(now?: number): string[];
+    getStats(now?: number): ClientDeliveryStats[];
+    getTotals(): DeliveryTotals;
+}
+
+const MAX_RATE_LIMIT = 1000;
+
+// Validates a partial policy on top of `current`; returns an error message for bad input
+export function parseDeliveryPolicy(input: unknown, current: DeliveryPolicy): DeliveryPolicy | string {
+    if (!input || typeof input !== 'object') return 'Delivery policy must be a JSON object';
+    const body = input as Partial<Record<keyof DeliveryPolicy, unknown>>;
+
+    const mode = (body.mode ?? current.mode) as DeliveryMode;
+    if (!DELIVERY_MODES.includes(mode)) return `mode must be one of ${DELIVERY_MODES.join(', ')}`;
+
+    const maxRate = body.maxRate ?? current.maxRate;
+    if (typeof maxRate !== 'number' || maxRate <= 0 || maxRate > MAX_RATE_LIMIT) return `maxRate must be between 0 and ${MAX_RATE_LIMIT} messages per second`;
+
+    const disconnectAfterMs = body.disconnectAfterMs ?? current.disconnectAfterMs;
+    if (typeof disconnectAfterMs !== 'number' || disconnectAfterMs < 0) return 'disconnectAfterMs must be a non-negative number';
+
+    return { mode, maxRate, disconnectAfterMs };
+}
+
+// engine.io keeps packets in writeBuffer while the transport is busy; it is not part of the typings
+const bufferedPackets = (socket: Socket) => (socket.conn as unknown as { writeBuffer: unknown[] }).writeBuffer.length;
+
+export function createClientDelivery(config: ClientDeliveryConfig): ClientDelivery {
+    const clients: Map<string, ClientState> = new Map();
+    const totals = { dropped: 0, decimated: 0, slowDisconnects: 0 };
+
+    const updateLag = (client: ClientState, now: number): boolean => {
+        const buffered = bufferedPackets(client.socket);
+        client.maxBuffered = Math.max(client.maxBuffered, buffered);
+
+        if (buffered >= config.highWaterMark) {
+            client.laggingSince ??= now;
+        } else if (buffered < config.highWaterMark / 2) {
+            client.laggingSince = undefined;
+        }
+        return client.laggingSince !== undefined;
+    };
+
+    return {
+        getDefaultPolicy() {
+            return { ...config.defaultPolicy };
+        },
+
+        register(socket, subject, role) {
+            clients.set(socket.id, {
+                socket,
+                subject,
+                role,
+                connectedAt: Date.now(),
+                policy: { ...config.defaultPolicy },
+                sent: 0,
+                sendRate: createRateWindow(10),
+                dropped: 0,
+                decimated: 0,
+                maxBuffered: 0,
+                lastSent: new Map()
+            });
+        },
+
+        unregister(id) {
+            clients.delete(id);
+        },
+
+        getPolicy(id) {
+            return clients.get(id)?.policy;
+        },
+
+        setPolicy(id, policy) {
+            const client = clients.get(id);
+            if (!client) return false;
+
+            client.policy = policy;
+            client.lastSent.clear();
+            return true;
+        },
+
+        selectRecipients(socketIds, vehicleId, now = Date.now()) {
+            const recipients: string[] = [];
+
+            for (const id of socketIds) {
+                const client = clients.get(id);
+                if (!client) continue;
+
+                const lagging = updateLag(client, now);
+                const { policy } = client;
+
+                if (policy.mode === 'volatile' && lagging) {
+                    client.dropped++;
+                    totals.dropped++;
+                    continue;
+                }
+                if (policy.mode === 'decimate') {
+                    const last = client.lastSent.get(vehicleId);
+                    if (last !== undefined && now - last < 1000 / policy.maxRate) {
+                        client.decimated++;
+                        totals.decimated++;
+                        continue;
+                    }
+                    client.lastSent.set(vehicleId, now);
+                }
+
+                client.sent++;
+                client.sendRate.add();
+                recipients.push(id);
+            }
+            return recipients;
+        },
+
+        disconnectSlowClients(now = Date.now()) {
+            const disconnected: string[] = [];
+
+            for (const client of clients.values()) {
+                const { disconnectAfterMs } = client.policy;
+                if (!updateLag(client, now) || disconnectAfterMs === 0 || now - client.laggingSince! < disconnectAfterMs) continue;
+
+                console.warn(`Disconnecting slow client ${client.socket.id} (${client.subject}): ${bufferedPackets(client.socket)} packets queued`);
+                client.socket.disconnect(true);
+                totals.slowDisconnects++;
+                disconnected.push(client.socket.id);
+            }
+            return disconnected;
+        },
+
+        getStats(now = Date.now()) {
+            return Array.from(clients.values()).map(client => ({
+                id: client.socket.id,
+                subject: client.subject,
+                role: client.role,
+                address: client.socket.handshake.address,
+                transport: client.socket.conn.transport.name,
+                connectedAt: new Date(client.connectedAt).toISOString(),
+                policy: client.policy,
+                sent: client.sent,
+                sendRate: Math.round(client.sendRate.rate() * 10) / 10,
+                dropped: client.dropped,
+                decimated: client.decimated,
+                buffered: bufferedPackets(client.socket),
+                maxBuffered: client.maxBuffered,
+                laggingForMs: client.laggingSince !== undefined ? now - client.laggingSince : 0
+            }));
+        },
+
+        getTotals() {
+            const lagging = Array.from(clients.values()).filter(client => client.laggingSince !== undefined).length;
+            return { clients: clients.size, lagging, ...totals, highWaterMark: config.highWaterMark };
+        }
+    };
+}
@@ -0,0 +1,138 @@
+import { DerivedTelemetry, TelemetryMessage } from './types';
+import { TELEMETRY_SCHEMA } from './validation';
+import { NUMERIC_FIELDS, NumericTelemetryField } from './telemetryStore';
+import { distanceNm } from './scenarioEngine';
+
+/*
+ * Derived channels: values computed from a vehicle's consecutive samples during ingestion and sent
+ * to clients as `derived` on every telemetry message, so consumers don't each work them out from
+ * the raw speeds, positions and battery level. State is kept per vehicle on each source, so two sources
+ * reporting the same vehicleId don't mix their samples, and is fed in sequence order.
+ */
+export type DerivedChannel = keyof DerivedTelemetry;
+
+export interface ChannelInfo {
+    name: string;
+    // 'raw' channels come from the packet, 'derived' ones are computed by the backend
+    kind: 'raw' | 'derived';
+    // Where the value sits in a telemetryData message
+    path: string;
+    units: string;
+    description: string;
+    // Valid range for raw channels, from the validation schema
+    min?: number;
+    max?: number;
+    // Stored in the time-series store and queryable from /telemetry
+    historical: boolean;
+}
+
+const RAW_CHANNEL_INFO: Record<NumericTelemetryField, { units: string; description: string }> = {
+    altitude: { units: 'ft', description: 'Altitude' },
+    speedX: { units: 'kt', description: 'Eastward speed' },
+    speedY: { units: 'kt', description: 'Northward speed' },
+    speedZ: { units: 'kt', description: 'Upward speed' },
+    heading: { units: 'deg', description: 'Heading, clockwise from north' },
+    latitude: { units: 'deg', description: 'Latitude' },
+    longitude: { units: 'deg', description: 'Longitude' },
+    temperature: { units: 'degC', description: 'Outside air temperature' },
+    battery_percentage: { units: '%', description: 'Battery charge remaining' }
+};
+
+const DERIVED_CHANNEL_INFO: Record<DerivedChannel, { units: string; description: string }> = {
+    airspeed: { units: 'kt', description: 'Magnitude of the speedX/Y/Z vector' },
+    verticalSpeed: { units: 'ft/min', description: 'Rate of altitude change between samples' },
+    distanceTraveled: { units: 'nm', description: 'Ground distance covered since the vehicle was first seen' },
+    batteryDrainRate: { units: '%/h', description: 'Smoothed battery use, negative while charging' },
+    timeToEmpty: { units: 'min', description: 'Time until the battery is empty at the current drain rate' }
+};
+
+export const DERIVED_CHANNELS = Object.keys(DERIVED_CHANNEL_INFO) as DerivedChannel[];
+
+export const CHANNELS: ChannelInfo[] = [
+    ...NUMERIC_FIELDS.map(field => {
+        const rule = TELEMETRY_SCHEMA[field];
+        return {
+            name: field,
+            kind: 'raw' as const,
+            path: field,
+            ...RAW_CHANNEL_INFO[field],
+            ...(rule.type === 'number' && { min: rule.min, max: rule.max }),
+            historical: true
+        };
+    }),
+    ...DERIVED_CHANNELS.map(channel => ({
+        name: channel,
+        kind: 'derived' as const,
+        path: `derived.${channel}`,
+        ...DERIVED_CHANNEL_INFO[channel],
+        historical: false
+    }))
+];
+
+// Time constant for smoothing the battery drain rate; battery readings move in small steps
+const DRAIN_RATE_TAU_MS = 30000;
+// A position change faster than the validated speed limit is a jump (e.g. a replay restarting), not distance flown
+const MAX_GROUND_SPEED_KT = 2000;
+
+interface VehicleState {
+    time: number;
+    altitude: number;
+    latitude: number;
+    longitude: number;
+    battery: number;
+    distanceTraveled: number;
+    batteryDrainRate: number | null;
+}
+
+export interface DerivedChannels {
+    // Computes the derived values for the vehicle's next sample from its source and advances its state
+    derive(message: Omit<TelemetryMessage, 'derived'>): DerivedTelemetry;
+}
+
+export function createDerivedChannels(): DerivedChannels {
+    // Keyed by "<sourceConnection>|<vehicleId>"
+    const vehicles: Map<string, VehicleState> = new Map();
+
+    return {
+        derive(message) {
+            const key = `${message.sourceConnection}|${message.vehicleId}`;
+            const time = Date.parse(message.timestamp);
+            const previous = vehicles.get(key);
+            const elapsedMs = previous ? time - previous.time : 0;
+
+            let verticalSpeed: number | null = null;
+            let distanceTraveled = previous?.distanceTraveled ?? 0;
+            let batteryDrainRate = previous?.batteryDrainRate ?? null;
+            // A timestamp at or before the previous one (a duplicate, or a recording replayed) only re-baselines
+            if (previous && elapsedMs > 0) {
+                verticalSpeed = (message.altitude - previous.altitude) / (elapsedMs / 60000);
+
+                const step = distanceNm(previous.latitude, previous.longitude, message.latitude, message.longitude);
+                if (step / (elapsedMs / 3600000) <= MAX_GROUND_SPEED_KT) distanceTraveled += step;
+
+                const rate = (previous.battery - message.battery_percentage) / (elapsedMs / 3600000);
+                const alpha = 1 - Math.exp(-elapsedMs / DRAIN_RATE_TAU_MS);
+                batteryDrainRate = batteryDrainRate === null ? rate : batteryDrainRate + alpha * (rate - batteryDrainRate);
+            }
+
+            vehicles.set(key, {
+                time,
+                altitude: message.altitude,
+                latitude: message.latitude,
+                longitude: message.longitude,
+                battery: message.battery_percentage,
+                distanceTraveled,
+                batteryDrainRate
+            });
+            return {
+                airspeed: Math.hypot(message.speedX, message.speedY, message.speedZ),
+                verticalSpeed,
+                distanceTraveled,
+                batteryDrainRate,
+                timeToEmpty: batteryDrainRate !== null && batteryDrainRate > 0
+                    ? (message.battery_percentage / batteryDrainRate) * 60
+                    : null
+            };
+        }
+    };
+}
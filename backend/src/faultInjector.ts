@@ -0,0 +1,206 @@
+/*
+ * Network faults applied to simulator packets just before they are sent, so the backend's loss,
+ * duplicate, reorder and validation handling can be checked against known numbers. Every fault has
+ * its own probability per packet; a burst outage drops everything for `durationMs` at the end of
+ * every `periodMs`. Reordering holds a packet back and sends it right after the next one.
+ */
+export type FaultType = 'loss' | 'duplicate' | 'reorder' | 'truncate' | 'corrupt';
+
+export const FAULT_TYPES: FaultType[] = ['loss', 'duplicate', 'reorder', 'truncate', 'corrupt'];
+
+export interface OutageConfig {
+    durationMs: number;
+    periodMs: number;
+}
+
+export interface FaultConfig {
+    // Probability between 0 and 1 of each fault hitting a packet
+    probabilities: Record<FaultType, number>;
+    outage: OutageConfig | null;
+}
+
+export interface FaultCounts {
+    // Packets handed to the injector
+    packets: number;
+    // Datagrams actually sent, including duplicates
+    sent: number;
+    lost: number;
+    duplicated: number;
+    reordered: number;
+    truncated: number;
+    corrupted: number;
+    // Packets dropped because they fell inside a burst outage
+    outageDropped: number;
+    outages: number;
+}
+
+export interface FaultStatus {
+    enabled: boolean;
+    inOutage: boolean;
+    config: FaultConfig;
+    injected: FaultCounts;
+}
+
+type Send = (packet: Buffer) => void;
+
+const noFaults = (): FaultConfig => ({
+    probabilities: { loss: 0, duplicate: 0, reorder: 0, truncate: 0, corrupt: 0 },
+    outage: null
+});
+
+const emptyCounts = (): FaultCounts => ({
+    packets: 0,
+    sent: 0,
+    lost: 0,
+    duplicated: 0,
+    reordered: 0,
+    truncated: 0,
+    corrupted: 0,
+    outageDropped: 0,
+    outages: 0
+});
+
+export interface FaultInjector {
+    configure(config: FaultConfig): void;
+    clear(): void;
+    resetCounts(): void;
+    // Drops a packet held back for reordering, e.g. when the socket it was bound for closes
+    reset(): void;
+    getStatus(): FaultStatus;
+    // Sends `packet` through `send` after applying the configured faults
+    inject(packet: Buffer, send: Send): void;
+}
+
+const isProbability = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+// Validates a partial update on top of the current config; returns an error message if invalid
+export function parseFaultConfig(input: unknown, current: FaultConfig): FaultConfig | string {
+    if (!input || typeof input !== 'object') return 'Fault config must be a JSON object';
+    const body = input as { probabilities?: unknown; outage?: unknown };
+
+    const probabilities = { ...current.probabilities };
+    if (body.probabilities !== undefined && (!body.probabilities || typeof body.probabilities !== 'object')) {
+        return 'probabilities must be an object of fault types';
+    }
+    for (const [type, value] of Object.entries(body.probabilities ?? {})) {
+        if (!FAULT_TYPES.includes(type as FaultType)) return `Unknown fault type "${type}", expected one of ${FAULT_TYPES.join(', ')}`;
+        if (!isProbability(value)) return `probabilities.${type} must be a number between 0 and 1`;
+        probabilities[type as FaultType] = value;
+    }
+
+    let outage = current.outage;
+    if (body.outage === null) {
+        outage = null;
+    } else if (body.outage !== undefined) {
+        const { durationMs, periodMs } = body.outage as Partial<Record<keyof OutageConfig, unknown>>;
+        if (typeof periodMs !== 'number' || periodMs <= 0) return 'outage.periodMs must be a positive number';
+        if (typeof durationMs !== 'number' || durationMs <= 0 || durationMs >= periodMs) {
+            return 'outage.durationMs must be a positive number below outage.periodMs';
+        }
+        outage = { durationMs, periodMs };
+    }
+
+    return { probabilities, outage };
+}
+
+function corrupt(packet: Buffer): Buffer {
+    const copy = Buffer.from(packet);
+    const index = Math.floor(Math.random() * copy.length);
+    copy[index] ^= 1 << Math.floor(Math.random() * 8);
+    return copy;
+}
+
+export function createFaultInjector(): FaultInjector {
+    let config: FaultConfig = noFaults();
+    let counts: FaultCounts = emptyCounts();
+    // Outage periods are counted from when the outage was configured
+    let outageEpoch = Date.now();
+    let lastOutagePeriod = -1;
+    // Packet held back for reordering, sent after the next one
+    let held: { packet: Buffer; copies: number; send: Send } | null = null;
+
+    const configure = (faultConfig: FaultConfig) => {
+        if (JSON.stringify(faultConfig.outage) !== JSON.stringify(config.outage)) {
+            outageEpoch = Date.now();
+            lastOutagePeriod = -1;
+        }
+        config = faultConfig;
+    };
+
+    const isInOutage = (now: number): boolean => {
+        if (!config.outage) return false;
+        const { durationMs, periodMs } = config.outage;
+        const elapsed = now - outageEpoch;
+        return elapsed % periodMs >= periodMs - durationMs;
+    };
+
+    const hits = (type: FaultType) => config.probabilities[type] > 0 && Math.random() < config.probabilities[type];
+
+    return {
+        configure,
+
+        clear() {
+            configure(noFaults());
+        },
+
+        resetCounts() {
+            counts = emptyCounts();
+        },
+
+        reset() {
+            held = null;
+        },
+
+        getStatus() {
+            const enabled = !!config.outage || FAULT_TYPES.some(type => config.probabilities[type] > 0);
+            return { enabled, inOutage: isInOutage(Date.now()), config, injected: { ...counts } };
+        },
+
+        inject(packet, send) {
+            counts.packets++;
+            const now = Date.now();
+
+            if (isInOutage(now)) {
+                const period = Math.floor((now - outageEpoch) / config.outage!.periodMs);
+                if (period !== lastOutagePeriod) {
+                    lastOutagePeriod = period;
+                    counts.outages++;
+                }
+                counts.outageDropped++;
+                return;
+            }
+
+            if (hits('loss')) {
+                counts.lost++;
+                return;
+            }
+
+            let payload = packet;
+            if (payload.length > 1 && hits('truncate')) {
+                payload = payload.subarray(0, 1 + Math.floor(Math.random() * (payload.length - 1)));
+                counts.truncated++;
+            }
+            if (hits('corrupt')) {
+                payload = corrupt(payload);
+                counts.corrupted++;
+            }
+
+            const copies = hits('duplicate') ? 2 : 1;
+            if (copies > 1) counts.duplicated++;
+            counts.sent += copies;
+
+            if (!held && hits('reorder')) {
+                held = { packet: payload, copies, send };
+                counts.reordered++;
+                return;
+            }
+
+            for (let i = 0; i < copies; i++) send(payload);
+
+            if (held) {
+                for (let i = 0; i < held.copies; i++) held.send(held.packet);
+                held = null;
+            }
+        }
+    };
+}
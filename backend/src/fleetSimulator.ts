@@ -0,0 +1,77 @@
+import { FlightTelemetry } from './types';
+
+export interface SimulatedAircraft {
+    vehicleId: string;
+    latitude: number;
+    longitude: number;
+    altitude: number;
+    heading: number;
+    groundSpeed: number;
+    verticalSpeed: number;
+    battery: number;
+    temperature: number;
+    lastUpdate: number;
+}
+
+export const MAX_FLEET_SIZE = 50;
+
+const KNOTS_TO_MS = 0.514444;
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Aircraft are spread around the same base position as the single-aircraft simulator
+const BASE_LATITUDE = 40.7128;
+const BASE_LONGITUDE = -74.0060;
+
+export function fleetVehicleId(index: number): string {
+    return `SIM-${String(index + 1).padStart(3, '0')}`;
+}
+
+export function createFleet(size: number): SimulatedAircraft[] {
+    const now = Date.now();
+    return Array.from({ length: size }, (_, index) => ({
+        vehicleId: fleetVehicleId(index),
+        latitude: BASE_LATITUDE + (Math.random() - 0.5) * 0.5,
+        longitude: BASE_LONGITUDE + (Math.random() - 0.5) * 0.5,
+        altitude: 25000 + Math.random() * 12000,
+        heading: Math.random() * 360,
+        groundSpeed: 380 + Math.random() * 140,
+        verticalSpeed: 0,
+        battery: 100 - Math.random() * 20,
+        temperature: 10 + Math.random() * 10,
+        lastUpdate: now
+    }));
+}
+
+// Moves an aircraft forward by the time elapsed since its last update and returns its new sample
+export function advanceAircraft(aircraft: SimulatedAircraft, now = Date.now()): FlightTelemetry {
+    const dt = Math.max(0, (now - aircraft.lastUpdate) / 1000);
+    aircraft.lastUpdate = now;
+
+    // Gentle random walk on heading, speed and climb rate
+    aircraft.heading = (aircraft.heading + (Math.random() - 0.5) * 2 * dt + 360) % 360;
+    aircraft.groundSpeed = Math.min(560, Math.max(250, aircraft.groundSpeed + (Math.random() - 0.5) * 10 * dt));
+    aircraft.verticalSpeed = Math.min(30, Math.max(-30, aircraft.verticalSpeed + (Math.random() - 0.5) * 4 * dt));
+    aircraft.altitude = Math.min(41000, Math.max(1000, aircraft.altitude + aircraft.verticalSpeed * 3.28084 * dt));
+    aircraft.battery = Math.max(0, aircraft.battery - 0.002 * dt);
+    aircraft.temperature = 15 - (aircraft.altitude / 1000) * 0.5 + (Math.random() - 0.5);
+
+    const headingRad = (aircraft.heading * Math.PI) / 180;
+    const distance = aircraft.groundSpeed * KNOTS_TO_MS * dt;
+    aircraft.latitude += (distance * Math.cos(headingRad)) / METERS_PER_DEGREE_LAT;
+    aircraft.longitude += (distance * Math.sin(headingRad)) /
+        (METERS_PER_DEGREE_LAT * Math.cos((aircraft.latitude * Math.PI) / 180));
+
+    return {
+        vehicleId: aircraft.vehicleId,
+        timestamp: new Date(now).toISOString(),
+        altitude: aircraft.altitude,
+        speedX: aircraft.groundSpeed * Math.sin(headingRad),
+        speedY: aircraft.groundSpeed * Math.cos(headingRad),
+        speedZ: aircraft.verticalSpeed / KNOTS_TO_MS,
+        heading: aircraft.heading,
+        latitude: aircraft.latitude,
+        longitude: aircraft.longitude,
+        temperature: aircraft.temperature,
+        battery_percentage: aircraft.battery
+    };
+}
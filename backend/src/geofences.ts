@@ -0,0 +1,290 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { TelemetryMessage } from './types';
+import { distanceNm } from './scenarioEngine';
+
+/*
+ * Geofence zones: polygons or circles, optionally limited to an altitude band, checked against every
+ * sample. Each vehicle on each source is tracked per zone and raises `enter` and `exit` events as it
+ * crosses the zone's boundary; a zone with a restriction also raises `breach` when a vehicle moves
+ * into a position the restriction forbids (inside a keep-out zone, outside a keep-in zone).
+ */
+export type GeofenceShape =
+    | { type: 'polygon'; points: { latitude: number; longitude: number }[] }
+    | { type: 'circle'; center: { latitude: number; longitude: number }; radiusNm: number };
+
+export type GeofenceRestriction = 'none' | 'keep-out' | 'keep-in';
+
+export interface GeofenceZone {
+    id: string;
+    name: string;
+    enabled: boolean;
+    shape: GeofenceShape;
+    // Altitude band in feet; a vehicle above or below it is outside the zone
+    floorFt?: number;
+    ceilingFt?: number;
+    restriction: GeofenceRestriction;
+    vehicleId?: string;
+    sourceConnection?: string;
+}
+
+export type GeofenceEventType = 'enter' | 'exit' | 'breach';
+
+export interface GeofenceEvent {
+    id: string;
+    type: GeofenceEventType;
+    zoneId: string;
+    zoneName: string;
+    vehicleId: string;
+    sourceConnection: string;
+    latitude: number;
+    longitude: number;
+    altitude: number;
+    // Sample timestamp, and when the backend raised the event
+    timestamp: string;
+    raisedAt: string;
+}
+
+export type GeofenceListener = (event: GeofenceEvent) => void;
+
+export interface Geofences {
+    getZones(): GeofenceZone[];
+    getZone(id: string): GeofenceZone | undefined;
+    // Changing a zone restarts tracking for it; deleting it also drops its event history
+    saveZone(zone: GeofenceZone): void;
+    deleteZone(id: string): boolean;
+    evaluate(message: TelemetryMessage): void;
+    // Most recent events for the zone, oldest first
+    getEvents(id: string, limit?: number): GeofenceEvent[];
+    // Vehicles currently inside the zone
+    getOccupants(id: string): { vehicleId: string; sourceConnection: string }[];
+}
+
+const RESTRICTIONS: GeofenceRestriction[] = ['none', 'keep-out', 'keep-in'];
+const MAX_POLYGON_POINTS = 1000;
+// Events kept per zone
+const MAX_ZONE_HISTORY = 200;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function parsePosition(input: unknown, name: string): { latitude: number; longitude: number } | string {
+    const { latitude, longitude } = (input ?? {}) as { latitude?: unknown; longitude?: unknown };
+    if (!isFiniteNumber(latitude) || !isFiniteNumber(longitude)) {
+        return `${name} must have numeric latitude and longitude`;
+    }
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return `${name} must be within latitude -90..90 and longitude -180..180`;
+    }
+    return { latitude, longitude };
+}
+
+function parseShape(input: unknown): GeofenceShape | string {
+    if (!input || typeof input !== 'object') return 'shape is required';
+    const body = input as { type?: unknown; center?: unknown; radiusNm?: unknown; points?: unknown };
+
+    if (body.type === 'circle') {
+        const center = parsePosition(body.center, 'shape.center');
+        if (typeof center === 'string') return center;
+        if (!isFiniteNumber(body.radiusNm) || body.radiusNm <= 0) return 'shape.radiusNm must be a positive number';
+        return { type: 'circle', center, radiusNm: body.radiusNm };
+    }
+
+    if (body.type === 'polygon') {
+        if (!Array.isArray(body.points) || body.points.length < 3 || body.points.length > MAX_POLYGON_POINTS) {
+            return `shape.points must list 3 to ${MAX_POLYGON_POINTS} positions`;
+        }
+        const points = [];
+        for (const [index, point] of body.points.entries()) {
+            const position = parsePosition(point, `shape.points[${index}]`);
+            if (typeof position === 'string') return position;
+            points.push(position);
+        }
+        return { type: 'polygon', points };
+    }
+
+    return 'shape.type must be "polygon" or "circle"';
+}
+
+// Validates user input into a zone; returns an error message for bad input
+export function parseGeofenceZone(input: unknown, id: string = randomUUID()): GeofenceZone | string {
+    if (!input || typeof input !== 'object') return 'Zone body must be a JSON object';
+    const body = input as Partial<Record<keyof GeofenceZone, unknown>>;
+    if (typeof body.name !== 'string' || !body.name.trim()) return 'name is required';
+
+    const shape = parseShape(body.shape);
+    if (typeof shape === 'string') return shape;
+
+    const { floorFt, ceilingFt } = body;
+    if (floorFt !== undefined && !isFiniteNumber(floorFt)) return 'floorFt must be a number';
+    if (ceilingFt !== undefined && !isFiniteNumber(ceilingFt)) return 'ceilingFt must be a number';
+    if (floorFt !== undefined && ceilingFt !== undefined && floorFt >= ceilingFt) return 'floorFt must be below ceilingFt';
+
+    const enabled = body.enabled ?? true;
+    if (typeof enabled !== 'boolean') return 'enabled must be true or false';
+
+    const restriction = (body.restriction ?? 'none') as GeofenceRestriction;
+    if (!RESTRICTIONS.includes(restriction)) return `restriction must be one of ${RESTRICTIONS.join(', ')}`;
+
+    return {
+        id,
+        name: body.name.trim(),
+        enabled,
+        shape,
+        ...(floorFt !== undefined && { floorFt }),
+        ...(ceilingFt !== undefined && { ceilingFt }),
+        restriction,
+        ...(typeof body.vehicleId === 'string' && { vehicleId: body.vehicleId }),
+        ...(typeof body.sourceConnection === 'string' && { sourceConnection: body.sourceConnection })
+    };
+}
+
+// Ray casting on latitude/longitude, which is accurate enough for zones that don't span the antimeridian
+function insidePolygon(latitude: number, longitude: number, points: { latitude: number; longitude: number }[]): boolean {
+    let inside = false;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if ((a.latitude > latitude) !== (b.latitude > latitude) &&
+            longitude < a.longitude + ((latitude - a.latitude) * (b.longitude - a.longitude)) / (b.latitude - a.latitude)) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+function insideZone(zone: GeofenceZone, message: TelemetryMessage): boolean {
+    if (zone.floorFt !== undefined && message.altitude < zone.floorFt) return false;
+    if (zone.ceilingFt !== undefined && message.altitude > zone.ceilingFt) return false;
+
+    const { shape } = zone;
+    return shape.type === 'circle'
+        ? distanceNm(shape.center.latitude, shape.center.longitude, message.latitude, message.longitude) <= shape.radiusNm
+        : insidePolygon(message.latitude, message.longitude, shape.points);
+}
+
+const isBreach = (zone: GeofenceZone, inside: boolean) =>
+    (zone.restriction === 'keep-out' && inside) || (zone.restriction === 'keep-in' && !inside);
+
+// Reads the zones file, skipping entries that don't parse as a zone; throws when it isn't a JSON array
+function loadGeofenceZones(file: string): GeofenceZone[] {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new Error(`Geofences file ${file} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(stored)) throw new Error(`Geofences file ${file} must contain a JSON array`);
+
+    const zones: GeofenceZone[] = [];
+    for (const [index, entry] of stored.entries()) {
+        const id = typeof entry?.id === 'string' ? entry.id : undefined;
+        const zone = parseGeofenceZone(entry, id);
+        if (typeof zone === 'string') {
+            console.warn(`Skipping geofence zone ${id ?? index} in ${file}: ${zone}`);
+            continue;
+        }
+        zones.push(zone);
+    }
+    return zones;
+}
+
+// Zones are loaded from `file` if it exists, and written back on every change
+export function createGeofences(file: string, listener: GeofenceListener = () => {}): Geofences {
+    const zonesFile = path.resolve(file);
+    const zones: Map<string, GeofenceZone> = new Map();
+    // Whether each vehicle was inside each zone at its last sample, keyed by zone id then "<source>|<vehicleId>"
+    const occupancy: Map<string, Map<string, boolean>> = new Map();
+    const history: Map<string, GeofenceEvent[]> = new Map();
+
+    if (fs.existsSync(zonesFile)) {
+        for (const zone of loadGeofenceZones(zonesFile)) zones.set(zone.id, zone);
+    }
+
+    const saveZones = () => {
+        fs.mkdirSync(path.dirname(zonesFile), { recursive: true });
+        fs.writeFileSync(zonesFile, JSON.stringify(Array.from(zones.values()), null, 2));
+    };
+
+    const raise = (type: GeofenceEventType, zone: GeofenceZone, message: TelemetryMessage) => {
+        const event: GeofenceEvent = {
+            id: randomUUID(),
+            type,
+            zoneId: zone.id,
+            zoneName: zone.name,
+            vehicleId: message.vehicleId,
+            sourceConnection: message.sourceConnection,
+            latitude: message.latitude,
+            longitude: message.longitude,
+            altitude: message.altitude,
+            timestamp: message.timestamp,
+            raisedAt: new Date().toISOString()
+        };
+
+        const events = history.get(zone.id) ?? [];
+        events.push(event);
+        if (events.length > MAX_ZONE_HISTORY) events.shift();
+        history.set(zone.id, events);
+        listener(event);
+    };
+
+    return {
+        getZones() {
+            return Array.from(zones.values());
+        },
+
+        getZone(id) {
+            return zones.get(id);
+        },
+
+        saveZone(zone) {
+            zones.set(zone.id, zone);
+            occupancy.delete(zone.id);
+            saveZones();
+        },
+
+        deleteZone(id) {
+            if (!zones.delete(id)) return false;
+
+            occupancy.delete(id);
+            history.delete(id);
+            saveZones();
+            return true;
+        },
+
+        evaluate(message) {
+            const key = `${message.sourceConnection}|${message.vehicleId}`;
+
+            for (const zone of zones.values()) {
+                if (!zone.enabled) continue;
+                if (zone.vehicleId && zone.vehicleId !== message.vehicleId) continue;
+                if (zone.sourceConnection && zone.sourceConnection !== message.sourceConnection) continue;
+
+                const vehicles = occupancy.get(zone.id) ?? new Map<string, boolean>();
+                occupancy.set(zone.id, vehicles);
+                const wasInside = vehicles.get(key);
+                const inside = insideZone(zone, message);
+                vehicles.set(key, inside);
+
+                // A vehicle's first sample only counts as an entry if it starts inside
+                if (inside !== (wasInside ?? false)) raise(inside ? 'enter' : 'exit', zone, message);
+                if (isBreach(zone, inside) && (wasInside === undefined || !isBreach(zone, wasInside))) {
+                    raise('breach', zone, message);
+                }
+            }
+        },
+
+        getEvents(id, limit = MAX_ZONE_HISTORY) {
+            return (history.get(id) ?? []).slice(-limit);
+        },
+
+        getOccupants(id) {
+            return Array.from(occupancy.get(id) ?? [])
+                .filter(([, inside]) => inside)
+                .map(([key]) => {
+                    const separator = key.indexOf('|');
+                    return { sourceConnection: key.slice(0, separator), vehicleId: key.slice(separator + 1) };
+                });
+        }
+    };
+}
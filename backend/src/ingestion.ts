@@ -0,0 +1,333 @@
+import * as dgram from 'dgram';
+import { FlightTelemetry, SourceConnection, SourceProtocol, TelemetryMessage } from './types';
+import { UDPListener, UDPListenerConfig, UDPListeners, createUDPListeners } from './udpListeners';
+import { TCPListenerConfig, TCPListeners, createTCPListeners } from './tcpListeners';
+import { ValidationIssue, rejectionKey } from './validation';
+import { DecodedPacket, decodeTelemetryPacket, isBinaryTelemetryPacket } from './binaryCodec';
+import { Quarantine, createQuarantine } from './quarantine';
+import { Recorder, RecorderOptions, createRecorder } from './recorder';
+import { StoreOptions, TelemetryStore, createTelemetryStore } from './telemetryStore';
+import { SequenceTracker, createSequenceTracker } from './sequenceTracker';
+import { ReorderBufferStats, createReorderBuffer } from './reorderBuffer';
+import { LatencyRecorder } from './latency';
+import { PipelineCounters } from './metrics';
+import { createDerivedChannels } from './derivedChannels';
+
+/*
+ * Ingestion: UDP and TCP listeners, packets handed in from the HTTP and WebSocket endpoints,
+ * per-source connection tracking, decoding and validation, quarantine,
+ * recording, the time-series store and sequence tracking. Valid samples become TelemetryMessages
+ * handed to `publish` (the transport), in sequence order when the reorder buffer is on, with their
+ * derived channels computed on the way out.
+ */
+export interface IngestionOptions {
+    listeners: UDPListenerConfig[];
+    tcpListeners: TCPListenerConfig[];
+    // Rejected packets kept for inspection, 0 disables the quarantine buffer
+    quarantineSize: number;
+    recordings: RecorderOptions;
+    telemetryStore: StoreOptions;
+    // Sequence numbers remembered per source for duplicate and reorder detection
+    sequenceWindow: number;
+    // Hold out-of-order packets this long to deliver them in sequence, 0 disables reordering
+    reorderBufferMs: number;
+}
+
+export interface VehicleSummary {
+    vehicleId: string;
+    sourceConnection: string;
+    messagesReceived: number;
+    lastSeen: string;
+    latitude: number;
+    longitude: number;
+    altitude: number;
+}
+
+// Where a packet came from; `connectionId` is the source's key in `connections`
+export interface PacketSource {
+    connectionId: string;
+    protocol: SourceProtocol;
+    address: string;
+    port: number;
+    // Listener or endpoint that received the packet, recorded with it
+    listenerId: string;
+    label?: string;
+}
+
+// Outcome of a batch of samples from the HTTP or WebSocket endpoint; rejected samples are listed by index
+export interface IngestReport {
+    accepted: number;
+    rejected: number;
+    errors: { index: number; issues: ValidationIssue[] }[];
+}
+
+// "listening"/"closed" for listeners, "active"/"inactive" for the sources sending to them
+export type ConnectionChange = 'listening' | 'active' | 'inactive' | 'closed';
+
+export type ConnectionChangeListener = (connection: SourceConnection, change: ConnectionChange) => void;
+
+export interface Ingestion {
+    readonly connections: Map<string, SourceConnection>;
+    readonly vehicles: Map<string, VehicleSummary>;
+    readonly listeners: UDPListeners;
+    readonly tcpListeners: TCPListeners;
+    readonly quarantine: Quarantine;
+    readonly recorder: Recorder;
+    readonly store: TelemetryStore;
+    readonly sequence: SequenceTracker;
+    // Opens the configured UDP and TCP listeners; one that fails to bind is logged and skipped.
+    // Resolves with the UDP listeners opened, in config order
+    start(): Promise<UDPListener[]>;
+    stop(): Promise<void>;
+    openListener(config: Partial<UDPListenerConfig> & { port: number }): Promise<UDPListener>;
+    closeListener(id: string): Promise<boolean>;
+    // Decodes, validates and publishes one packet (JSON or binary) from any source
+    ingest(packet: Buffer, source: PacketSource): DecodedPacket;
+    // Samples as parsed JSON objects, JSON strings or binary packets
+    ingestSamples(samples: unknown[], source: PacketSource): IngestReport;
+    // Marks a source whose connection closed (TCP, WebSocket) as inactive
+    endConnection(id: string): void;
+    // Marks sources silent for longer than `idleMs` as inactive
+    expireConnections(idleMs: number): void;
+    // Counts a message as delivered to clients against its source
+    countSent(sourceConnection: string): void;
+    getReorderStats(): ReorderBufferStats | null;
+}
+
+export function createIngestion(
+    options: IngestionOptions,
+    deps: {
+        counters: PipelineCounters;
+        latency: LatencyRecorder;
+        publish: (message: TelemetryMessage) => void;
+        onConnectionChange: ConnectionChangeListener;
+    }
+): Ingestion {
+    const { counters, latency, publish, onConnectionChange } = deps;
+    const connections: Map<string, SourceConnection> = new Map();
+    // Vehicles seen on any source, keyed by vehicleId
+    const vehicles: Map<string, VehicleSummary> = new Map();
+    const quarantine = createQuarantine(options.quarantineSize);
+    const recorder = createRecorder(options.recordings);
+    const store = createTelemetryStore(options.telemetryStore);
+    const sequence = createSequenceTracker(options.sequenceWindow);
+    const derivedChannels = createDerivedChannels();
+
+    const countDropped = (sourceConnection: string) => {
+        counters.count('dropped');
+        const connection = connections.get(sourceConnection);
+        if (connection) connection.messagesDropped++;
+    };
+
+    // Derived after reordering, so each vehicle's channels are computed from its samples in sequence
+    const publishDerived = (message: Omit<TelemetryMessage, 'derived'>) => {
+        publish({ ...message, derived: derivedChannels.derive(message) });
+    };
+
+    const reorderBuffer = options.reorderBufferMs > 0
+        ? createReorderBuffer<Omit<TelemetryMessage, 'derived'>>(
+            { windowMs: options.reorderBufferMs, maxPending: sequence.windowSize, onDrop: countDropped },
+            publishDerived
+        )
+        : null;
+
+    const ingest = (msg: Buffer, source: PacketSource): DecodedPacket => {
+        const receiveTime = Date.now();
+        const { connectionId } = source;
+
+        // Update connection tracking
+        const existingConnection = connections.get(connectionId);
+        const connection: SourceConnection = {
+            id: connectionId,
+            protocol: source.protocol,
+            address: source.address,
+            port: source.port,
+            status: 'active',
+            lastActivity: new Date().toISOString(),
+            messagesReceived: existingConnection ? existingConnection.messagesReceived + 1 : 1,
+            messagesRejected: existingConnection?.messagesRejected || 0,
+            messagesSent: existingConnection?.messagesSent || 0,
+            messagesDropped: existingConnection?.messagesDropped || 0,
+            rejectionReasons: existingConnection?.rejectionReasons || {},
+            label: source.label,
+            sequence: existingConnection?.sequence
+        };
+        connections.set(connectionId, connection);
+        if (existingConnection?.status !== 'active') onConnectionChange(connection, 'active');
+
+        recorder.record(msg, connectionId, source.listenerId, isBinaryTelemetryPacket(msg));
+
+        const result = decodeTelemetryPacket(msg);
+        if (!result.valid) {
+            counters.count('rejected');
+            connection.messagesRejected++;
+            for (const issue of result.issues) {
+                const key = rejectionKey(issue);
+                connection.rejectionReasons[key] = (connection.rejectionReasons[key] || 0) + 1;
+            }
+            quarantine.add(msg, connectionId, source.listenerId, result.issues, result.format);
+            return result;
+        }
+
+        const telemetryData: FlightTelemetry = result.data;
+        const vehicleId = telemetryData.vehicleId || connectionId;
+        counters.count('received');
+
+        vehicles.set(vehicleId, {
+            vehicleId,
+            sourceConnection: connectionId,
+            messagesReceived: (vehicles.get(vehicleId)?.messagesReceived || 0) + 1,
+            lastSeen: new Date().toISOString(),
+            latitude: telemetryData.latitude,
+            longitude: telemetryData.longitude,
+            altitude: telemetryData.altitude
+        });
+        store.store(telemetryData, connectionId, vehicleId);
+
+        // Sender clock to server receipt; only meaningful when the sender's clock is synchronised
+        latency.record('network', receiveTime - Date.parse(telemetryData.timestamp));
+
+        const message: Omit<TelemetryMessage, 'derived'> = {
+            ...telemetryData,
+            vehicleId,
+            receivedAt: receiveTime,
+            messageId: counters.total('received'),
+            sourceConnection: connectionId,
+            packetFormat: result.format,
+            ...(result.sequence !== undefined && { sequence: result.sequence })
+        };
+
+        // Kafka-ready: publish individual messages keyed by source, the transport delivers them to the broadcaster
+        if (result.sequence === undefined) {
+            publishDerived(message);
+            return result;
+        }
+
+        const sequenceEvent = sequence.track(connectionId, result.sequence);
+        connection.sequence = sequence.getStats(connectionId);
+        if (reorderBuffer) {
+            reorderBuffer.push(connectionId, result.sequence, sequenceEvent, message);
+        } else {
+            publishDerived(message);
+        }
+        return result;
+    };
+
+    const listeners = createUDPListeners(connections, (msg: Buffer, rinfo: dgram.RemoteInfo, listener: UDPListener) => {
+        ingest(msg, {
+            connectionId: `${rinfo.address}:${rinfo.port}`,
+            protocol: 'udp',
+            address: rinfo.address,
+            port: rinfo.port,
+            listenerId: listener.id,
+            label: listener.config.label
+        });
+    });
+
+    const endConnection = (id: string) => {
+        const connection = connections.get(id);
+        if (connection?.status === 'active') {
+            connection.status = 'inactive';
+            onConnectionChange(connection, 'inactive');
+        }
+    };
+
+    const tcpListeners = createTCPListeners(connections, {
+        onFrame: (frame, client, listener) => ingest(frame, {
+            connectionId: client.id,
+            protocol: 'tcp',
+            address: client.address,
+            port: client.port,
+            listenerId: listener.id,
+            label: listener.config.label
+        }),
+        onDisconnect: client => endConnection(client.id)
+    });
+
+    const openListener = async (config: Partial<UDPListenerConfig> & { port: number }) => {
+        const listener = await listeners.open(config);
+        onConnectionChange(connections.get(listener.id)!, 'listening');
+        return listener;
+    };
+
+    const closeListener = async (id: string) => {
+        const connection = connections.get(id);
+        const closed = await listeners.close(id);
+        if (closed && connection) onConnectionChange(connection, 'closed');
+        return closed;
+    };
+
+    return {
+        connections,
+        vehicles,
+        listeners,
+        tcpListeners,
+        quarantine,
+        recorder,
+        store,
+        sequence,
+        openListener,
+        closeListener,
+        ingest,
+        endConnection,
+
+        ingestSamples(samples, source) {
+            const report: IngestReport = { accepted: 0, rejected: 0, errors: [] };
+            samples.forEach((sample, index) => {
+                const packet = Buffer.isBuffer(sample)
+                    ? sample
+                    : Buffer.from(typeof sample === 'string' ? sample : String(JSON.stringify(sample)));
+                const result = ingest(packet, source);
+                if (result.valid) {
+                    report.accepted++;
+                } else {
+                    report.rejected++;
+                    report.errors.push({ index, issues: result.issues });
+                }
+            });
+            return report;
+        },
+
+        async start() {
+            store.open();
+            const opened = await Promise.all(options.listeners.map(config => openListener(config).catch(error => {
+                console.error(`Failed to open UDP listener ${config.label} on ${config.address}:${config.port}:`, error);
+                return null;
+            })));
+            await Promise.all(options.tcpListeners.map(config => tcpListeners.open(config).then(listener => {
+                onConnectionChange(connections.get(listener.id)!, 'listening');
+            }).catch(error => {
+                console.error(`Failed to open TCP listener ${config.label} on ${config.address}:${config.port}:`, error);
+            })));
+            return opened.filter((listener): listener is UDPListener => listener !== null);
+        },
+
+        async stop() {
+            reorderBuffer?.stop();
+            await Promise.all(listeners.list().map(listener => closeListener(listener.id)));
+            await tcpListeners.closeAll();
+            await recorder.stop();
+            await store.close();
+        },
+
+        expireConnections(idleMs) {
+            const cutoff = Date.now() - idleMs;
+            for (const connection of connections.values()) {
+                if (connection.status === 'active' && new Date(connection.lastActivity).getTime() < cutoff) {
+                    connection.status = 'inactive';
+                    onConnectionChange(connection, 'inactive');
+                }
+            }
+        },
+
+        countSent(sourceConnection) {
+            counters.count('sent');
+            const connection = connections.get(sourceConnection);
+            if (connection) connection.messagesSent++;
+        },
+
+        getReorderStats() {
+            return reorderBuffer ? reorderBuffer.getStats() : null;
+        }
+    };
+}
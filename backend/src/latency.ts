@@ -0,0 +1,157 @@
+/*
+ * Latency histograms for each leg a sample travels:
+ *   network  - sender timestamp to server receipt (includes sender clock skew)
+ *   pipeline - server receipt to Socket.IO emit (validation, reorder buffer, transport)
+ *   delivery - Socket.IO emit to chart render, corrected by the client's ping/pong clock offset
+ *   endToEnd - sender timestamp to chart render
+ * Samples land in fixed buckets so memory stays constant; percentiles are interpolated
+ * within the bucket that contains them.
+ */
+export type LatencyStage = 'network' | 'pipeline' | 'delivery' | 'endToEnd';
+
+export const LATENCY_STAGES: LatencyStage[] = ['network', 'pipeline', 'delivery', 'endToEnd'];
+
+// Stages measured in the browser and reported back over Socket.IO
+export const CLIENT_LATENCY_STAGES: LatencyStage[] = ['delivery', 'endToEnd'];
+
+export interface LatencySnapshot {
+    count: number;
+    // Samples below zero, i.e. the sender's clock runs ahead of ours
+    negative: number;
+    min: number;
+    max: number;
+    mean: number;
+    p50: number;
+    p95: number;
+    p99: number;
+}
+
+// Upper bucket bounds in milliseconds; anything above the last one goes to an overflow bucket
+const BUCKET_BOUNDS = [
+    0.5, 1, 1.5, 2, 3, 4, 5, 7.5, 10, 15, 20, 30, 40, 50, 75, 100, 150, 200, 300, 400, 500,
+    750, 1000, 1500, 2000, 3000, 5000, 10000, 30000, 60000
+];
+
+interface Histogram {
+    counts: number[];
+    count: number;
+    negative: number;
+    sum: number;
+    min: number;
+    max: number;
+}
+
+const createHistogram = (): Histogram => ({
+    counts: new Array(BUCKET_BOUNDS.length + 1).fill(0),
+    count: 0,
+    negative: 0,
+    sum: 0,
+    min: Infinity,
+    max: -Infinity
+});
+
+const createHistograms = (): Record<LatencyStage, Histogram> => ({
+    network: createHistogram(),
+    pipeline: createHistogram(),
+    delivery: createHistogram(),
+    endToEnd: createHistogram()
+});
+
+export interface LatencyRecorder {
+    record(stage: LatencyStage, ms: number): void;
+    getSnapshots(): Record<LatencyStage, LatencySnapshot>;
+    // Raw bucket counts in milliseconds, cumulative per upper bound, for exporting to Prometheus
+    getBuckets(stage: LatencyStage): { buckets: { le: number; count: number }[]; count: number; sum: number };
+    reset(): void;
+}
+
+function recordSample(histogram: Histogram, ms: number) {
+    if (!Number.isFinite(ms)) return;
+
+    if (ms < 0) {
+        histogram.negative++;
+        ms = 0;
+    }
+
+    let bucket = 0;
+    while (bucket < BUCKET_BOUNDS.length && ms > BUCKET_BOUNDS[bucket]) bucket++;
+
+    histogram.counts[bucket]++;
+    histogram.count++;
+    histogram.sum += ms;
+    histogram.min = Math.min(histogram.min, ms);
+    histogram.max = Math.max(histogram.max, ms);
+}
+
+function percentile(histogram: Histogram, quantile: number): number {
+    const rank = quantile * histogram.count;
+    let cumulative = 0;
+
+    for (let bucket = 0; bucket < histogram.counts.length; bucket++) {
+        const inBucket = histogram.counts[bucket];
+        if (inBucket === 0 || cumulative + inBucket < rank) {
+            cumulative += inBucket;
+            continue;
+        }
+
+        // Interpolate between the bucket's bounds, clamped to the values actually seen
+        const lower = Math.max(bucket === 0 ? 0 : BUCKET_BOUNDS[bucket - 1], histogram.min);
+        const upper = Math.min(bucket < BUCKET_BOUNDS.length ? BUCKET_BOUNDS[bucket] : histogram.max, histogram.max);
+        return lower + (upper - lower) * ((rank - cumulative) / inBucket);
+    }
+    return histogram.max;
+}
+
+const round = (ms: number) => Math.round(ms * 100) / 100;
+
+function snapshot(histogram: Histogram): LatencySnapshot {
+    if (histogram.count === 0) {
+        return { count: 0, negative: 0, min: 0, max: 0, mean: 0, p50: 0, p95: 0, p99: 0 };
+    }
+    return {
+        count: histogram.count,
+        negative: histogram.negative,
+        min: round(histogram.min),
+        max: round(histogram.max),
+        mean: round(histogram.sum / histogram.count),
+        p50: round(percentile(histogram, 0.5)),
+        p95: round(percentile(histogram, 0.95)),
+        p99: round(percentile(histogram, 0.99))
+    };
+}
+
+export function createLatencyRecorder(): LatencyRecorder {
+    let histograms = createHistograms();
+
+    return {
+        record(stage, ms) {
+            recordSample(histograms[stage], ms);
+        },
+
+        getSnapshots() {
+            return {
+                network: snapshot(histograms.network),
+                pipeline: snapshot(histograms.pipeline),
+                delivery: snapshot(histograms.delivery),
+                endToEnd: snapshot(histograms.endToEnd)
+            };
+        },
+
+        getBuckets(stage) {
+            const histogram = histograms[stage];
+            let cumulative = 0;
+            return {
+                buckets: BUCKET_BOUNDS.map((le, bucket) => {
+                    cumulative += histogram.counts[bucket];
+                    return { le, count: cumulative };
+                }),
+                count: histogram.count,
+                sum: histogram.sum
+            };
+        },
+
+        reset() {
+            histograms = createHistograms();
+        }
+    };
+}
@@ -0,0 +1,400 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { io, Socket } from 'socket.io-client';
+import { decode } from '@msgpack/msgpack';
+import { BATCH_FORMATS, BatchFormat, TelemetryBatch } from './telemetryBatcher';
+
+/*
+ * Headless load test: opens N Socket.IO clients against a running backend, optionally drives the
+ * built-in UDP simulator at a fixed rate, and reports per-client message counts, messageId gaps and
+ * delivery latency. The summary is printed and written as JSON so runs can be compared.
+ *
+ *   npm run loadtest -- --clients 50 --duration 60 --rate 100 --url http://localhost:8000
+ *
+ * Driving the simulator (--rate) needs an operator credential when authentication is on (--token).
+ */
+interface LoadTestOptions {
+    url: string;
+    clients: number;
+    durationSeconds: number;
+    // Simulator packets per second; 0 leaves the simulator as it is
+    rate: number;
+    // Delay between opening consecutive clients
+    rampUpMs: number;
+    token?: string;
+    // Telemetry encoding requested in the handshake; 'message' is per-message telemetryData
+    format: BatchFormat | 'message';
+    out: string;
+}
+
+interface LatencySummary {
+    count: number;
+    min: number;
+    mean: number;
+    p50: number;
+    p95: number;
+    p99: number;
+    max: number;
+}
+
+interface ClientResult {
+    index: number;
+    connected: boolean;
+    error?: string;
+    messages: number;
+    messagesPerSecond: number;
+    // messageIds missing between the first and last one this client saw
+    gaps: number;
+    duplicates: number;
+    outOfOrder: number;
+    // messageIds another client received during the shared window but this one did not
+    missedVsOthers: number;
+    clockOffsetMs: number;
+    delivery: LatencySummary;
+    endToEnd: LatencySummary;
+}
+
+interface ClientState {
+    socket: Socket;
+    connected: boolean;
+    error?: string;
+    // Server clock minus client clock, estimated from a latencyPing round trip
+    clockOffset: number;
+    ids: number[];
+    delivery: number[];
+    endToEnd: number[];
+}
+
+interface TelemetryPayload {
+    messageId: number;
+    timestamp: string;
+    emittedAt?: number;
+}
+
+const LOAD_TEST_MODE = 'load_test';
+const CLOCK_SYNC_PINGS = 5;
+const CLOCK_SYNC_TIMEOUT_MS = 5000;
+
+const USAGE = `Usage: npm run loadtest -- [options]
+  --url <url>          Backend URL (default http://localhost:8000)
+  --clients <n>        Socket.IO clients to open (default 20)
+  --duration <s>       Seconds to measure after all clients connected (default 30)
+  --rate <n>           Drive the simulator at n packets per second (default: leave it alone)
+  --ramp-up <ms>       Delay between opening clients (default 20)
+  --token <credential> API key or token, sent to REST and the socket handshake
+  --format <format>    message, json, typed or msgpack (default message)
+  --out <file>         JSON report path (default loadtest-<timestamp>.json)`;
+
+export function parseArgs(argv: string[]): LoadTestOptions {
+    const values: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            console.log(USAGE);
+            process.exit(0);
+        }
+        if (!arg.startsWith('--') || i + 1 >= argv.length) {
+            throw new Error(`Unexpected argument "${arg}"\n${USAGE}`);
+        }
+        values[arg.slice(2)] = argv[++i];
+    }
+
+    const number = (key: string, fallback: number, min: number) => {
+        const value = values[key] === undefined ? fallback : Number(values[key]);
+        if (!Number.isFinite(value) || value < min) throw new Error(`--${key} must be a number of at least ${min}`);
+        return value;
+    };
+
+    return {
+        url: (values.url || process.env.BACKEND_URL || 'http://localhost:8000').replace(/\/$/, ''),
+        clients: Math.floor(number('clients', 20, 1)),
+        durationSeconds: number('duration', 30, 1),
+        rate: number('rate', 0, 0),
+        rampUpMs: number('ramp-up', 20, 0),
+        token: values.token || process.env.LOADTEST_TOKEN,
+        format: parseFormat(values.format ?? 'message'),
+        out: values.out || `loadtest-${new Date().toISOString().replace(/[:.]/g, '-')}.json`
+    };
+}
+
+function parseFormat(value: string): LoadTestOptions['format'] {
+    if (value !== 'message' && !BATCH_FORMATS.includes(value as BatchFormat)) {
+        throw new Error(`--format must be one of message, ${BATCH_FORMATS.join(', ')}`);
+    }
+    return value as LoadTestOptions['format'];
+}
+
+// Socket.IO hands binary attachments to Node clients as Buffers, which may not be 8-byte aligned
+const numberColumn = (column: Buffer | number[]): ArrayLike<number> =>
+    Buffer.isBuffer(column) ? new Float64Array(Uint8Array.from(column).buffer) : column;
+
+function decodeBatch(payload: unknown): TelemetryBatch {
+    return (Buffer.isBuffer(payload) ? decode(payload) : payload) as TelemetryBatch;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function request(options: LoadTestOptions, method: string, route: string, body?: unknown) {
+    const response = await fetch(`${options.url}${route}`, {
+        method,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(options.token && { Authorization: `Bearer ${options.token}` })
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(`${method} ${route} failed with ${response.status}: ${payload.error ?? response.statusText}`);
+    }
+    return payload;
+}
+
+// Points the simulator at a temporary stress mode; returns a function that puts the previous mode back
+// and stops the simulator again if it was not already running
+async function driveSimulator(options: LoadTestOptions): Promise<() => Promise<void>> {
+    const { active, modes } = await request(options, 'GET', '/stress-modes');
+    const { isRunning: wasRunning } = await request(options, 'GET', '/simulator/status');
+    const previousMode: string = active.mode.id;
+    const mode = { id: LOAD_TEST_MODE, label: 'Load Test', interval: 1000 / options.rate, jitter: 0 };
+
+    if (modes.some((existing: { id: string }) => existing.id === LOAD_TEST_MODE)) {
+        await request(options, 'PUT', `/stress-modes/${LOAD_TEST_MODE}`, mode);
+    } else {
+        await request(options, 'POST', '/stress-modes', mode);
+    }
+    await request(options, 'POST', `/stress-mode/${LOAD_TEST_MODE}`);
+    await request(options, 'POST', '/simulator/start');
+
+    return async () => {
+        await request(options, 'POST', `/stress-mode/${previousMode === LOAD_TEST_MODE ? 'normal' : previousMode}`);
+        await request(options, 'DELETE', `/stress-modes/${LOAD_TEST_MODE}`);
+        if (!wasRunning) await request(options, 'POST', '/simulator/stop');
+    };
+}
+
+// Like the dashboard's clock sync, but keeps the ping with the shortest round trip as the least skewed
+async function estimateClockOffset(socket: Socket): Promise<number> {
+    let best = { rtt: Infinity, offset: 0 };
+    for (let i = 0; i < CLOCK_SYNC_PINGS; i++) {
+        const sentAt = Date.now();
+        const { serverTime } = await socket.timeout(CLOCK_SYNC_TIMEOUT_MS).emitWithAck('latencyPing', sentAt) as { serverTime: number };
+        const receivedAt = Date.now();
+        if (receivedAt - sentAt < best.rtt) {
+            best = { rtt: receivedAt - sentAt, offset: serverTime - (sentAt + receivedAt) / 2 };
+        }
+    }
+    return best.offset;
+}
+
+function openClient(options: LoadTestOptions): Promise<ClientState> {
+    const socket = io(options.url, {
+        transports: ['websocket'],
+        reconnection: false,
+        forceNew: true,
+        auth: {
+            ...(options.token && { token: options.token }),
+            ...(options.format !== 'message' && { telemetryFormat: options.format })
+        }
+    });
+    const state: ClientState = { socket, connected: false, clockOffset: 0, ids: [], delivery: [], endToEnd: [] };
+
+    socket.on('telemetryData', (message: TelemetryPayload) => {
+        const serverNow = Date.now() + state.clockOffset;
+        state.ids.push(message.messageId);
+        if (typeof message.emittedAt === 'number') state.delivery.push(serverNow - message.emittedAt);
+        state.endToEnd.push(serverNow - Date.parse(message.timestamp));
+    });
+
+    socket.on('telemetryBatch', (payload: unknown) => {
+        const serverNow = Date.now() + state.clockOffset;
+        const batch = decodeBatch(payload);
+        const columns = batch.columns as unknown as Record<string, Buffer | number[]>;
+        const messageIds = numberColumn(columns.messageId);
+        const timestamps = numberColumn(columns.timestamp);
+        for (let i = 0; i < batch.count; i++) {
+            state.ids.push(messageIds[i]);
+            state.delivery.push(serverNow - batch.emittedAt);
+            state.endToEnd.push(serverNow - timestamps[i]);
+        }
+    });
+
+    return new Promise(resolve => {
+        socket.on('connect_error', error => {
+            state.error = error.message;
+            resolve(state);
+        });
+        socket.on('connect', async () => {
+            // A client whose clock sync times out or whose socket drops meanwhile counts as failed to connect
+            try {
+                state.clockOffset = await estimateClockOffset(socket);
+                state.connected = true;
+            } catch (error) {
+                state.error = `clock sync failed: ${(error as Error).message}`;
+                socket.close();
+            }
+            resolve(state);
+        });
+    });
+}
+
+export function summarize(samples: number[]): LatencySummary {
+    if (samples.length === 0) return { count: 0, min: 0, mean: 0, p50: 0, p95: 0, p99: 0, max: 0 };
+
+    const sorted = samples.slice().sort((a, b) => a - b);
+    const at = (quantile: number) => sorted[Math.min(sorted.length - 1, Math.floor(quantile * sorted.length))];
+    const round = (ms: number) => Math.round(ms * 100) / 100;
+    return {
+        count: sorted.length,
+        min: round(sorted[0]),
+        mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+        p50: round(at(0.5)),
+        p95: round(at(0.95)),
+        p99: round(at(0.99)),
+        max: round(sorted[sorted.length - 1])
+    };
+}
+
+export function analyzeClient(state: ClientState, index: number, seenByAnyone: Set<number>, window: { first: number; last: number }, seconds: number): ClientResult {
+    const unique = new Set(state.ids);
+    let outOfOrder = 0;
+    for (let i = 1; i < state.ids.length; i++) {
+        if (state.ids[i] < state.ids[i - 1]) outOfOrder++;
+    }
+
+    let first = Infinity;
+    let last = -Infinity;
+    for (const id of unique) {
+        first = Math.min(first, id);
+        last = Math.max(last, id);
+    }
+    const gaps = unique.size > 0 ? last - first + 1 - unique.size : 0;
+
+    let missedVsOthers = 0;
+    for (const id of seenByAnyone) {
+        if (id >= window.first && id <= window.last && !unique.has(id)) missedVsOthers++;
+    }
+
+    return {
+        index,
+        connected: state.connected,
+        ...(state.error && { error: state.error }),
+        messages: state.ids.length,
+        messagesPerSecond: Math.round((state.ids.length / seconds) * 10) / 10,
+        gaps,
+        duplicates: state.ids.length - unique.size,
+        outOfOrder,
+        missedVsOthers,
+        clockOffsetMs: Math.round(state.clockOffset * 10) / 10,
+        delivery: summarize(state.delivery),
+        endToEnd: summarize(state.endToEnd)
+    };
+}
+
+function printReport(report: ReturnType<typeof buildReport>) {
+    const { totals, latency } = report;
+    console.log('\nLoad test summary');
+    console.log(`  Clients:      ${totals.connected}/${totals.clients} connected${totals.failed > 0 ? `, ${totals.failed} failed` : ''}`);
+    console.log(`  Duration:     ${report.durationSeconds}s${report.options.rate > 0 ? ` at ${report.options.rate} packets/s` : ''}`);
+    console.log(`  Format:       ${report.options.format}`);
+    console.log(`  Messages:     ${totals.messages} total, per client min ${totals.perClient.min} / mean ${totals.perClient.mean} / max ${totals.perClient.max}`);
+    console.log(`  Rate:         ${totals.messagesPerSecondPerClient} msg/s per client`);
+    console.log(`  Gaps:         ${totals.gaps} missing ids, ${totals.missedVsOthers} missed that other clients got`);
+    console.log(`  Duplicates:   ${totals.duplicates}, out of order: ${totals.outOfOrder}`);
+    for (const [stage, summary] of Object.entries(latency)) {
+        console.log(`  ${stage.padEnd(13)} p50 ${summary.p50}ms / p95 ${summary.p95}ms / p99 ${summary.p99}ms / max ${summary.max}ms`);
+    }
+    console.log(`\nReport written to ${path.resolve(report.options.out)}`);
+}
+
+function buildReport(options: LoadTestOptions, startedAt: Date, durationSeconds: number, clients: ClientResult[], states: ClientState[], server: unknown) {
+    const connected = clients.filter(client => client.connected);
+    const counts = connected.map(client => client.messages);
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+    return {
+        startedAt: startedAt.toISOString(),
+        durationSeconds,
+        options,
+        totals: {
+            clients: clients.length,
+            connected: connected.length,
+            failed: clients.length - connected.length,
+            messages: sum(counts),
+            perClient: {
+                min: counts.length > 0 ? Math.min(...counts) : 0,
+                mean: counts.length > 0 ? Math.round(sum(counts) / counts.length) : 0,
+                max: counts.length > 0 ? Math.max(...counts) : 0
+            },
+            messagesPerSecondPerClient: counts.length > 0 ? Math.round((sum(counts) / counts.length / durationSeconds) * 10) / 10 : 0,
+            gaps: sum(connected.map(client => client.gaps)),
+            missedVsOthers: sum(connected.map(client => client.missedVsOthers)),
+            duplicates: sum(connected.map(client => client.duplicates)),
+            outOfOrder: sum(connected.map(client => client.outOfOrder))
+        },
+        latency: {
+            delivery: summarize(states.flatMap(state => state.delivery)),
+            endToEnd: summarize(states.flatMap(state => state.endToEnd))
+        },
+        server,
+        clients
+    };
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const startedAt = new Date();
+    console.log(`Opening ${options.clients} clients against ${options.url}`);
+
+    const restoreSimulator = options.rate > 0 ? await driveSimulator(options) : null;
+
+    const pending: Promise<ClientState>[] = [];
+    let states: ClientState[] = [];
+    let durationSeconds = 0;
+    try {
+        for (let i = 0; i < options.clients; i++) {
+            pending.push(openClient(options));
+            if (options.rampUpMs > 0) await sleep(options.rampUpMs);
+        }
+        states = await Promise.all(pending);
+        const failed = states.filter(state => !state.connected);
+        if (failed.length > 0) console.warn(`${failed.length} clients failed to connect: ${failed[0].error}`);
+
+        // Only count what arrives once everyone is connected, so clients are compared over the same window
+        for (const state of states) {
+            state.ids = [];
+            state.delivery = [];
+            state.endToEnd = [];
+        }
+        const measureStart = Date.now();
+        await sleep(options.durationSeconds * 1000);
+        durationSeconds = (Date.now() - measureStart) / 1000;
+    } finally {
+        for (const state of states) state.socket.close();
+        if (restoreSimulator) await restoreSimulator();
+    }
+    const server = await request(options, 'GET', '/metrics').catch(error => ({ error: (error as Error).message }));
+
+    // ids every connected client could have received: from the latest first id to the earliest last id
+    const seenByAnyone = new Set(states.flatMap(state => state.ids));
+    const received = states.filter(state => state.ids.length > 0);
+    const window = {
+        first: received.length > 0 ? Math.max(...received.map(state => state.ids[0])) : 0,
+        last: received.length > 0 ? Math.min(...received.map(state => state.ids[state.ids.length - 1])) : -1
+    };
+
+    const clients = states.map((state, index) => analyzeClient(state, index, seenByAnyone, window, durationSeconds));
+    const report = buildReport(options, startedAt, Math.round(durationSeconds * 10) / 10, clients, states, server);
+
+    fs.mkdirSync(path.dirname(path.resolve(options.out)), { recursive: true });
+    fs.writeFileSync(options.out, JSON.stringify(report, null, 2));
+    printReport(report);
+}
+
+// Only runs as a script, so the report helpers can be imported on their own
+if (require.main === module) {
+    main().catch(error => {
+        console.error((error as Error).message);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,126 @@
+import { monitorEventLoopDelay } from 'perf_hooks';
+
+// Counts events in one-second slots so rates reflect the recent window rather than the whole uptime
+export interface RateWindow {
+    add(count?: number): void;
+    // Events per second over the window (or since creation, if younger than the window)
+    rate(): number;
+}
+
+export type PipelineCounter = 'received' | 'sent' | 'rejected' | 'dropped';
+
+// Messages through the pipeline since startup, plus their rate over the last minute
+export interface PipelineCounters {
+    count(counter: PipelineCounter): void;
+    total(counter: PipelineCounter): number;
+    rate(counter: PipelineCounter): number;
+}
+
+export interface EventLoopLag {
+    mean: number;
+    p50: number;
+    p99: number;
+    max: number;
+}
+
+export function createRateWindow(windowSeconds = 60): RateWindow {
+    const slots = new Array(windowSeconds).fill(0);
+    const createdAt = Math.floor(Date.now() / 1000);
+    let currentSecond = createdAt;
+
+    // Zero the slots for seconds that passed without events
+    const advance = () => {
+        const now = Math.floor(Date.now() / 1000);
+        const elapsed = Math.min(now - currentSecond, windowSeconds);
+        for (let i = 1; i <= elapsed; i++) {
+            slots[(currentSecond + i) % windowSeconds] = 0;
+        }
+        currentSecond = now;
+    };
+
+    return {
+        add(count = 1) {
+            advance();
+            slots[currentSecond % windowSeconds] += count;
+        },
+
+        rate(): number {
+            advance();
+            // The current second is still filling up, so it only counts for the part that has passed
+            const partial = (Date.now() % 1000) / 1000;
+            const span = Math.min(windowSeconds - 1, currentSecond - createdAt) + partial;
+            const total = slots.reduce((sum, count) => sum + count, 0);
+            return span > 0 ? total / span : 0;
+        }
+    };
+}
+
+export interface EventLoopMonitor {
+    // Captures the event loop delay since the previous sample (in ms) and starts a new period
+    sample(): EventLoopLag;
+    getLag(): EventLoopLag;
+    start(): void;
+    stop(): void;
+}
+
+export function createPipelineCounters(): PipelineCounters {
+    const totals: Record<PipelineCounter, number> = { received: 0, sent: 0, rejected: 0, dropped: 0 };
+    const rates: Record<PipelineCounter, RateWindow> = {
+        received: createRateWindow(60),
+        sent: createRateWindow(60),
+        rejected: createRateWindow(60),
+        dropped: createRateWindow(60)
+    };
+
+    return {
+        count(counter) {
+            totals[counter]++;
+            rates[counter].add();
+        },
+
+        total(counter) {
+            return totals[counter];
+        },
+
+        rate(counter) {
+            return rates[counter].rate();
+        }
+    };
+}
+
+const EVENT_LOOP_RESOLUTION_MS = 20;
+
+// The monitor's timer fires every `resolution` ms, so only the delay beyond that is lag
+const nsToMs = (ns: number) => Math.max(0, Math.round((ns / 1e6 - EVENT_LOOP_RESOLUTION_MS) * 100) / 100);
+
+export function createEventLoopMonitor(): EventLoopMonitor {
+    const eventLoopDelay = monitorEventLoopDelay({ resolution: EVENT_LOOP_RESOLUTION_MS });
+    let lastEventLoopLag: EventLoopLag = { mean: 0, p50: 0, p99: 0, max: 0 };
+
+    return {
+        sample() {
+            if (eventLoopDelay.count > 0) {
+                lastEventLoopLag = {
+                    mean: nsToMs(eventLoopDelay.mean),
+                    p50: nsToMs(eventLoopDelay.percentile(50)),
+                    p99: nsToMs(eventLoopDelay.percentile(99)),
+                    max: nsToMs(eventLoopDelay.max)
+                };
+            }
+            eventLoopDelay.reset();
+            return lastEventLoopLag;
+        },
+
+        getLag() {
+            return lastEventLoopLag;
+        },
+
+        start() {
+            eventLoopDelay.enable();
+        },
+
+        stop() {
+            eventLoopDelay.disable();
+        }
+    };
+}
@@ -0,0 +1,205 @@
+import * as net from 'net';
+import { MqttClient, connect } from 'mqtt';
+import { createBroker } from 'aedes';
+import { SourceConnection, TelemetryMessage } from './types';
+import { ConnectionChangeListener, Ingestion } from './ingestion';
+import { NUMERIC_FIELDS } from './telemetryStore';
+
+/*
+ * MQTT bridge: subscribes to topic filters on a broker and feeds every message into ingestion like a
+ * UDP packet (each topic is a source, `mqtt:<topic>`), and republishes each broadcast message as JSON
+ * on `<prefix>/<vehicleId>` and field by field on `<prefix>/<vehicleId>/<field>`, derived channels
+ * included. The broker connection itself is listed in `connections` as `mqtt:<url>`, "listening"
+ * while connected. With url "embedded" an in-process broker is started for local testing.
+ */
+export interface MqttBridgeOptions {
+    // e.g. mqtt://broker.local:1883, "embedded" for an in-process broker, empty to disable the bridge
+    url: string;
+    // Port the embedded broker listens on
+    embeddedPort: number;
+    clientId: string;
+    username?: string;
+    password?: string;
+    // Topic filters to ingest, e.g. "groundstation/+/telemetry"
+    subscribe: string[];
+    // Republished topics start with this, empty disables republishing
+    publishPrefix: string;
+    qos: 0 | 1;
+}
+
+export interface MqttBridgeStatus {
+    url: string;
+    connected: boolean;
+    subscriptions: string[];
+    publishPrefix: string | null;
+    received: number;
+    published: number;
+    // Messages not republished because the broker was unreachable
+    skipped: number;
+}
+
+export interface MqttBridge {
+    start(): Promise<void>;
+    stop(): Promise<void>;
+    republish(message: TelemetryMessage): void;
+    getStatus(): MqttBridgeStatus;
+}
+
+// Topic levels can't contain "/" or the "+" and "#" wildcards
+const topicLevel = (value: string) => value.replace(/[/+#]/g, '_');
+
+// Parses a comma separated list of topic filters, e.g. "groundstation/+/telemetry,rigs/#"
+export function parseTopicList(spec: string): string[] {
+    return spec.split(',').map(topic => topic.trim()).filter(topic => topic.length > 0);
+}
+
+export function createMqttBridge(
+    options: MqttBridgeOptions,
+    deps: { ingestion: Ingestion; onConnectionChange: ConnectionChangeListener }
+): MqttBridge {
+    const { ingestion, onConnectionChange } = deps;
+    const embedded = options.url === 'embedded';
+    const brokerUrl = embedded ? `mqtt://127.0.0.1:${options.embeddedPort}` : options.url;
+    const connectionId = `mqtt:${brokerUrl}`;
+    const prefix = options.publishPrefix.replace(/\/+$/, '');
+
+    let client: MqttClient | null = null;
+    let closeBroker: (() => Promise<void>) | null = null;
+    let received = 0;
+    let published = 0;
+    let skipped = 0;
+
+    const { hostname, port } = new URL(brokerUrl);
+    const brokerConnection: SourceConnection = {
+        id: connectionId,
+        protocol: 'mqtt',
+        address: hostname,
+        port: Number(port) || 1883,
+        status: 'inactive',
+        lastActivity: new Date().toISOString(),
+        messagesReceived: 0,
+        messagesRejected: 0,
+        messagesSent: 0,
+        messagesDropped: 0,
+        rejectionReasons: {},
+        label: embedded ? 'embedded broker' : 'mqtt'
+    };
+
+    const setBrokerStatus = (status: 'listening' | 'inactive') => {
+        if (brokerConnection.status === status) return;
+        brokerConnection.status = status;
+        brokerConnection.lastActivity = new Date().toISOString();
+        onConnectionChange(brokerConnection, status);
+    };
+
+    const startEmbeddedBroker = async () => {
+        const broker = createBroker();
+        const server = net.createServer(broker.handle);
+        await new Promise<void>((resolve, reject) => {
+            // The broker runs timers of its own, so it has to be closed even when the port can't be bound
+            const fail = (error: Error) => broker.close(() => reject(error));
+            server.once('error', fail);
+            server.listen(options.embeddedPort, () => {
+                server.off('error', fail);
+                resolve();
+            });
+        });
+        closeBroker = () => new Promise(resolve => broker.close(() => server.close(() => resolve())));
+        console.log(`Embedded MQTT broker listening on port ${options.embeddedPort}`);
+    };
+
+    const handleMessage = (topic: string, payload: Buffer) => {
+        // Our own republished telemetry would otherwise loop back in through a broad filter such as "#"
+        if (prefix && (topic === prefix || topic.startsWith(`${prefix}/`))) return;
+
+        received++;
+        brokerConnection.messagesReceived++;
+        brokerConnection.lastActivity = new Date().toISOString();
+        ingestion.ingest(payload, {
+            connectionId: `mqtt:${topic}`,
+            protocol: 'mqtt',
+            address: brokerConnection.address,
+            port: brokerConnection.port,
+            listenerId: connectionId,
+            label: topic
+        });
+    };
+
+    return {
+        async start() {
+            if (embedded) await startEmbeddedBroker();
+
+            ingestion.connections.set(connectionId, brokerConnection);
+            client = connect(brokerUrl, {
+                clientId: options.clientId,
+                username: options.username,
+                password: options.password,
+                reconnectPeriod: 5000,
+                // Telemetry is only worth republishing live, so nothing piles up while the broker is away
+                queueQoSZero: false
+            });
+
+            client.on('connect', () => {
+                console.log(`MQTT bridge connected to ${brokerUrl}`);
+                if (options.subscribe.length === 0) {
+                    setBrokerStatus('listening');
+                    return;
+                }
+                client!.subscribe(options.subscribe, { qos: options.qos }, error => {
+                    if (error) {
+                        console.error(`MQTT subscribe to ${options.subscribe.join(', ')} failed:`, error.message);
+                        return;
+                    }
+                    setBrokerStatus('listening');
+                });
+            });
+            client.on('message', handleMessage);
+            client.on('close', () => setBrokerStatus('inactive'));
+            client.on('error', error => console.error(`MQTT bridge error (${brokerUrl}):`, error.message));
+        },
+
+        async stop() {
+            if (client) {
+                await client.endAsync();
+                client = null;
+            }
+            if (closeBroker) {
+                await closeBroker();
+                closeBroker = null;
+            }
+            if (ingestion.connections.delete(connectionId)) onConnectionChange(brokerConnection, 'closed');
+        },
+
+        republish(message) {
+            if (!prefix || !client) return;
+            if (!client.connected) {
+                skipped++;
+                return;
+            }
+
+            const base = `${prefix}/${topicLevel(message.vehicleId)}`;
+            const qos = options.qos;
+            client.publish(base, JSON.stringify(message), { qos });
+            for (const field of NUMERIC_FIELDS) {
+                client.publish(`${base}/${field}`, String(message[field]), { qos });
+            }
+            for (const [channel, value] of Object.entries(message.derived)) {
+                if (value !== null) client.publish(`${base}/${channel}`, String(value), { qos });
+            }
+            published++;
+            brokerConnection.messagesSent++;
+        },
+
+        getStatus() {
+            return {
+                url: brokerUrl,
+                connected: client?.connected ?? false,
+                subscriptions: options.subscribe,
+                publishPrefix: prefix || null,
+                received,
+                published,
+                skipped
+            };
+        }
+    };
+}
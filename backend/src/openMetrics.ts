@@ -0,0 +1,88 @@
+/*
+ * Minimal OpenMetrics text exposition (https://openmetrics.io). Each metric family is written as
+ * "# TYPE"/"# HELP" lines followed by its samples; counters get the mandatory _total suffix and
+ * histograms their cumulative _bucket series plus _count and _sum. The output ends with "# EOF".
+ */
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export type Labels = Record<string, string>;
+
+export interface Sample {
+    labels?: Labels;
+    value: number;
+}
+
+export interface HistogramSeries {
+    labels?: Labels;
+    // Upper bounds with the number of observations at or below each (cumulative)
+    buckets: { le: number; count: number }[];
+    count: number;
+    sum: number;
+}
+
+export interface Exposition {
+    counter(name: string, help: string, samples: Sample[]): Exposition;
+    gauge(name: string, help: string, samples: Sample[]): Exposition;
+    histogram(name: string, help: string, series: HistogramSeries[]): Exposition;
+    render(): string;
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels = {}): string {
+    const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return 'NaN';
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+}
+
+export function createExposition(): Exposition {
+    const lines: string[] = [];
+
+    const family = (name: string, type: string, help: string) => {
+        lines.push(`# TYPE ${name} ${type}`);
+        lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    };
+
+    const exposition: Exposition = {
+        counter(name, help, samples) {
+            family(name, 'counter', help);
+            for (const sample of samples) {
+                lines.push(`${name}_total${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+            }
+            return exposition;
+        },
+
+        gauge(name, help, samples) {
+            family(name, 'gauge', help);
+            for (const sample of samples) {
+                lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+            }
+            return exposition;
+        },
+
+        histogram(name, help, series) {
+            family(name, 'histogram', help);
+            for (const { labels, buckets, count, sum } of series) {
+                for (const bucket of buckets) {
+                    lines.push(`${name}_bucket${formatLabels({ ...labels, le: formatValue(bucket.le) })} ${bucket.count}`);
+                }
+                lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+                lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+                lines.push(`${name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+            }
+            return exposition;
+        },
+
+        render() {
+            return `${lines.join('\n')}\n# EOF\n`;
+        }
+    };
+
+    return exposition;
+}
@@ -0,0 +1,71 @@
+import { ValidationIssue } from './validation';
+import { PacketFormat } from './binaryCodec';
+
+export interface QuarantinedPacket {
+    id: number;
+    receivedAt: string;
+    sourceConnection: string;
+    listenerId: string;
+    issues: ValidationIssue[];
+    format: PacketFormat;
+    // Binary packets are stored hex encoded
+    payload: string;
+    payloadBytes: number;
+}
+
+// Payloads longer than this are truncated before being kept in memory
+const MAX_PAYLOAD_CHARS = 2048;
+
+export interface Quarantine {
+    add(payload: Buffer, sourceConnection: string, listenerId: string, issues: ValidationIssue[], format: PacketFormat): void;
+    getPackets(filter?: { source?: string; limit?: number }): QuarantinedPacket[];
+    // Returns how many packets were removed
+    clear(): number;
+    getStatus(): { enabled: boolean; capacity: number; size: number };
+}
+
+// Keeps the last `size` rejected packets for inspection; 0 disables the buffer
+export function createQuarantine(size: number): Quarantine {
+    const capacity = Math.max(0, Math.floor(size));
+    let nextId = 1;
+    let packets: QuarantinedPacket[] = [];
+
+    return {
+        add(payload, sourceConnection, listenerId, issues, format) {
+            if (capacity === 0) return;
+
+            const text = payload.toString(format === 'binary' ? 'hex' : 'utf8');
+            packets.push({
+                id: nextId++,
+                receivedAt: new Date().toISOString(),
+                sourceConnection,
+                listenerId,
+                issues,
+                format,
+                payload: text.length > MAX_PAYLOAD_CHARS ? `${text.slice(0, MAX_PAYLOAD_CHARS)}…` : text,
+                payloadBytes: payload.length
+            });
+
+            if (packets.length > capacity) {
+                packets.shift();
+            }
+        },
+
+        getPackets(filter = {}) {
+            const matching = filter.source
+                ? packets.filter(packet => packet.sourceConnection === filter.source)
+                : packets;
+            return filter.limit ? matching.slice(-filter.limit) : matching.slice();
+        },
+
+        clear() {
+            const cleared = packets.length;
+            packets = [];
+            return cleared;
+        },
+
+        getStatus() {
+            return { enabled: capacity > 0, capacity, size: packets.length };
+        }
+    };
+}
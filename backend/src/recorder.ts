@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/*
+ * Writes raw UDP packets to NDJSON files, one JSON object per packet:
+ *   {"receivedAt":1717171717171,"sourceConnection":"127.0.0.1:50123","listenerId":"0.0.0.0:8080",
+ *    "encoding":"utf8","payload":"{...}"}
+ * Binary packets are stored base64 encoded. Files are rotated once they exceed maxFileBytes
+ * and named <recordingId>.<part>.ndjson.
+ */
+export interface RecordedPacket {
+    receivedAt: number;
+    sourceConnection: string;
+    listenerId: string;
+    encoding: 'utf8' | 'base64';
+    payload: string;
+}
+
+export interface RecordingStatus {
+    isRecording: boolean;
+    recordingId?: string;
+    startedAt?: string;
+    packetsWritten: number;
+    bytesWritten: number;
+    currentPart: number;
+    // Why the last recording stopped on its own (e.g. the disk filled up); cleared by the next start
+    error?: string;
+}
+
+export interface RecordingInfo {
+    recordingId: string;
+    parts: string[];
+    sizeBytes: number;
+    modifiedAt: string;
+}
+
+interface ActiveRecording {
+    recordingId: string;
+    startedAt: string;
+    part: number;
+    partBytes: number;
+    packetsWritten: number;
+    bytesWritten: number;
+    stream: fs.WriteStream;
+}
+
+export interface RecorderOptions {
+    dir: string;
+    maxFileBytes: number;
+}
+
+export interface Recorder {
+    readonly dir: string;
+    start(name?: string): RecordingStatus;
+    record(msg: Buffer, sourceConnection: string, listenerId: string, binary: boolean): void;
+    // Resolves with the final status, or null when nothing was being recorded
+    stop(): Promise<RecordingStatus | null>;
+    getStatus(): RecordingStatus;
+    list(): RecordingInfo[];
+    // Reads every part of a recording back in order; malformed lines are skipped
+    load(recordingId: string): RecordedPacket[];
+}
+
+const PART_PATTERN = /^(.+)\.(\d+)\.ndjson$/;
+
+export function createRecorder(options: RecorderOptions): Recorder {
+    const recordingsDir = path.resolve(options.dir);
+    let active: ActiveRecording | null = null;
+    let failure: RecordingStatus | null = null;
+
+    const partFile = (recordingId: string, part: number) => path.join(recordingsDir, `${recordingId}.${part}.ndjson`);
+
+    // A write error ends the recording instead of surfacing as an unhandled stream error
+    const openPart = (recordingId: string, part: number) => {
+        const stream = fs.createWriteStream(partFile(recordingId, part), { flags: 'a' });
+        stream.on('error', error => {
+            if (active?.recordingId !== recordingId) return;
+
+            console.error(`Recording ${recordingId} stopped: ${error.message}`);
+            failure = { ...getStatus(), isRecording: false, error: error.message };
+            active.stream.destroy();
+            active = null;
+        });
+        return stream;
+    };
+
+    const getStatus = (): RecordingStatus => {
+        if (!active) {
+            return failure ?? { isRecording: false, packetsWritten: 0, bytesWritten: 0, currentPart: 0 };
+        }
+        return {
+            isRecording: true,
+            recordingId: active.recordingId,
+            startedAt: active.startedAt,
+            packetsWritten: active.packetsWritten,
+            bytesWritten: active.bytesWritten,
+            currentPart: active.part
+        };
+    };
+
+    const list = (): RecordingInfo[] => {
+        if (!fs.existsSync(recordingsDir)) return [];
+
+        const recordings: Map<string, RecordingInfo> = new Map();
+        for (const file of fs.readdirSync(recordingsDir)) {
+            const match = PART_PATTERN.exec(file);
+            if (!match) continue;
+
+            const stats = fs.statSync(path.join(recordingsDir, file));
+            const info = recordings.get(match[1]) || {
+                recordingId: match[1],
+                parts: [],
+                sizeBytes: 0,
+                modifiedAt: stats.mtime.toISOString()
+            };
+            info.parts.push(file);
+            info.sizeBytes += stats.size;
+            if (stats.mtime.toISOString() > info.modifiedAt) info.modifiedAt = stats.mtime.toISOString();
+            recordings.set(match[1], info);
+        }
+
+        for (const info of recordings.values()) {
+            info.parts.sort((a, b) => Number(PART_PATTERN.exec(a)![2]) - Number(PART_PATTERN.exec(b)![2]));
+        }
+        return Array.from(recordings.values()).sort((a, b) => a.modifiedAt.localeCompare(b.modifiedAt));
+    };
+
+    return {
+        dir: recordingsDir,
+        getStatus,
+        list,
+
+        start(name) {
+            if (active) {
+                throw new Error(`Recording ${active.recordingId} is already in progress`);
+            }
+
+            const safeName = (name || 'recording').replace(/[^A-Za-z0-9_-]/g, '_');
+            const recordingId = `${safeName}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+            fs.mkdirSync(recordingsDir, { recursive: true });
+            failure = null;
+            active = {
+                recordingId,
+                startedAt: new Date().toISOString(),
+                part: 0,
+                partBytes: 0,
+                packetsWritten: 0,
+                bytesWritten: 0,
+                stream: openPart(recordingId, 0)
+            };
+
+            console.log(`Recording started: ${recordingId}`);
+            return getStatus();
+        },
+
+        record(msg, sourceConnection, listenerId, binary) {
+            if (!active) return;
+
+            const entry: RecordedPacket = {
+                receivedAt: Date.now(),
+                sourceConnection,
+                listenerId,
+                encoding: binary ? 'base64' : 'utf8',
+                payload: msg.toString(binary ? 'base64' : 'utf8')
+            };
+            const line = `${JSON.stringify(entry)}\n`;
+            const lineBytes = Buffer.byteLength(line);
+
+            if (active.partBytes > 0 && active.partBytes + lineBytes > options.maxFileBytes) {
+                active.stream.end();
+                active.part++;
+                active.partBytes = 0;
+                active.stream = openPart(active.recordingId, active.part);
+            }
+
+            active.stream.write(line);
+            active.partBytes += lineBytes;
+            active.bytesWritten += lineBytes;
+            active.packetsWritten++;
+        },
+
+        stop() {
+            if (!active) return Promise.resolve(null);
+
+            const finished = active;
+            active = null;
+
+            return new Promise(resolve => {
+                finished.stream.end(() => {
+                    console.log(`Recording stopped: ${finished.recordingId} (${finished.packetsWritten} packets)`);
+                    resolve({
+                        isRecording: false,
+                        recordingId: finished.recordingId,
+                        startedAt: finished.startedAt,
+                        packetsWritten: finished.packetsWritten,
+                        bytesWritten: finished.bytesWritten,
+                        currentPart: finished.part
+                    });
+                });
+            });
+        },
+
+        load(recordingId) {
+            const info = list().find(recording => recording.recordingId === recordingId);
+            if (!info) {
+                throw new Error(`Recording ${recordingId} not found`);
+            }
+
+            const packets: RecordedPacket[] = [];
+            for (const part of info.parts) {
+                const lines = fs.readFileSync(path.join(recordingsDir, part), 'utf8').split('\n');
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+                    try {
+                        packets.push(JSON.parse(line));
+                    } catch {
+                        console.warn(`Skipping malformed line in ${part}`);
+                    }
+                }
+            }
+            return packets;
+        }
+    };
+}
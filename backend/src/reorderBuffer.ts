@@ -0,0 +1,114 @@
+import { SequenceEvent } from './sequenceTracker';
+
+export interface ReorderBufferOptions {
+    // How long to wait for a missing sequence number before skipping past it
+    windowMs: number;
+    // Packets held per source before the oldest gap is skipped regardless of the window
+    maxPending: number;
+    // Called for each packet discarded as a duplicate or as arriving too late
+    onDrop?: (source: string) => void;
+}
+
+export interface ReorderBufferStats {
+    windowMs: number;
+    pending: number;
+    released: number;
+    // Gaps given up on after the window expired
+    gapsSkipped: number;
+    // Late packets and duplicates that arrived after their slot was already released
+    dropped: number;
+}
+
+export interface ReorderBuffer<T> {
+    push(source: string, sequence: number, event: SequenceEvent, item: T): void;
+    getStats(): ReorderBufferStats;
+    // Cancels pending gap timers; held packets are discarded
+    stop(): void;
+}
+
+interface SourceBuffer<T> {
+    next: number;
+    pending: Map<number, T>;
+    timer?: NodeJS.Timeout;
+}
+
+// Holds packets that arrive ahead of a gap and releases each source's packets in sequence order
+export function createReorderBuffer<T>(options: ReorderBufferOptions, deliver: (item: T) => void): ReorderBuffer<T> {
+    const sources: Map<string, SourceBuffer<T>> = new Map();
+    let released = 0;
+    let gapsSkipped = 0;
+    let dropped = 0;
+
+    const drain = (buffer: SourceBuffer<T>) => {
+        while (buffer.pending.has(buffer.next)) {
+            deliver(buffer.pending.get(buffer.next)!);
+            buffer.pending.delete(buffer.next);
+            buffer.next++;
+            released++;
+        }
+    };
+
+    const skipGap = (buffer: SourceBuffer<T>) => {
+        if (buffer.pending.size === 0) return;
+        buffer.next = Math.min(...buffer.pending.keys());
+        gapsSkipped++;
+        drain(buffer);
+    };
+
+    const flush = (buffer: SourceBuffer<T>) => {
+        while (buffer.pending.size > 0) skipGap(buffer);
+        if (buffer.timer) clearTimeout(buffer.timer);
+        buffer.timer = undefined;
+    };
+
+    const armTimer = (buffer: SourceBuffer<T>) => {
+        if (buffer.timer || buffer.pending.size === 0) return;
+        buffer.timer = setTimeout(() => {
+            buffer.timer = undefined;
+            skipGap(buffer);
+            armTimer(buffer);
+        }, options.windowMs);
+    };
+
+    return {
+        push(source: string, sequence: number, event: SequenceEvent, item: T) {
+            let buffer = sources.get(source);
+            if (!buffer) {
+                buffer = { next: sequence, pending: new Map() };
+                sources.set(source, buffer);
+            } else if (event === 'reset') {
+                flush(buffer);
+                buffer.next = sequence;
+            }
+
+            if (event === 'duplicate' || sequence < buffer.next || buffer.pending.has(sequence)) {
+                dropped++;
+                options.onDrop?.(source);
+                return;
+            }
+
+            buffer.pending.set(sequence, item);
+            drain(buffer);
+            while (buffer.pending.size > options.maxPending) skipGap(buffer);
+            if (buffer.pending.size === 0 && buffer.timer) {
+                clearTimeout(buffer.timer);
+                buffer.timer = undefined;
+            }
+            armTimer(buffer);
+        },
+
+        getStats(): ReorderBufferStats {
+            let pending = 0;
+            for (const buffer of sources.values()) pending += buffer.pending.size;
+            return { windowMs: options.windowMs, pending, released, gapsSkipped, dropped };
+        },
+
+        stop() {
+            for (const buffer of sources.values()) {
+                if (buffer.timer) clearTimeout(buffer.timer);
+                buffer.timer = undefined;
+                buffer.pending.clear();
+            }
+        }
+    };
+}
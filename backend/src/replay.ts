@@ -0,0 +1,248 @@
+import * as dgram from 'dgram';
+import { RecordedPacket, Recorder } from './recorder';
+
+// Playback rate multiplier, or 'max' to send as fast as possible
+export type ReplaySpeed = number | 'max';
+
+export interface ReplayStatus {
+    isRunning: boolean;
+    isPaused: boolean;
+    recordingId?: string;
+    speed: ReplaySpeed;
+    // Milliseconds from the start of the recording
+    position: number;
+    duration: number;
+    packetsSent: number;
+    totalPackets: number;
+}
+
+interface ReplayState {
+    recordingId: string;
+    packets: RecordedPacket[];
+    // One socket per original source so replayed sources stay distinct connections
+    sockets: Map<string, dgram.Socket>;
+    targetPort: number;
+    targetHost: string;
+    speed: ReplaySpeed;
+    index: number;
+    packetsSent: number;
+    isPaused: boolean;
+    // Wall-clock anchor: position `anchorPosition` was reached at `anchorTime`
+    anchorTime: number;
+    anchorPosition: number;
+    timer?: NodeJS.Timeout;
+    // Sends not yet completed by the sockets, and what to do once they have after the replay stopped
+    pendingSends: number;
+    onDrained?: () => void;
+}
+
+// Packets sent per event loop turn in 'max' mode
+const MAX_SPEED_BATCH = 200;
+
+export interface ReplayStartOptions {
+    recordingId: string;
+    speed?: ReplaySpeed;
+    from?: number;
+    targetPort: number;
+    targetHost?: string;
+}
+
+export interface Replayer {
+    start(options: ReplayStartOptions): ReplayStatus;
+    seek(position: number): void;
+    setSpeed(speed: ReplaySpeed): void;
+    pause(): void;
+    resume(): void;
+    // Resolves once packets already sent have gone out and the sockets are closed
+    stop(): Promise<void>;
+    getStatus(): ReplayStatus;
+}
+
+const offsetOf = (state: ReplayState, index: number) =>
+    state.packets[index].receivedAt - state.packets[0].receivedAt;
+
+export function isValidReplaySpeed(speed: unknown): speed is ReplaySpeed {
+    return speed === 'max' || (typeof speed === 'number' && Number.isFinite(speed) && speed > 0 && speed <= 1000);
+}
+
+function currentPosition(state: ReplayState): number {
+    if (state.isPaused || state.speed === 'max') {
+        return state.index < state.packets.length ? offsetOf(state, state.index) : offsetOf(state, state.packets.length - 1);
+    }
+    return state.anchorPosition + (Date.now() - state.anchorTime) * state.speed;
+}
+
+function sendPacket(state: ReplayState, packet: RecordedPacket) {
+    let socket = state.sockets.get(packet.sourceConnection);
+    if (!socket) {
+        socket = dgram.createSocket('udp4');
+        state.sockets.set(packet.sourceConnection, socket);
+    }
+
+    state.pendingSends++;
+    socket.send(Buffer.from(packet.payload, packet.encoding), state.targetPort, state.targetHost, (err) => {
+        if (err) {
+            console.error('Error sending replayed UDP message:', err);
+        }
+        state.pendingSends--;
+        if (state.pendingSends === 0) state.onDrained?.();
+    });
+    state.packetsSent++;
+}
+
+function reanchor(state: ReplayState, position: number) {
+    state.anchorTime = Date.now();
+    state.anchorPosition = position;
+}
+
+// Sends recordings from `recorder` back through UDP; `onFinished` runs when one reaches its end
+export function createReplayer(recorder: Recorder, onFinished?: () => void): Replayer {
+    let replay: ReplayState | null = null;
+
+    const scheduleNext = (state: ReplayState) => {
+        if (replay !== state || state.isPaused) return;
+
+        if (state.index >= state.packets.length) {
+            console.log(`Replay of ${state.recordingId} finished (${state.packetsSent} packets)`);
+            stop();
+            onFinished?.();
+            return;
+        }
+
+        if (state.speed === 'max') {
+            const end = Math.min(state.index + MAX_SPEED_BATCH, state.packets.length);
+            for (; state.index < end; state.index++) {
+                sendPacket(state, state.packets[state.index]);
+            }
+            state.timer = setTimeout(() => scheduleNext(state), 0);
+            return;
+        }
+
+        const position = currentPosition(state);
+        while (state.index < state.packets.length && offsetOf(state, state.index) <= position) {
+            sendPacket(state, state.packets[state.index]);
+            state.index++;
+        }
+
+        if (state.index < state.packets.length) {
+            const delay = (offsetOf(state, state.index) - position) / state.speed;
+            state.timer = setTimeout(() => scheduleNext(state), Math.max(0, delay));
+        } else {
+            scheduleNext(state);
+        }
+    };
+
+    const seek = (position: number) => {
+        if (!replay) return;
+        const state = replay;
+
+        if (state.timer) clearTimeout(state.timer);
+
+        // First packet at or after the requested position
+        let low = 0;
+        let high = state.packets.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (offsetOf(state, mid) < position) low = mid + 1;
+            else high = mid;
+        }
+
+        state.index = low;
+        reanchor(state, Math.max(0, position));
+        scheduleNext(state);
+    };
+
+    const stop = (): Promise<void> => {
+        if (!replay) return Promise.resolve();
+        const state = replay;
+        if (state.timer) clearTimeout(state.timer);
+        replay = null;
+
+        // Sends already queued on the sockets are let through before they close
+        return new Promise(resolve => {
+            state.onDrained = () => {
+                state.onDrained = undefined;
+                Promise.all(Array.from(state.sockets.values(), socket =>
+                    new Promise<void>(closed => socket.close(() => closed()))
+                )).then(() => resolve());
+            };
+            if (state.pendingSends === 0) state.onDrained();
+        });
+    };
+
+    const getStatus = (): ReplayStatus => {
+        if (!replay) {
+            return { isRunning: false, isPaused: false, speed: 1, position: 0, duration: 0, packetsSent: 0, totalPackets: 0 };
+        }
+
+        const duration = offsetOf(replay, replay.packets.length - 1);
+        return {
+            isRunning: true,
+            isPaused: replay.isPaused,
+            recordingId: replay.recordingId,
+            speed: replay.speed,
+            position: Math.min(Math.round(currentPosition(replay)), duration),
+            duration,
+            packetsSent: replay.packetsSent,
+            totalPackets: replay.packets.length
+        };
+    };
+
+    return {
+        seek,
+        stop,
+        getStatus,
+
+        start(options) {
+            if (replay) {
+                stop();
+            }
+
+            const packets = recorder.load(options.recordingId);
+            if (packets.length === 0) {
+                throw new Error(`Recording ${options.recordingId} has no packets`);
+            }
+
+            replay = {
+                recordingId: options.recordingId,
+                packets,
+                sockets: new Map(),
+                targetPort: options.targetPort,
+                targetHost: options.targetHost || '127.0.0.1',
+                speed: options.speed ?? 1,
+                index: 0,
+                packetsSent: 0,
+                isPaused: false,
+                anchorTime: Date.now(),
+                anchorPosition: 0,
+                pendingSends: 0
+            };
+
+            console.log(`Replaying ${options.recordingId}: ${packets.length} packets at ${replay.speed === 'max' ? 'max speed' : `${replay.speed}x`}`);
+            seek(options.from || 0);
+            return getStatus();
+        },
+
+        setSpeed(speed) {
+            if (!replay) return;
+            const position = currentPosition(replay);
+            if (replay.timer) clearTimeout(replay.timer);
+            replay.speed = speed;
+            reanchor(replay, position);
+            scheduleNext(replay);
+        },
+
+        pause() {
+            if (!replay || replay.isPaused) return;
+            if (replay.timer) clearTimeout(replay.timer);
+            replay.isPaused = true;
+        },
+
+        resume() {
+            if (!replay || !replay.isPaused) return;
+            replay.isPaused = false;
+            reanchor(replay, offsetOf(replay, Math.min(replay.index, replay.packets.length - 1)));
+            scheduleNext(replay);
+        }
+    };
+}
@@ -0,0 +1,89 @@
+import { TelemetryMessage } from './types';
+
+/*
+ * The most recent broadcast messages, so a client that reconnects with the last messageId it saw
+ * can be sent what it missed. Messages are kept in broadcast order in a fixed-size ring; once one is
+ * evicted, a client resuming from before it is told which messageIds can no longer be recovered.
+ */
+export interface ResumeResult {
+    messages: TelemetryMessage[];
+    // messageIds that aged out of the buffer after `since`, null when nothing was lost. The range may
+    // include ids that were never broadcast (rejected or dropped packets)
+    lost: { from: number; to: number } | null;
+    // `since` is ahead of anything this server has sent, so its messageIds restarted (e.g. a server restart)
+    restarted: boolean;
+}
+
+export interface ResumeBuffer {
+    add(message: TelemetryMessage): void;
+    // Messages after `since`, optionally only for some vehicles
+    since(since: number, vehicleIds?: Set<string>): ResumeResult;
+    getStats(): { capacity: number; size: number; oldestMessageId: number | null; newestMessageId: number | null };
+}
+
+export function createResumeBuffer(capacity: number): ResumeBuffer {
+    const ring: (TelemetryMessage | undefined)[] = new Array(Math.max(0, capacity));
+    let next = 0;
+    let size = 0;
+    let newestMessageId = 0;
+    // Highest messageId evicted so far, overall and per vehicle
+    let evictedThrough = 0;
+    const evictedByVehicle: Map<string, number> = new Map();
+
+    const evict = (message: TelemetryMessage) => {
+        evictedThrough = Math.max(evictedThrough, message.messageId);
+        evictedByVehicle.set(message.vehicleId, Math.max(evictedByVehicle.get(message.vehicleId) ?? 0, message.messageId));
+    };
+
+    // Oldest first
+    const entries = function* () {
+        for (let i = 0; i < size; i++) {
+            yield ring[(next - size + i + capacity) % capacity]!;
+        }
+    };
+
+    return {
+        add(message) {
+            newestMessageId = Math.max(newestMessageId, message.messageId);
+            if (capacity === 0) {
+                evict(message);
+                return;
+            }
+
+            const evicted = ring[next];
+            if (size === capacity && evicted) evict(evicted);
+            ring[next] = message;
+            next = (next + 1) % capacity;
+            size = Math.min(size + 1, capacity);
+        },
+
+        since(since, vehicleIds) {
+            const restarted = since > newestMessageId;
+            const from = restarted ? 0 : since;
+            const messages: TelemetryMessage[] = [];
+            for (const message of entries()) {
+                if (message.messageId > from && (!vehicleIds || vehicleIds.has(message.vehicleId))) {
+                    messages.push(message);
+                }
+            }
+
+            const lostThrough = vehicleIds
+                ? Math.max(0, ...Array.from(vehicleIds, id => evictedByVehicle.get(id) ?? 0))
+                : evictedThrough;
+            return {
+                messages,
+                lost: lostThrough > from ? { from: from + 1, to: lostThrough } : null,
+                restarted
+            };
+        },
+
+        getStats() {
+            return {
+                capacity,
+                size,
+                oldestMessageId: size > 0 ? ring[(next - size + capacity) % capacity]!.messageId : null,
+                newestMessageId: size > 0 ? ring[(next - 1 + capacity) % capacity]!.messageId : null
+            };
+        }
+    };
+}
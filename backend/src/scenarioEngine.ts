@@ -0,0 +1,461 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FlightTelemetry } from './types';
+
+/*
+ * Scripted flights. A scenario is a route (waypoints, first = departure, last = arrival) flown
+ * through an ordered list of phases, each with its own airspeed and climb/descent profile, in a
+ * given wind and turbulence. Every update integrates position from heading, airspeed and wind
+ * and altitude from vertical speed, so consecutive samples are physically consistent.
+ */
+export type FlightPhase = 'takeoff' | 'climb' | 'cruise' | 'descent' | 'landing';
+export type TurbulenceLevel = 'none' | 'light' | 'moderate' | 'severe';
+
+export interface Waypoint {
+    name: string;
+    latitude: number;
+    longitude: number;
+    // Field elevation in feet, used for the departure and arrival airports
+    elevation?: number;
+}
+
+export interface PhaseProfile {
+    phase: FlightPhase;
+    // True airspeed in knots
+    speed: number;
+    // Altitude to climb or descend to, in feet; reaching it ends takeoff, climb and descent
+    altitude?: number;
+    // Climb or descent rate in feet per minute
+    verticalRate?: number;
+    // Ends the phase after this many seconds
+    duration?: number;
+    // Ends the phase once the aircraft passes this waypoint (index into waypoints)
+    untilWaypoint?: number;
+}
+
+export interface Scenario {
+    id: string;
+    name: string;
+    description?: string;
+    waypoints: Waypoint[];
+    phases: PhaseProfile[];
+    // Direction the wind blows from (degrees) and its speed (knots)
+    wind: { direction: number; speed: number };
+    turbulence: TurbulenceLevel;
+    // Temperature at sea level in °C; decreases with the standard lapse rate
+    surfaceTemperature: number;
+    // Start over from the departure once the last phase ends
+    loop: boolean;
+}
+
+export interface ScenarioFlight {
+    scenario: Scenario;
+    vehicleId: string;
+    phaseIndex: number;
+    phaseElapsed: number;
+    waypointIndex: number;
+    latitude: number;
+    longitude: number;
+    altitude: number;
+    heading: number;
+    airspeed: number;
+    // Feet per minute, excluding turbulence
+    verticalSpeed: number;
+    onGround: boolean;
+    completed: boolean;
+    battery: number;
+    gustSpeed: number;
+    gustVertical: number;
+    lastUpdate: number;
+}
+
+export interface ScenarioFlightStatus {
+    vehicleId: string;
+    phase: FlightPhase | 'complete';
+    nextWaypoint?: string;
+    distanceToGoNm: number;
+    altitude: number;
+    airspeed: number;
+}
+
+const PHASES: FlightPhase[] = ['takeoff', 'climb', 'cruise', 'descent', 'landing'];
+const TURBULENCE_LEVELS: TurbulenceLevel[] = ['none', 'light', 'moderate', 'severe'];
+// Gust scale per turbulence level
+const TURBULENCE_INTENSITY: Record<TurbulenceLevel, number> = { none: 0, light: 1, moderate: 2.5, severe: 5 };
+
+const KNOTS_TO_MS = 0.514444;
+const FPM_TO_KNOTS = 0.00987473;
+const METERS_PER_DEGREE_LAT = 111320;
+const EARTH_RADIUS_NM = 3440.065;
+// Largest integration step; longer gaps between updates are split into steps of this size
+const MAX_STEP_SECONDS = 0.5;
+// Standard rate turn
+const TURN_RATE = 3;
+const AIRBORNE_ACCELERATION = 2;
+const GROUND_ACCELERATION = 5;
+// Feet per minute gained or lost per second while changing vertical speed
+const VERTICAL_ACCELERATION = 600;
+// Turn radius in nm per knot of speed at the standard rate, used to lead turns onto the next leg
+const TURN_RADIUS_PER_KNOT = 1 / (3600 * ((TURN_RATE * Math.PI) / 180));
+const MIN_WAYPOINT_RADIUS_NM = 0.25;
+// Extra distance allowed for slowing down when planning the top of descent
+const DESCENT_MARGIN = 1.15;
+const LAPSE_RATE_PER_FOOT = 0.00198;
+// Fraction of the takeoff speed at which the aircraft rotates and leaves the ground
+const ROTATE_FRACTION = 0.85;
+const DEFAULT_VERTICAL_RATE = 1500;
+const TOUCHDOWN_SINK_RATE = 150;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const normalizeHeading = (degrees: number) => ((degrees % 360) + 360) % 360;
+// Signed shortest turn from one heading to another, in (-180, 180]
+const headingDelta = (from: number, to: number) => {
+    const delta = normalizeHeading(to - from);
+    return delta > 180 ? delta - 360 : delta;
+};
+const approach = (value: number, target: number, maxStep: number) =>
+    value < target ? Math.min(target, value + maxStep) : Math.max(target, value - maxStep);
+
+export function distanceNm(fromLat: number, fromLon: number, toLat: number, toLon: number): number {
+    const dLat = toRadians(toLat - fromLat);
+    const dLon = toRadians(toLon - fromLon);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function bearing(fromLat: number, fromLon: number, toLat: number, toLon: number): number {
+    const dLon = toRadians(toLon - fromLon);
+    const y = Math.sin(dLon) * Math.cos(toRadians(toLat));
+    const x = Math.cos(toRadians(fromLat)) * Math.sin(toRadians(toLat)) -
+        Math.sin(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.cos(dLon);
+    return normalizeHeading(toDegrees(Math.atan2(y, x)));
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+type Fields<T> = Partial<Record<keyof T, unknown>>;
+
+// Validates a scenario definition; returns an error message for bad input
+export function parseScenario(input: unknown, fallbackId: string): Scenario | string {
+    if (!input || typeof input !== 'object') return 'Scenario must be a JSON object';
+    const body = input as Fields<Scenario>;
+
+    const id = typeof body.id === 'string' && body.id.trim() ? body.id.trim() : fallbackId;
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) return 'id must only contain letters, digits, "_" and "-"';
+
+    if (!Array.isArray(body.waypoints) || body.waypoints.length < 2) return 'waypoints needs a departure and an arrival';
+    const waypoints: Waypoint[] = [];
+    for (const [index, entry] of body.waypoints.entries()) {
+        const waypoint: Fields<Waypoint> = entry ?? {};
+        if (!isFiniteNumber(waypoint.latitude) || Math.abs(waypoint.latitude) > 90 ||
+            !isFiniteNumber(waypoint.longitude) || Math.abs(waypoint.longitude) > 180) {
+            return `waypoints[${index}] needs a valid latitude and longitude`;
+        }
+        waypoints.push({
+            name: typeof waypoint.name === 'string' ? waypoint.name : `WP${index}`,
+            latitude: waypoint.latitude,
+            longitude: waypoint.longitude,
+            ...(isFiniteNumber(waypoint.elevation) && { elevation: waypoint.elevation })
+        });
+    }
+
+    if (!Array.isArray(body.phases) || body.phases.length === 0) return 'phases must be a non-empty array';
+    const phases: PhaseProfile[] = [];
+    for (const [index, entry] of body.phases.entries()) {
+        const phase: Fields<PhaseProfile> = entry ?? {};
+        if (!PHASES.includes(phase.phase as FlightPhase)) return `phases[${index}].phase must be one of ${PHASES.join(', ')}`;
+        if (!isFiniteNumber(phase.speed) || phase.speed <= 0 || phase.speed > 1000) return `phases[${index}].speed must be 1-1000 knots`;
+        if (phase.altitude !== undefined && (!isFiniteNumber(phase.altitude) || phase.altitude < -1000 || phase.altitude > 55000)) {
+            return `phases[${index}].altitude must be between -1000 and 55000 feet`;
+        }
+        if (phase.verticalRate !== undefined && (!isFiniteNumber(phase.verticalRate) || phase.verticalRate <= 0)) {
+            return `phases[${index}].verticalRate must be a positive number`;
+        }
+        if (phase.duration !== undefined && (!isFiniteNumber(phase.duration) || phase.duration <= 0)) {
+            return `phases[${index}].duration must be a positive number of seconds`;
+        }
+        if (phase.untilWaypoint !== undefined &&
+            (!Number.isInteger(phase.untilWaypoint) || (phase.untilWaypoint as number) < 0 || (phase.untilWaypoint as number) >= waypoints.length)) {
+            return `phases[${index}].untilWaypoint must be a waypoint index`;
+        }
+        phases.push({
+            phase: phase.phase as FlightPhase,
+            speed: phase.speed,
+            ...(phase.altitude !== undefined && { altitude: phase.altitude }),
+            ...(phase.verticalRate !== undefined && { verticalRate: phase.verticalRate }),
+            ...(phase.duration !== undefined && { duration: phase.duration }),
+            ...(phase.untilWaypoint !== undefined && { untilWaypoint: phase.untilWaypoint as number })
+        });
+    }
+
+    const turbulence = (body.turbulence ?? 'none') as TurbulenceLevel;
+    if (!TURBULENCE_LEVELS.includes(turbulence)) return `turbulence must be one of ${TURBULENCE_LEVELS.join(', ')}`;
+
+    const wind = (body.wind ?? { direction: 0, speed: 0 }) as Fields<Scenario['wind']>;
+    if (!isFiniteNumber(wind.direction) || !isFiniteNumber(wind.speed) || wind.speed < 0) {
+        return 'wind needs a direction in degrees and a non-negative speed in knots';
+    }
+
+    const loop = body.loop ?? true;
+    if (typeof loop !== 'boolean') return 'loop must be true or false';
+
+    return {
+        id,
+        name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : id,
+        ...(typeof body.description === 'string' && { description: body.description }),
+        waypoints,
+        phases,
+        wind: { direction: normalizeHeading(wind.direction), speed: wind.speed },
+        turbulence,
+        surfaceTemperature: isFiniteNumber(body.surfaceTemperature) ? body.surfaceTemperature : 15,
+        loop
+    };
+}
+
+// Reads every *.json file in the directory; invalid scenarios are skipped with a warning
+export function loadScenarios(dir: string): Scenario[] {
+    const resolved = path.resolve(dir);
+    if (!fs.existsSync(resolved)) {
+        console.warn(`Scenario directory ${resolved} not found`);
+        return [];
+    }
+
+    const scenarios: Scenario[] = [];
+    for (const file of fs.readdirSync(resolved).filter(name => name.endsWith('.json')).sort()) {
+        try {
+            const parsed = parseScenario(JSON.parse(fs.readFileSync(path.join(resolved, file), 'utf8')), path.basename(file, '.json'));
+            if (typeof parsed === 'string') {
+                console.warn(`Skipping scenario ${file}: ${parsed}`);
+            } else {
+                scenarios.push(parsed);
+            }
+        } catch (error) {
+            console.warn(`Skipping scenario ${file}: ${(error as Error).message}`);
+        }
+    }
+    return scenarios;
+}
+
+function resetFlight(flight: ScenarioFlight) {
+    const { waypoints, phases } = flight.scenario;
+    const departure = waypoints[0];
+    const startsOnGround = phases[0].phase === 'takeoff';
+
+    flight.phaseIndex = 0;
+    flight.phaseElapsed = 0;
+    flight.waypointIndex = 1;
+    flight.latitude = departure.latitude;
+    flight.longitude = departure.longitude;
+    // Flights that start airborne begin at their first phase's altitude
+    flight.altitude = startsOnGround ? departure.elevation ?? 0 : phases[0].altitude ?? 10000;
+    flight.heading = bearing(departure.latitude, departure.longitude, waypoints[1].latitude, waypoints[1].longitude);
+    flight.airspeed = startsOnGround ? 0 : phases[0].speed;
+    flight.verticalSpeed = 0;
+    flight.onGround = startsOnGround;
+    flight.completed = false;
+    flight.battery = 100;
+    flight.gustSpeed = 0;
+    flight.gustVertical = 0;
+}
+
+// Starts a flight at the departure; headStartSeconds flies it forward so fleets don't overlap
+export function createScenarioFlight(scenario: Scenario, vehicleId: string, headStartSeconds = 0, now = Date.now()): ScenarioFlight {
+    const flight = { scenario, vehicleId, lastUpdate: now } as ScenarioFlight;
+    resetFlight(flight);
+    for (let elapsed = 0; elapsed < headStartSeconds; elapsed += MAX_STEP_SECONDS) {
+        step(flight, MAX_STEP_SECONDS);
+    }
+    return flight;
+}
+
+// Route distance left: to the next waypoint, then along the remaining legs
+function distanceToGo(flight: ScenarioFlight): number {
+    const { waypoints } = flight.scenario;
+    if (flight.waypointIndex >= waypoints.length) return 0;
+
+    let total = distanceNm(flight.latitude, flight.longitude, waypoints[flight.waypointIndex].latitude, waypoints[flight.waypointIndex].longitude);
+    for (let index = flight.waypointIndex; index < waypoints.length - 1; index++) {
+        total += distanceNm(waypoints[index].latitude, waypoints[index].longitude, waypoints[index + 1].latitude, waypoints[index + 1].longitude);
+    }
+    return total;
+}
+
+const waypointRadius = (flight: ScenarioFlight) => Math.max(MIN_WAYPOINT_RADIUS_NM, flight.airspeed * TURN_RADIUS_PER_KNOT);
+
+// Distance the remaining descent and landing phases need from the current altitude, with the wind
+function descentDistance(flight: ScenarioFlight): number {
+    const { phases, waypoints, wind } = flight.scenario;
+    const arrival = waypoints[waypoints.length - 1];
+    const track = bearing(flight.latitude, flight.longitude, arrival.latitude, arrival.longitude);
+    const tailwind = wind.speed * Math.cos(toRadians(wind.direction + 180 - track));
+    let altitude = flight.altitude;
+    let distance = 0;
+
+    for (const phase of phases.slice(flight.phaseIndex + 1)) {
+        const target = phase.altitude ?? (phase.phase === 'landing' ? arrival.elevation ?? 0 : altitude);
+        if (target >= altitude) continue;
+        const minutes = (altitude - target) / (phase.verticalRate ?? DEFAULT_VERTICAL_RATE);
+        distance += (Math.max(0, phase.speed + tailwind) * minutes) / 60;
+        altitude = target;
+    }
+    return distance * DESCENT_MARGIN;
+}
+
+function isPhaseComplete(flight: ScenarioFlight, phase: PhaseProfile): boolean {
+    if (phase.duration !== undefined && flight.phaseElapsed >= phase.duration) return true;
+    if (phase.untilWaypoint !== undefined && flight.waypointIndex > phase.untilWaypoint) return true;
+
+    switch (phase.phase) {
+        case 'takeoff':
+        case 'climb':
+        case 'descent':
+            return !flight.onGround && phase.altitude !== undefined && Math.abs(flight.altitude - phase.altitude) < 10;
+        case 'cruise':
+            // Top of descent: just enough route left for the descent and landing that follow
+            return phase.untilWaypoint === undefined && phase.duration === undefined &&
+                distanceToGo(flight) <= Math.max(waypointRadius(flight), descentDistance(flight));
+        case 'landing':
+            return flight.onGround && flight.airspeed < 1;
+    }
+}
+
+function step(flight: ScenarioFlight, dt: number) {
+    if (flight.completed) return;
+
+    const { scenario } = flight;
+    const phase = scenario.phases[flight.phaseIndex];
+    const arrival = scenario.waypoints[scenario.waypoints.length - 1];
+    const intensity = TURBULENCE_INTENSITY[scenario.turbulence];
+    flight.phaseElapsed += dt;
+
+    // Lateral navigation: steer toward the next waypoint, crabbing into the wind
+    const target = scenario.waypoints[flight.waypointIndex];
+    if (target && !flight.onGround) {
+        if (distanceNm(flight.latitude, flight.longitude, target.latitude, target.longitude) < waypointRadius(flight)) {
+            flight.waypointIndex++;
+        }
+        const track = bearing(flight.latitude, flight.longitude, target.latitude, target.longitude);
+        const windTo = scenario.wind.direction + 180;
+        const crosswind = scenario.wind.speed * Math.sin(toRadians(windTo - track));
+        const correction = toDegrees(Math.asin(Math.max(-1, Math.min(1, crosswind / Math.max(flight.airspeed, 1)))));
+        const turn = headingDelta(flight.heading, track - correction);
+        flight.heading = normalizeHeading(flight.heading + Math.max(-TURN_RATE * dt, Math.min(TURN_RATE * dt, turn)));
+    }
+
+    // Airspeed: accelerate on the takeoff roll, stop after touchdown
+    const landed = phase.phase === 'landing' && flight.onGround;
+    const targetSpeed = landed ? 0 : phase.speed;
+    flight.airspeed = approach(flight.airspeed, targetSpeed, (flight.onGround ? GROUND_ACCELERATION : AIRBORNE_ACCELERATION) * dt);
+    if (phase.phase === 'takeoff' && flight.onGround && flight.airspeed >= phase.speed * ROTATE_FRACTION) {
+        flight.onGround = false;
+    }
+
+    // Smoothed random gusts, so turbulence is correlated from one sample to the next
+    if (!flight.onGround) {
+        flight.gustSpeed = flight.gustSpeed * 0.95 + (Math.random() - 0.5) * intensity * 0.6;
+        flight.gustVertical = flight.gustVertical * 0.9 + (Math.random() - 0.5) * intensity * 60;
+    } else {
+        flight.gustSpeed = 0;
+        flight.gustVertical = 0;
+    }
+
+    // Vertical: fly toward the phase altitude (the arrival elevation when landing), easing off near it
+    let commandedRate = 0;
+    if (!flight.onGround) {
+        const targetAltitude = phase.phase === 'landing' ? arrival.elevation ?? 0 : phase.altitude;
+        if (targetAltitude !== undefined) {
+            const difference = targetAltitude - flight.altitude;
+            const rate = phase.verticalRate ?? DEFAULT_VERTICAL_RATE;
+            // Landings keep a minimum sink rate so the aircraft actually touches down
+            const floor = phase.phase === 'landing' ? TOUCHDOWN_SINK_RATE : 0;
+            commandedRate = Math.sign(difference) * Math.max(floor, Math.min(rate, Math.abs(difference) * 5));
+        }
+    }
+    flight.verticalSpeed = approach(flight.verticalSpeed, commandedRate, VERTICAL_ACCELERATION * dt);
+    const climbRate = flight.onGround ? 0 : flight.verticalSpeed + flight.gustVertical;
+    flight.altitude += (climbRate / 60) * dt;
+
+    if (phase.phase === 'landing' && !flight.onGround && flight.altitude <= (arrival.elevation ?? 0)) {
+        flight.altitude = arrival.elevation ?? 0;
+        flight.verticalSpeed = 0;
+        flight.onGround = true;
+    }
+
+    // Ground velocity = air velocity + wind (no drift while rolling on the runway)
+    const { north, east } = groundVelocity(flight);
+    flight.latitude += (north * KNOTS_TO_MS * dt) / METERS_PER_DEGREE_LAT;
+    flight.longitude += (east * KNOTS_TO_MS * dt) / (METERS_PER_DEGREE_LAT * Math.cos(toRadians(flight.latitude)));
+
+    flight.battery = Math.max(0, flight.battery - (climbRate > 100 ? 0.004 : 0.002) * dt);
+
+    if (isPhaseComplete(flight, phase)) {
+        flight.phaseIndex++;
+        flight.phaseElapsed = 0;
+        if (flight.phaseIndex >= scenario.phases.length) {
+            if (scenario.loop) {
+                resetFlight(flight);
+            } else {
+                flight.phaseIndex = scenario.phases.length - 1;
+                flight.completed = true;
+                flight.airspeed = flight.onGround ? 0 : flight.airspeed;
+            }
+        }
+    }
+}
+
+function groundVelocity(flight: ScenarioFlight): { north: number; east: number } {
+    const airspeed = flight.airspeed + flight.gustSpeed;
+    const heading = toRadians(flight.heading);
+    let north = airspeed * Math.cos(heading);
+    let east = airspeed * Math.sin(heading);
+
+    if (!flight.onGround) {
+        const windTo = toRadians(flight.scenario.wind.direction + 180);
+        north += flight.scenario.wind.speed * Math.cos(windTo);
+        east += flight.scenario.wind.speed * Math.sin(windTo);
+    }
+    return { north, east };
+}
+
+// Integrates the flight up to `now` and returns the resulting sample
+export function advanceScenarioFlight(flight: ScenarioFlight, now = Date.now()): FlightTelemetry {
+    let remaining = Math.max(0, (now - flight.lastUpdate) / 1000);
+    flight.lastUpdate = now;
+    while (remaining > 0) {
+        const dt = Math.min(MAX_STEP_SECONDS, remaining);
+        step(flight, dt);
+        remaining -= dt;
+    }
+
+    const { north, east } = flight.completed && flight.onGround ? { north: 0, east: 0 } : groundVelocity(flight);
+    const climbRate = flight.onGround ? 0 : flight.verticalSpeed + flight.gustVertical;
+    const temperature = flight.scenario.surfaceTemperature - flight.altitude * LAPSE_RATE_PER_FOOT + (Math.random() - 0.5) * 0.2;
+
+    return {
+        vehicleId: flight.vehicleId,
+        timestamp: new Date(now).toISOString(),
+        altitude: flight.altitude,
+        speedX: east,
+        speedY: north,
+        speedZ: climbRate * FPM_TO_KNOTS,
+        heading: flight.heading,
+        latitude: flight.latitude,
+        longitude: flight.longitude,
+        temperature: Math.max(-100, Math.min(100, temperature)),
+        battery_percentage: flight.battery
+    };
+}
+
+export function getScenarioFlightStatus(flight: ScenarioFlight): ScenarioFlightStatus {
+    const next = flight.scenario.waypoints[flight.waypointIndex];
+    return {
+        vehicleId: flight.vehicleId,
+        phase: flight.completed ? 'complete' : flight.scenario.phases[flight.phaseIndex].phase,
+        ...(next && { nextWaypoint: next.name }),
+        distanceToGoNm: Math.round(distanceToGo(flight) * 10) / 10,
+        altitude: Math.round(flight.altitude),
+        airspeed: Math.round(flight.airspeed)
+    };
+}
@@ -0,0 +1,138 @@
+import { SequenceStats } from './types';
+
+// How a packet's sequence number relates to what the source sent before it
+export type SequenceEvent = 'first' | 'in_order' | 'gap' | 'late' | 'duplicate' | 'reset';
+
+interface SequenceEntry {
+    duplicates: number;
+    late: boolean;
+}
+
+/*
+ * Stats cover the sliding window of the last `windowSize` sequence numbers up to the highest one seen
+ * (starting no earlier than the source's first packet). A sequence number's packets, duplicates and
+ * late arrival stop counting once it falls out of the window, and numbers never received in the
+ * window are the lost ones.
+ */
+interface SourceSequence {
+    highest: number;
+    // Lowest sequence number the window can start at: the first one seen since the source (re)started
+    base: number;
+    // Sequence numbers received within the window
+    entries: Map<number, SequenceEntry>;
+    duplicates: number;
+    outOfOrder: number;
+    resets: number;
+}
+
+export interface SequenceTracker {
+    // Sequence numbers remembered per source
+    readonly windowSize: number;
+    // Records a packet's sequence number against its source and reports how it arrived
+    track(source: string, sequence: number): SequenceEvent;
+    getStats(source: string): SequenceStats | undefined;
+}
+
+export function createSequenceTracker(size: number): SequenceTracker {
+    const windowSize = Math.max(1, Math.floor(size));
+    const sources: Map<string, SourceSequence> = new Map();
+
+    const windowFloor = (state: SourceSequence) => Math.max(state.base, state.highest - windowSize + 1);
+
+    const restart = (state: SourceSequence, sequence: number) => {
+        state.highest = sequence;
+        state.base = sequence;
+        state.entries.clear();
+        state.duplicates = 0;
+        state.outOfOrder = 0;
+    };
+
+    // Moves the window up to `sequence`, forgetting what falls out of it
+    const advance = (state: SourceSequence, sequence: number) => {
+        const from = windowFloor(state);
+        state.highest = sequence;
+        const to = windowFloor(state);
+
+        if (to - from >= windowSize) {
+            state.entries.clear();
+            state.duplicates = 0;
+            state.outOfOrder = 0;
+            return;
+        }
+        for (let evicted = from; evicted < to; evicted++) {
+            const entry = state.entries.get(evicted);
+            if (!entry) continue;
+            state.duplicates -= entry.duplicates;
+            if (entry.late) state.outOfOrder--;
+            state.entries.delete(evicted);
+        }
+    };
+
+    const classify = (state: SourceSequence, sequence: number): SequenceEvent => {
+        if (sequence > state.highest) {
+            const gap = sequence > state.highest + 1;
+            advance(state, sequence);
+            state.entries.set(sequence, { duplicates: 0, late: false });
+            return gap ? 'gap' : 'in_order';
+        }
+
+        // A packet far behind the window means the sender restarted (or its uint32 counter wrapped)
+        if (state.highest - sequence >= windowSize) {
+            state.resets++;
+            restart(state, sequence);
+            state.entries.set(sequence, { duplicates: 0, late: false });
+            return 'reset';
+        }
+
+        const entry = state.entries.get(sequence);
+        if (entry) {
+            entry.duplicates++;
+            state.duplicates++;
+            return 'duplicate';
+        }
+
+        // Arrived after a later packet, so it no longer counts as lost; one from before the first packet
+        // seen widens the window down to it
+        state.base = Math.min(state.base, sequence);
+        state.entries.set(sequence, { duplicates: 0, late: true });
+        state.outOfOrder++;
+        return 'late';
+    };
+
+    return {
+        windowSize,
+
+        track(source, sequence) {
+            const state = sources.get(source);
+            if (!state) {
+                sources.set(source, {
+                    highest: sequence,
+                    base: sequence,
+                    entries: new Map([[sequence, { duplicates: 0, late: false }]]),
+                    duplicates: 0,
+                    outOfOrder: 0,
+                    resets: 0
+                });
+                return 'first';
+            }
+            return classify(state, sequence);
+        },
+
+        getStats(source) {
+            const state = sources.get(source);
+            if (!state) return undefined;
+
+            const span = state.highest - windowFloor(state) + 1;
+            const lost = span - state.entries.size;
+            return {
+                lastSequence: state.highest,
+                received: state.entries.size + state.duplicates,
+                lost,
+                duplicates: state.duplicates,
+                outOfOrder: state.outOfOrder,
+                resets: state.resets,
+                lossRate: lost / span
+            };
+        }
+    };
+}
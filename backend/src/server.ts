@@ -0,0 +1,1513 @@
+import express from "express";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { Server, Socket } from "socket.io";
+import { networkInterfaces } from 'os';
+import { SourceConnection, TelemetryMessage } from './types';
+import { parseListenerSpec } from './udpListeners';
+import { PacketFormat } from './binaryCodec';
+import { NUMERIC_FIELDS, parseDuration } from './telemetryStore';
+import { createAlertEngine, parseAlertRule } from './alerts';
+import { createGeofences, parseGeofenceZone } from './geofences';
+import { createReplayer, isValidReplaySpeed } from './replay';
+import { TransportConfig, createTransport, transportConfigFromEnv } from './transport';
+import { CLIENT_LATENCY_STAGES, LATENCY_STAGES, LatencyStage, createLatencyRecorder } from './latency';
+import { createEventLoopMonitor, createPipelineCounters } from './metrics';
+import { OPENMETRICS_CONTENT_TYPE, createExposition } from './openMetrics';
+import { MAX_FLEET_SIZE } from './fleetSimulator';
+import { Scenario, loadScenarios } from './scenarioEngine';
+import { createFaultInjector, parseFaultConfig } from './faultInjector';
+import { ClientDeliveryConfig, DELIVERY_MODES, DeliveryMode, parseDeliveryPolicy } from './clientDelivery';
+import { createStressModes, parseStressMode } from './stressModes';
+import { AuthConfig, AuthContext, ROLES, authConfigFromEnv, createAuth, hasRole } from './auth';
+import { ConnectionChangeListener, Ingestion, IngestionOptions, PacketSource, createIngestion } from './ingestion';
+import { PACKET_FORMATS, Simulator, createSimulator } from './simulator';
+import { Broadcaster, createBroadcaster } from './broadcaster';
+import { CHANNELS } from './derivedChannels';
+import { MqttBridge, MqttBridgeOptions, createMqttBridge, parseTopicList } from './mqttBridge';
+
+export interface SimulatorSettings {
+    // Start sending `startDelayMs` after the server starts
+    autoStart: boolean;
+    startDelayMs: number;
+    packetFormat: PacketFormat;
+    fleetSize: number;
+    // Scenario id to fly from the start, generated telemetry when unset
+    scenario?: string;
+    // Defaults to the port of the first UDP listener
+    targetPort?: number;
+}
+
+export interface TelemetryServerOptions {
+    // HTTP and Socket.IO port, 0 picks a free one
+    port: number;
+    // "*" allows any origin
+    corsOrigins: string[];
+    auth: AuthConfig;
+    transport: TransportConfig;
+    ingestion: IngestionOptions;
+    delivery: ClientDeliveryConfig;
+    // Tick on which telemetryBatch events go out to clients that negotiated a batch format
+    batchIntervalMs: number;
+    // Recent messages kept so reconnecting clients can be backfilled, 0 disables it
+    resumeBufferSize: number;
+    alertRulesFile: string;
+    geofencesFile: string;
+    stressModesFile: string;
+    scenariosDir: string;
+    simulator: SimulatorSettings;
+    mqtt: MqttBridgeOptions;
+}
+
+// Options left out take the defaults used with an empty environment; `ingestion`, `simulator` and `mqtt` merge one level deep
+export type TelemetryServerInit = Partial<Omit<TelemetryServerOptions, 'ingestion' | 'simulator' | 'mqtt'>> & {
+    ingestion?: Partial<IngestionOptions>;
+    simulator?: Partial<SimulatorSettings>;
+    mqtt?: Partial<MqttBridgeOptions>;
+};
+
+export interface TelemetryServer {
+    readonly app: express.Express;
+    readonly io: Server;
+    readonly ingestion: Ingestion;
+    readonly simulator: Simulator;
+    readonly broadcaster: Broadcaster;
+    // Null unless an MQTT broker (or the embedded one) is configured
+    readonly mqtt: MqttBridge | null;
+    // Opens the transport, the UDP and TCP listeners and the MQTT bridge, then listens for HTTP; resolves with the bound
+    // port. If any of it fails, whatever was already started is stopped again before the promise rejects
+    start(): Promise<{ port: number }>;
+    // Clears every timer and closes every socket the server opened
+    stop(): Promise<void>;
+    // Called for each message delivered to the broadcaster; returns an unsubscribe function
+    onTelemetry(listener: (message: TelemetryMessage) => void): () => void;
+    onConnectionChange(listener: ConnectionChangeListener): () => void;
+}
+
+const DEFAULT_UDP_PORT = 8080;
+const DEFAULT_TCP_PORT = 8081;
+// Samples accepted in one POST /ingest request or WebSocket `telemetry` event
+const MAX_INGEST_BATCH = 1000;
+// Names HTTP and WebSocket sources may give themselves, e.g. "ground-station-2"
+const SOURCE_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+const MAX_QUERY_LIMIT = 50000;
+// Latency samples accepted per stage in one client report, and how often one client's reports are accepted
+const MAX_LATENCY_REPORT_SAMPLES = 1000;
+const MIN_LATENCY_REPORT_INTERVAL_MS = 1000;
+const MAX_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+// Sources silent for this long are marked inactive
+const CONNECTION_IDLE_MS = 30000;
+
+export function telemetryServerOptionsFromEnv(env: NodeJS.ProcessEnv): TelemetryServerOptions {
+    // Default delivery policy for Socket.IO clients: reliable | volatile | decimate
+    const deliveryMode = (env.CLIENT_DELIVERY_POLICY || 'reliable') as DeliveryMode;
+    if (!DELIVERY_MODES.includes(deliveryMode)) {
+        throw new Error(`Invalid CLIENT_DELIVERY_POLICY "${deliveryMode}", expected one of ${DELIVERY_MODES.join(', ')}`);
+    }
+
+    // Messages kept to backfill reconnecting clients, 0 disables backfill
+    const resumeBufferSize = Number(env.RESUME_BUFFER_SIZE || 5000);
+    if (!Number.isInteger(resumeBufferSize) || resumeBufferSize < 0) {
+        throw new Error(`Invalid RESUME_BUFFER_SIZE "${env.RESUME_BUFFER_SIZE}", expected a non-negative integer`);
+    }
+
+    return {
+        port: Number(env.PORT) || 8000,
+        // e.g. CORS_ORIGINS="https://dashboard.example.com,http://localhost:3000"
+        corsOrigins: (env.CORS_ORIGINS || '*').split(',').map(origin => origin.trim()).filter(Boolean),
+        auth: authConfigFromEnv(env),
+        transport: transportConfigFromEnv(env),
+        ingestion: {
+            // e.g. UDP_LISTENERS="8080,127.0.0.1:8081,backup@0.0.0.0:9000"
+            listeners: parseListenerSpec(env.UDP_LISTENERS || `primary@0.0.0.0:${DEFAULT_UDP_PORT}`),
+            // Same format as UDP_LISTENERS; empty disables TCP ingestion
+            tcpListeners: parseListenerSpec(env.TCP_LISTENERS ?? `0.0.0.0:${DEFAULT_TCP_PORT}`, 'tcp'),
+            quarantineSize: Number(env.QUARANTINE_SIZE ?? 200),
+            recordings: {
+                dir: env.RECORDINGS_DIR || 'recordings',
+                maxFileBytes: Number(env.RECORDING_MAX_FILE_BYTES) || 50 * 1024 * 1024
+            },
+            telemetryStore: {
+                dir: env.TELEMETRY_STORE_DIR || 'data/telemetry',
+                segmentMs: 10 * 60 * 1000,
+                retentionMs: (Number(env.TELEMETRY_STORE_RETENTION_HOURS) || 24) * 60 * 60 * 1000
+            },
+            sequenceWindow: Number(env.SEQUENCE_WINDOW) || 1024,
+            reorderBufferMs: Number(env.REORDER_BUFFER_MS) || 0
+        },
+        delivery: {
+            defaultPolicy: {
+                mode: deliveryMode,
+                maxRate: Number(env.CLIENT_MAX_RATE) || 20,
+                // How long a client may lag before being dropped, 0 never
+                disconnectAfterMs: Number(env.SLOW_CLIENT_DISCONNECT_MS ?? 30000)
+            },
+            // Packets queued for a client before it counts as lagging
+            highWaterMark: Number(env.CLIENT_HIGH_WATER_MARK) || 100
+        },
+        batchIntervalMs: Number(env.TELEMETRY_BATCH_MS) || 50,
+        resumeBufferSize,
+        alertRulesFile: env.ALERT_RULES_FILE || 'data/alert-rules.json',
+        geofencesFile: env.GEOFENCES_FILE || 'data/geofences.json',
+        stressModesFile: env.STRESS_MODES_FILE || 'data/stress-modes.json',
+        scenariosDir: env.SCENARIOS_DIR || 'scenarios',
+        simulator: {
+            autoStart: true,
+            startDelayMs: 2000,
+            packetFormat: env.SIMULATOR_PACKET_FORMAT === 'binary' ? 'binary' : 'json',
+            fleetSize: Math.min(MAX_FLEET_SIZE, Number(env.SIMULATOR_FLEET_SIZE) || 1),
+            scenario: env.SIMULATOR_SCENARIO || undefined
+        },
+        mqtt: {
+            // e.g. MQTT_URL=mqtt://broker.local:1883, or "embedded" for an in-process broker; unset disables the bridge
+            url: env.MQTT_URL || '',
+            embeddedPort: Number(env.MQTT_EMBEDDED_PORT) || 1883,
+            clientId: env.MQTT_CLIENT_ID || 'live-charts-backend',
+            username: env.MQTT_USERNAME || undefined,
+            password: env.MQTT_PASSWORD || undefined,
+            subscribe: parseTopicList(env.MQTT_SUBSCRIBE ?? 'groundstation/+/telemetry'),
+            publishPrefix: env.MQTT_PUBLISH_PREFIX ?? 'telemetry',
+            qos: env.MQTT_QOS === '1' ? 1 : 0
+        }
+    };
+}
+
+const roundRate = (rate: number) => Math.round(rate * 100) / 100;
+
+// Optional `limit` query parameter of list endpoints; returns an error message unless it is a positive integer
+function parseLimitParam(value: unknown): number | undefined | string {
+    if (value === undefined) return undefined;
+    const limit = Number(value);
+    return typeof value === 'string' && Number.isInteger(limit) && limit > 0 ? limit : 'limit must be a positive integer';
+}
+
+// Get available network interfaces
+function getNetworkInterfaces() {
+    const interfaces = networkInterfaces();
+    const availableInterfaces: any[] = [];
+
+    Object.keys(interfaces).forEach(name => {
+        interfaces[name]?.forEach(iface => {
+            if (!iface.internal && iface.family === 'IPv4') {
+                availableInterfaces.push({
+                    name,
+                    address: iface.address,
+                    netmask: iface.netmask,
+                    mac: iface.mac
+                });
+            }
+        });
+    });
+
+    return availableInterfaces;
+}
+
+const summarizeScenario = (scenario: Scenario) => ({
+    id: scenario.id,
+    name: scenario.name,
+    description: scenario.description,
+    phases: scenario.phases.map(phase => phase.phase),
+    waypoints: scenario.waypoints.map(waypoint => waypoint.name),
+    turbulence: scenario.turbulence,
+    loop: scenario.loop
+});
+
+/*
+ * The whole backend as one instance: UDP ingestion, the transport, the Socket.IO broadcaster, the
+ * simulator and the REST API. Nothing is bound, scheduled or written to disk until start(), and
+ * stop() releases it all, so several servers can run side by side in one process.
+ */
+export function createTelemetryServer(init: TelemetryServerInit = {}): TelemetryServer {
+    const defaults = telemetryServerOptionsFromEnv({});
+    const options: TelemetryServerOptions = {
+        ...defaults,
+        ...init,
+        ingestion: { ...defaults.ingestion, ...init.ingestion },
+        simulator: { ...defaults.simulator, ...init.simulator },
+        mqtt: { ...defaults.mqtt, ...init.mqtt }
+    };
+    const corsOrigins = options.corsOrigins;
+
+    const app = express();
+    const server = createServer(app);
+    const io = new Server(server, {
+        cors: {
+            origin: corsOrigins.includes('*') ? '*' : corsOrigins,
+            methods: ["GET", "POST"]
+        }
+    });
+
+    const auth = createAuth(options.auth);
+    const startTime = Date.now();
+    let connectionsCount = 0;
+    let memoryUsage = 0;
+    const counters = createPipelineCounters();
+    const latency = createLatencyRecorder();
+    const eventLoop = createEventLoopMonitor();
+    const telemetryListeners: Set<(message: TelemetryMessage) => void> = new Set();
+    const connectionListeners: Set<ConnectionChangeListener> = new Set();
+
+    const notifyConnectionChange: ConnectionChangeListener = (connection, change) =>
+        connectionListeners.forEach(listener => listener(connection, change));
+
+    // Message bus between ingestion and broadcast (direct, in-memory broker or Kafka)
+    const transport = createTransport(options.transport);
+    const ingestion = createIngestion(options.ingestion, {
+        counters,
+        latency,
+        publish: message => transport.publish(message),
+        onConnectionChange: notifyConnectionChange
+    });
+    const mqtt = options.mqtt.url
+        ? createMqttBridge(options.mqtt, {
+            ingestion,
+            onConnectionChange: notifyConnectionChange
+        })
+        : null;
+    const broadcaster = createBroadcaster(io, {
+        batchIntervalMs: options.batchIntervalMs,
+        delivery: options.delivery,
+        resumeBufferSize: options.resumeBufferSize
+    }, latency);
+    const { delivery } = broadcaster;
+    const alerts = createAlertEngine(options.alertRulesFile, (alert, event) => io.emit("alert", { event, ...alert }));
+    const geofences = createGeofences(options.geofencesFile, event => io.emit("geofenceEvent", event));
+    const stressModes = createStressModes(options.stressModesFile);
+    const faults = createFaultInjector();
+    const scenarios: Scenario[] = loadScenarios(options.scenariosDir);
+    // Port the simulator and replays send to; settled once the listeners are bound
+    let udpPort = options.simulator.targetPort ?? DEFAULT_UDP_PORT;
+    const simulator = createSimulator({
+        targetPort: udpPort,
+        packetFormat: options.simulator.packetFormat,
+        fleetSize: options.simulator.fleetSize,
+        scenarios,
+        stressModes,
+        faults
+    });
+    const replayer = createReplayer(ingestion.recorder, () => io.emit("simulatorStatus", getSimulatorStatus()));
+    const { connections: udpConnections, vehicles } = ingestion;
+
+    if (options.simulator.scenario && !simulator.setScenario(options.simulator.scenario)) {
+        console.warn(`Unknown simulator scenario "${options.simulator.scenario}", using generated telemetry`);
+    }
+    if (!auth.isEnabled()) {
+        console.warn('Authentication is disabled: set API_KEYS and/or AUTH_TOKEN_SECRET to protect control endpoints');
+    }
+
+    let monitoringLoop: NodeJS.Timeout | undefined;
+    let simulatorStartup: NodeJS.Timeout | undefined;
+
+    // Send rate of the simulator: `stressModeChanged` carries the active mode and its schedule progress
+    const stressModeEvent = () => {
+        const { mode, ...status } = stressModes.getStatus();
+        return { mode: mode.id, config: mode, ...status };
+    };
+
+    const handleTelemetry = (message: TelemetryMessage) => {
+        broadcaster.broadcast(message);
+        ingestion.countSent(message.sourceConnection);
+        alerts.evaluate(message);
+        geofences.evaluate(message);
+        mqtt?.republish(message);
+        telemetryListeners.forEach(listener => listener(message));
+    };
+
+    const getPerformanceMetrics = () => ({
+        messagesReceived: counters.total('received'),
+        messagesSent: counters.total('sent'),
+        messagesRejected: counters.total('rejected'),
+        messagesDropped: counters.total('dropped'),
+        connectionsCount,
+        memoryUsage,
+        startTime,
+        messagesPerSecond: roundRate(counters.rate('received')),
+        latency: latency.getSnapshots()
+    });
+
+    // What was injected next to what the backend noticed on the simulator's connection
+    const getFaultReport = () => {
+        const { sourceConnection } = simulator.getStatus();
+        const connection = sourceConnection ? udpConnections.get(sourceConnection) : undefined;
+        return {
+            ...faults.getStatus(),
+            detected: connection ? {
+                sourceConnection: connection.id,
+                lost: connection.sequence?.lost ?? 0,
+                duplicates: connection.sequence?.duplicates ?? 0,
+                outOfOrder: connection.sequence?.outOfOrder ?? 0,
+                rejected: connection.messagesRejected
+            } : null
+        };
+    };
+
+    const getSimulatorStatus = () => {
+        const { isRunning, isPaused, packetFormat, fleetSize } = simulator.getStatus();
+        return {
+            isRunning,
+            isPaused,
+            packetFormat,
+            fleetSize,
+            scenario: simulator.getScenarioStatus(),
+            faults: getFaultReport(),
+            replay: replayer.getStatus(),
+            recording: ingestion.recorder.getStatus()
+        };
+    };
+
+    // Add middleware to parse JSON; the limit leaves room for POST /ingest batches
+    app.use(express.json({ limit: '1mb' }));
+
+    // CORS for the REST API, so the dashboard can call it with an Authorization header
+    app.use((req, res, next) => {
+        const origin = req.headers.origin;
+        if (origin && (corsOrigins.includes('*') || corsOrigins.includes(origin))) {
+            res.setHeader('Access-Control-Allow-Origin', corsOrigins.includes('*') ? '*' : origin);
+            res.setHeader('Vary', 'Origin');
+            res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+            res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-API-Key');
+        }
+        if (req.method === 'OPTIONS') {
+            res.sendStatus(204);
+            return;
+        }
+        next();
+    });
+
+    // Everything except the health check needs credentials once authentication is configured
+    app.use(auth.middleware(['/health']));
+
+    // API Endpoints
+
+    // Get UDP connections endpoint
+    app.get("/udp/connections", (req, res) => {
+        const connections = Array.from(udpConnections.values());
+        const networkIntfs = getNetworkInterfaces();
+
+        const ports = ingestion.listeners.list().map(listener => listener.config.port);
+
+        res.json({
+            connections,
+            networkInterfaces: networkIntfs,
+            serverInfo: {
+                port: udpPort,
+                ports,
+                tcpPorts: ingestion.tcpListeners.list().map(listener => listener.config.port),
+                availableAddresses: networkIntfs.flatMap(intf => ports.map(port => `${intf.address}:${port}`))
+            }
+        });
+    });
+
+    // UDP listener management endpoints
+    app.get("/udp/listeners", (req, res) => {
+        res.json({
+            listeners: ingestion.listeners.list().map(listener => ({
+                id: listener.id,
+                ...listener.config,
+                openedAt: listener.openedAt,
+                messagesReceived: udpConnections.get(listener.id)?.messagesReceived || 0
+            }))
+        });
+    });
+
+    app.post("/udp/listeners", async (req, res) => {
+        const { port, address, label } = req.body || {};
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+            res.status(400).json({ error: "A valid UDP port (1-65535) is required" });
+            return;
+        }
+
+        try {
+            const listener = await ingestion.openListener({ port, address, label });
+            io.emit("udpConnections", Array.from(udpConnections.values()));
+            res.status(201).json({ success: true, listener: { id: listener.id, ...listener.config } });
+        } catch (error) {
+            res.status(409).json({ error: (error as Error).message });
+        }
+    });
+
+    app.delete("/udp/listeners/:id", async (req, res) => {
+        const closed = await ingestion.closeListener(req.params.id);
+        if (!closed) {
+            res.status(404).json({ error: `No UDP listener with id ${req.params.id}` });
+            return;
+        }
+
+        io.emit("udpConnections", Array.from(udpConnections.values()));
+        res.json({ success: true, id: req.params.id });
+    });
+
+    // Simulator control endpoints
+    app.post("/simulator/start", (req, res) => {
+        simulator.start();
+        res.json({
+            success: true,
+            status: 'started',
+            isRunning: simulator.getStatus().isRunning,
+            isPaused: simulator.getStatus().isPaused
+        });
+    });
+
+    app.post("/simulator/stop", (req, res) => {
+        simulator.stop();
+        res.json({
+            success: true,
+            status: 'stopped',
+            isRunning: simulator.getStatus().isRunning,
+            isPaused: simulator.getStatus().isPaused
+        });
+    });
+
+    app.post("/simulator/pause", (req, res) => {
+        simulator.pause();
+        res.json({
+            success: true,
+            status: 'paused',
+            isRunning: simulator.getStatus().isRunning,
+            isPaused: simulator.getStatus().isPaused
+        });
+    });
+
+    app.post("/simulator/resume", (req, res) => {
+        simulator.resume();
+        res.json({
+            success: true,
+            status: 'resumed',
+            isRunning: simulator.getStatus().isRunning,
+            isPaused: simulator.getStatus().isPaused
+        });
+    });
+
+    // Get simulator status
+    app.get("/simulator/status", (req, res) => {
+        const { isRunning, isPaused, packetFormat } = simulator.getStatus();
+        res.json({
+            isRunning,
+            isPaused,
+            packetFormat,
+            currentMode: stressModes.getStatus().mode.id,
+            stressMode: stressModes.getStatus(),
+            scenario: simulator.getScenarioStatus()
+        });
+    });
+
+    // Scripted flight profiles loaded from the scenarios directory
+    app.get("/scenarios", (req, res) => {
+        res.json({
+            active: simulator.getScenario()?.id ?? 'none',
+            scenarios: scenarios.map(summarizeScenario)
+        });
+    });
+
+    app.post("/simulator/scenario/:id", (req, res) => {
+        if (!simulator.setScenario(req.params.id)) {
+            res.status(404).json({
+                error: "Unknown scenario",
+                availableScenarios: ['none', ...scenarios.map(scenario => scenario.id)]
+            });
+            return;
+        }
+
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, scenario: simulator.getScenarioStatus() });
+    });
+
+    // Switch the simulator between JSON and binary packets
+    app.post("/simulator/format/:format", (req, res) => {
+        const format = req.params.format as PacketFormat;
+        if (!PACKET_FORMATS.includes(format)) {
+            res.status(400).json({
+                error: "Invalid packet format",
+                availableFormats: PACKET_FORMATS
+            });
+            return;
+        }
+
+        simulator.setPacketFormat(format);
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, packetFormat: format });
+    });
+
+    // Fly N independent aircraft instead of a single stream
+    app.post("/simulator/fleet", (req, res) => {
+        const size = Number(req.body?.size);
+        if (!Number.isInteger(size) || size < 1 || size > MAX_FLEET_SIZE) {
+            res.status(400).json({ error: `Fleet size must be an integer between 1 and ${MAX_FLEET_SIZE}` });
+            return;
+        }
+
+        simulator.setFleetSize(size);
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, ...getSimulatorStatus() });
+    });
+
+    // Network fault injection on the simulator's packets
+    app.get("/simulator/faults", (req, res) => {
+        res.json(getFaultReport());
+    });
+
+    // Body is a partial update, e.g. {"probabilities": {"loss": 0.05}, "outage": {"durationMs": 3000, "periodMs": 30000}}
+    app.post("/simulator/faults", (req, res) => {
+        const config = parseFaultConfig(req.body, faults.getStatus().config);
+        if (typeof config === 'string') {
+            res.status(400).json({ error: config });
+            return;
+        }
+
+        faults.configure(config);
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json(getFaultReport());
+    });
+
+    app.delete("/simulator/faults", (req, res) => {
+        faults.clear();
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json(getFaultReport());
+    });
+
+    app.post("/simulator/faults/reset-counts", (req, res) => {
+        faults.resetCounts();
+        res.json(getFaultReport());
+    });
+
+    // Recording endpoints: raw packets are written to rotating NDJSON files
+    app.get("/recordings", (req, res) => {
+        res.json({ status: ingestion.recorder.getStatus(), recordings: ingestion.recorder.list() });
+    });
+
+    app.post("/recordings/start", (req, res) => {
+        try {
+            const status = ingestion.recorder.start(req.body?.name);
+            io.emit("simulatorStatus", getSimulatorStatus());
+            res.json({ success: true, ...status });
+        } catch (error) {
+            res.status(409).json({ error: (error as Error).message });
+        }
+    });
+
+    app.post("/recordings/stop", async (req, res) => {
+        const status = await ingestion.recorder.stop();
+        if (!status) {
+            res.status(409).json({ error: "No recording in progress" });
+            return;
+        }
+
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, ...status });
+    });
+
+    // Replay endpoints: recordings are sent back through the UDP ingestion path
+    app.get("/replay/status", (req, res) => {
+        res.json(replayer.getStatus());
+    });
+
+    app.post("/replay/start", (req, res) => {
+        const { recordingId, speed = 1, from = 0 } = req.body || {};
+        if (typeof recordingId !== 'string') {
+            res.status(400).json({ error: "recordingId is required", recordings: ingestion.recorder.list().map(r => r.recordingId) });
+            return;
+        }
+        if (!isValidReplaySpeed(speed)) {
+            res.status(400).json({ error: "speed must be a positive multiplier or \"max\"" });
+            return;
+        }
+
+        try {
+            const status = replayer.start({ recordingId, speed, from: Number(from) || 0, targetPort: udpPort });
+            io.emit("simulatorStatus", getSimulatorStatus());
+            res.json({ success: true, ...status });
+        } catch (error) {
+            res.status(404).json({ error: (error as Error).message });
+        }
+    });
+
+    app.post("/replay/seek", (req, res) => {
+        const position = Number(req.body?.position);
+        if (!Number.isFinite(position) || position < 0) {
+            res.status(400).json({ error: "position (ms from the start of the recording) is required" });
+            return;
+        }
+
+        replayer.seek(position);
+        res.json({ success: true, ...replayer.getStatus() });
+    });
+
+    app.post("/replay/speed", (req, res) => {
+        const speed = req.body?.speed;
+        if (!isValidReplaySpeed(speed)) {
+            res.status(400).json({ error: "speed must be a positive multiplier or \"max\"" });
+            return;
+        }
+
+        replayer.setSpeed(speed);
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, ...replayer.getStatus() });
+    });
+
+    app.post("/replay/pause", (req, res) => {
+        replayer.pause();
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, ...replayer.getStatus() });
+    });
+
+    app.post("/replay/resume", (req, res) => {
+        replayer.resume();
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, ...replayer.getStatus() });
+    });
+
+    app.post("/replay/stop", (req, res) => {
+        replayer.stop();
+        io.emit("simulatorStatus", getSimulatorStatus());
+        res.json({ success: true, ...replayer.getStatus() });
+    });
+
+    // Batch ingestion for sources that can't send UDP; samples go through the same validation and broadcast path
+    app.post("/ingest", (req, res) => {
+        const body = req.body;
+        const samples: unknown[] = Array.isArray(body) ? body : [body];
+        if (!body || typeof body !== 'object' || samples.length === 0) {
+            res.status(400).json({ error: "Body must be a telemetry sample or a non-empty array of samples" });
+            return;
+        }
+        if (samples.length > MAX_INGEST_BATCH) {
+            res.status(413).json({ error: `At most ${MAX_INGEST_BATCH} samples per request` });
+            return;
+        }
+
+        const name = req.query.source;
+        if (name !== undefined && (typeof name !== 'string' || !SOURCE_NAME_PATTERN.test(name))) {
+            res.status(400).json({ error: "source must be 1-64 letters, digits or _ . : -" });
+            return;
+        }
+
+        // Sources are tracked by name when they give one, otherwise by address since HTTP ports change per connection
+        const address = req.ip || req.socket.remoteAddress || 'unknown';
+        res.json(ingestion.ingestSamples(samples, {
+            connectionId: `http:${name ?? address}`,
+            protocol: 'http',
+            address,
+            port: req.socket.remotePort ?? 0,
+            listenerId: 'http',
+            label: 'POST /ingest'
+        }));
+    });
+
+    // Historical telemetry query, optionally aggregated into time buckets
+    app.get("/telemetry", async (req, res) => {
+        const param = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+        const parseTime = (value: string | undefined, fallback: number) => {
+            if (!value) return fallback;
+            return /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+        };
+
+        const to = parseTime(param('to'), Date.now());
+        const from = parseTime(param('from'), to - 15 * 60 * 1000);
+        if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+            res.status(400).json({ error: "from/to must be ISO-8601 dates or epoch milliseconds with from <= to" });
+            return;
+        }
+
+        const fields = param('fields') ? param('fields')!.split(',').map(field => field.trim()) : NUMERIC_FIELDS;
+        const unknownFields = fields.filter(field => !(NUMERIC_FIELDS as string[]).includes(field));
+        if (unknownFields.length > 0) {
+            res.status(400).json({ error: `Unknown fields: ${unknownFields.join(', ')}`, availableFields: NUMERIC_FIELDS });
+            return;
+        }
+
+        const bucket = param('bucket') ? parseDuration(param('bucket')!) : undefined;
+        if (param('bucket') && !bucket) {
+            res.status(400).json({ error: "bucket must be milliseconds or a duration such as 5s, 1m, 1h" });
+            return;
+        }
+
+        const limit = param('limit') === undefined ? 5000 : Number(param('limit'));
+        if (!Number.isInteger(limit) || limit <= 0) {
+            res.status(400).json({ error: `limit must be a positive integer (at most ${MAX_QUERY_LIMIT} are returned)` });
+            return;
+        }
+
+        const query = {
+            from,
+            to,
+            fields,
+            source: param('source'),
+            vehicleId: param('vehicleId'),
+            limit: Math.min(limit, MAX_QUERY_LIMIT)
+        };
+
+        try {
+            if (bucket) {
+                res.json({ from, to, bucket, buckets: await ingestion.store.queryBuckets({ ...query, bucket }) });
+            } else {
+                res.json({ from, to, ...await ingestion.store.querySamples(query) });
+            }
+        } catch (error) {
+            console.error('Error querying telemetry store:', error);
+            res.status(500).json({ error: "Failed to query telemetry store" });
+        }
+    });
+
+    // Alerts: active alerts and history
+    app.get("/alerts", (req, res) => {
+        const limit = parseLimitParam(req.query.limit);
+        if (typeof limit === 'string') {
+            res.status(400).json({ error: limit });
+            return;
+        }
+        res.json({ active: alerts.getActive(), history: alerts.getHistory(limit) });
+    });
+
+    app.post("/alerts/:id/acknowledge", (req, res) => {
+        const alert = alerts.acknowledge(req.params.id, (res.locals.auth as AuthContext).subject);
+        if (!alert) {
+            res.status(404).json({ error: `No alert with id ${req.params.id}` });
+            return;
+        }
+        res.json({ success: true, alert });
+    });
+
+    // Alert rule CRUD, persisted to the alert rules file
+    app.get("/alerts/rules", (req, res) => {
+        res.json({ rules: alerts.getRules() });
+    });
+
+    app.get("/alerts/rules/:id", (req, res) => {
+        const rule = alerts.getRule(req.params.id);
+        if (!rule) {
+            res.status(404).json({ error: `No alert rule with id ${req.params.id}` });
+            return;
+        }
+        res.json(rule);
+    });
+
+    app.post("/alerts/rules", (req, res) => {
+        const rule = parseAlertRule(req.body);
+        if (typeof rule === 'string') {
+            res.status(400).json({ error: rule });
+            return;
+        }
+
+        alerts.saveRule(rule);
+        res.status(201).json(rule);
+    });
+
+    app.put("/alerts/rules/:id", (req, res) => {
+        if (!alerts.getRule(req.params.id)) {
+            res.status(404).json({ error: `No alert rule with id ${req.params.id}` });
+            return;
+        }
+
+        const rule = parseAlertRule(req.body, req.params.id);
+        if (typeof rule === 'string') {
+            res.status(400).json({ error: rule });
+            return;
+        }
+
+        alerts.saveRule(rule);
+        res.json(rule);
+    });
+
+    app.delete("/alerts/rules/:id", (req, res) => {
+        if (!alerts.deleteRule(req.params.id)) {
+            res.status(404).json({ error: `No alert rule with id ${req.params.id}` });
+            return;
+        }
+        res.json({ success: true, id: req.params.id });
+    });
+
+    // Geofence zone CRUD, persisted to the geofences file
+    app.get("/geofences", (req, res) => {
+        res.json({ zones: geofences.getZones() });
+    });
+
+    app.get("/geofences/:id", (req, res) => {
+        const zone = geofences.getZone(req.params.id);
+        if (!zone) {
+            res.status(404).json({ error: `No geofence with id ${req.params.id}` });
+            return;
+        }
+        res.json({ ...zone, occupants: geofences.getOccupants(zone.id) });
+    });
+
+    // Recent enter/exit/breach events for a zone
+    app.get("/geofences/:id/events", (req, res) => {
+        if (!geofences.getZone(req.params.id)) {
+            res.status(404).json({ error: `No geofence with id ${req.params.id}` });
+            return;
+        }
+        const limit = parseLimitParam(req.query.limit);
+        if (typeof limit === 'string') {
+            res.status(400).json({ error: limit });
+            return;
+        }
+        res.json({ events: geofences.getEvents(req.params.id, limit) });
+    });
+
+    app.post("/geofences", (req, res) => {
+        const zone = parseGeofenceZone(req.body);
+        if (typeof zone === 'string') {
+            res.status(400).json({ error: zone });
+            return;
+        }
+
+        geofences.saveZone(zone);
+        res.status(201).json(zone);
+    });
+
+    app.put("/geofences/:id", (req, res) => {
+        if (!geofences.getZone(req.params.id)) {
+            res.status(404).json({ error: `No geofence with id ${req.params.id}` });
+            return;
+        }
+
+        const zone = parseGeofenceZone(req.body, req.params.id);
+        if (typeof zone === 'string') {
+            res.status(400).json({ error: zone });
+            return;
+        }
+
+        geofences.saveZone(zone);
+        res.json(zone);
+    });
+
+    app.delete("/geofences/:id", (req, res) => {
+        if (!geofences.deleteZone(req.params.id)) {
+            res.status(404).json({ error: `No geofence with id ${req.params.id}` });
+            return;
+        }
+        res.json({ success: true, id: req.params.id });
+    });
+
+    // Socket.IO clients with their delivery policy, backlog and what they were sent or spared
+    app.get("/clients", (req, res) => {
+        const clients = delivery.getStats().map(client => ({ ...client, telemetryFormat: broadcaster.getTelemetryFormat(client.id) }));
+        res.json({ totals: delivery.getTotals(), clients });
+    });
+
+    app.put("/clients/:id/policy", (req, res) => {
+        const current = delivery.getPolicy(req.params.id);
+        if (!current) {
+            res.status(404).json({ error: `No client with id ${req.params.id}` });
+            return;
+        }
+
+        const policy = parseDeliveryPolicy(req.body, current);
+        if (typeof policy === 'string') {
+            res.status(400).json({ error: policy });
+            return;
+        }
+
+        delivery.setPolicy(req.params.id, policy);
+        io.to(req.params.id).emit("deliveryPolicy", policy);
+        res.json({ success: true, id: req.params.id, policy });
+    });
+
+    // Telemetry channels with units, including the ones derived by the backend
+    app.get("/channels", (req, res) => {
+        res.json({ channels: CHANNELS });
+    });
+
+    // Known vehicles across all sources
+    app.get("/vehicles", (req, res) => {
+        res.json({ vehicles: Array.from(vehicles.values()) });
+    });
+
+    // Performance monitoring endpoint
+    app.get("/metrics", (req, res) => {
+        const { isRunning, isPaused } = simulator.getStatus();
+        res.json({
+            ...getPerformanceMetrics(),
+            uptime: Date.now() - startTime,
+            rates: {
+                windowSeconds: 60,
+                received: roundRate(counters.rate('received')),
+                sent: roundRate(counters.rate('sent')),
+                rejected: roundRate(counters.rate('rejected')),
+                dropped: roundRate(counters.rate('dropped'))
+            },
+            eventLoopLag: eventLoop.getLag(),
+            clientDelivery: delivery.getTotals(),
+            resumeBuffer: broadcaster.resumeBuffer.getStats(),
+            mqtt: mqtt ? mqtt.getStatus() : null,
+            memoryUsage: process.memoryUsage(),
+            currentStressMode: stressModes.getStatus().mode.id,
+            stressMode: stressModes.getStatus(),
+            transport: transport.getStats(),
+            telemetryStore: ingestion.store.getStats(),
+            rejections: {
+                total: counters.total('rejected'),
+                bySource: Array.from(udpConnections.values())
+                    .filter(connection => connection.messagesRejected > 0)
+                    .map(connection => ({
+                        sourceConnection: connection.id,
+                        messagesRejected: connection.messagesRejected,
+                        reasons: connection.rejectionReasons
+                    })),
+                quarantine: ingestion.quarantine.getStatus()
+            },
+            sequence: {
+                windowSize: ingestion.sequence.windowSize,
+                bySource: Array.from(udpConnections.values())
+                    .filter(connection => connection.sequence)
+                    .map(connection => ({ sourceConnection: connection.id, ...connection.sequence })),
+                reorderBuffer: ingestion.getReorderStats()
+            },
+            simulatorStatus: {
+                isRunning,
+                isPaused,
+                faults: getFaultReport()
+            }
+        });
+    });
+
+    // OpenMetrics exposition for Prometheus scraping
+    app.get("/metrics/prometheus", (req, res) => {
+        const sources = Array.from(udpConnections.values()).filter(connection => connection.status !== 'listening');
+        const perSource = (value: (connection: SourceConnection) => number) =>
+            sources.map(connection => ({ labels: { source: connection.id }, value: value(connection) }));
+        const memory = process.memoryUsage();
+        const eventLoopLag = eventLoop.getLag();
+        const transportStats = transport.getStats();
+        const { injected } = faults.getStatus();
+        const deliveryTotals = delivery.getTotals();
+        const listeners = ingestion.listeners.list();
+
+        const exposition = createExposition()
+            .counter('telemetry_packets_received', 'UDP packets received per source, valid or not', perSource(connection => connection.messagesReceived))
+            .counter('telemetry_packets_rejected', 'Packets that failed validation per source', perSource(connection => connection.messagesRejected))
+            .counter('telemetry_packets_dropped', 'Valid packets discarded before delivery (duplicates, late reorders) per source', perSource(connection => connection.messagesDropped))
+            .counter('telemetry_messages_sent', 'Telemetry messages emitted to Socket.IO clients per source', perSource(connection => connection.messagesSent))
+            .counter('telemetry_listener_packets_received', 'UDP packets received per listener', listeners.map(listener => ({
+                labels: { listener: listener.id, label: listener.config.label },
+                value: udpConnections.get(listener.id)?.messagesReceived || 0
+            })))
+            .counter('telemetry_transport_publish_errors', 'Messages the transport failed to publish', [
+                { labels: { transport: transportStats.kind }, value: transportStats.publishErrors }
+            ])
+            .counter('telemetry_transport_records_rejected', 'Records the transport consumer could not decode and skipped', [
+                { labels: { transport: transportStats.kind }, value: transportStats.rejected }
+            ])
+            .counter('simulator_faults_injected', 'Faults injected into simulator packets by type', [
+                { labels: { fault: 'loss' }, value: injected.lost },
+                { labels: { fault: 'duplicate' }, value: injected.duplicated },
+                { labels: { fault: 'reorder' }, value: injected.reordered },
+                { labels: { fault: 'truncate' }, value: injected.truncated },
+                { labels: { fault: 'corrupt' }, value: injected.corrupted },
+                { labels: { fault: 'outage' }, value: injected.outageDropped }
+            ])
+            .gauge('telemetry_messages_per_second', 'Message rate over the last 60 seconds', [
+                { labels: { direction: 'received' }, value: counters.rate('received') },
+                { labels: { direction: 'sent' }, value: counters.rate('sent') },
+                { labels: { direction: 'rejected' }, value: counters.rate('rejected') },
+                { labels: { direction: 'dropped' }, value: counters.rate('dropped') }
+            ])
+            .gauge('telemetry_socket_clients', 'Connected Socket.IO clients', [{ value: io.engine.clientsCount }])
+            .gauge('telemetry_socket_clients_lagging', 'Clients with more than CLIENT_HIGH_WATER_MARK packets queued', [{ value: deliveryTotals.lagging }])
+            .counter('telemetry_client_messages_skipped', 'Telemetry messages not sent to a client because of its delivery policy', [
+                { labels: { reason: 'volatile' }, value: deliveryTotals.dropped },
+                { labels: { reason: 'decimate' }, value: deliveryTotals.decimated }
+            ])
+            .counter('telemetry_slow_client_disconnects', 'Clients disconnected for lagging too long', [{ value: deliveryTotals.slowDisconnects }])
+            .gauge('telemetry_udp_listeners', 'Open UDP listeners', [{ value: listeners.length }])
+            .gauge('telemetry_transport_consumer_lag', 'Messages published but not yet consumed', [
+                { labels: { transport: transportStats.kind }, value: transportStats.consumerLag.total }
+            ])
+            .histogram('telemetry_latency_seconds', 'Telemetry latency per pipeline stage', LATENCY_STAGES.map(stage => {
+                const { buckets, count, sum } = latency.getBuckets(stage);
+                return {
+                    labels: { stage },
+                    buckets: buckets.map(bucket => ({ le: bucket.le / 1000, count: bucket.count })),
+                    count,
+                    sum: sum / 1000
+                };
+            }))
+            .gauge('nodejs_heap_used_bytes', 'V8 heap in use', [{ value: memory.heapUsed }])
+            .gauge('nodejs_heap_total_bytes', 'V8 heap allocated', [{ value: memory.heapTotal }])
+            .gauge('nodejs_resident_memory_bytes', 'Resident set size', [{ value: memory.rss }])
+            .gauge('nodejs_eventloop_lag_seconds', 'Mean event loop delay over the last sampling period', [{ value: eventLoopLag.mean / 1000 }])
+            .gauge('nodejs_eventloop_lag_p50_seconds', 'Median event loop delay over the last sampling period', [{ value: eventLoopLag.p50 / 1000 }])
+            .gauge('nodejs_eventloop_lag_p99_seconds', '99th percentile event loop delay over the last sampling period', [{ value: eventLoopLag.p99 / 1000 }])
+            .gauge('nodejs_eventloop_lag_max_seconds', 'Maximum event loop delay over the last sampling period', [{ value: eventLoopLag.max / 1000 }])
+            .gauge('process_uptime_seconds', 'Seconds since the server started', [{ value: (Date.now() - startTime) / 1000 }]);
+
+        res.type(OPENMETRICS_CONTENT_TYPE).send(exposition.render());
+    });
+
+    app.delete("/metrics/latency", (req, res) => {
+        latency.reset();
+        res.json({ success: true, latency: latency.getSnapshots() });
+    });
+
+    // Quarantined (rejected) packet inspection
+    app.get("/quarantine", (req, res) => {
+        const source = typeof req.query.source === 'string' ? req.query.source : undefined;
+        const limit = parseLimitParam(req.query.limit);
+        if (typeof limit === 'string') {
+            res.status(400).json({ error: limit });
+            return;
+        }
+
+        res.json({
+            ...ingestion.quarantine.getStatus(),
+            packets: ingestion.quarantine.getPackets({ source, limit })
+        });
+    });
+
+    app.delete("/quarantine", (req, res) => {
+        res.json({ success: true, cleared: ingestion.quarantine.clear() });
+    });
+
+    // Stress test mode endpoint
+    app.post("/stress-mode/:mode", (req, res) => {
+        if (stressModes.activate(req.params.mode)) {
+            io.emit("stressModeChanged", stressModeEvent());
+            res.json({
+                success: true,
+                ...stressModeEvent()
+            });
+        } else {
+            res.status(400).json({
+                error: "Invalid stress mode",
+                availableModes: stressModes.list().map(mode => mode.id)
+            });
+        }
+    });
+
+    // Stress mode CRUD, persisted to the stress modes file
+    app.get("/stress-modes", (req, res) => {
+        res.json({ active: stressModes.getStatus(), modes: stressModes.list() });
+    });
+
+    app.get("/stress-modes/:id", (req, res) => {
+        const mode = stressModes.get(req.params.id);
+        if (!mode) {
+            res.status(404).json({ error: `No stress mode with id ${req.params.id}` });
+            return;
+        }
+        res.json(mode);
+    });
+
+    app.post("/stress-modes", (req, res) => {
+        const mode = parseStressMode(req.body);
+        if (typeof mode === 'string') {
+            res.status(400).json({ error: mode });
+            return;
+        }
+        if (stressModes.get(mode.id)) {
+            res.status(409).json({ error: `Stress mode ${mode.id} already exists` });
+            return;
+        }
+
+        stressModes.save(mode);
+        io.emit("stressModes", stressModes.list());
+        res.status(201).json(mode);
+    });
+
+    app.put("/stress-modes/:id", (req, res) => {
+        if (!stressModes.get(req.params.id)) {
+            res.status(404).json({ error: `No stress mode with id ${req.params.id}` });
+            return;
+        }
+
+        const mode = parseStressMode(req.body, req.params.id);
+        if (typeof mode === 'string') {
+            res.status(400).json({ error: mode });
+            return;
+        }
+
+        stressModes.save(mode);
+        io.emit("stressModes", stressModes.list());
+        io.emit("stressModeChanged", stressModeEvent());
+        res.json(mode);
+    });
+
+    app.delete("/stress-modes/:id", (req, res) => {
+        if (!stressModes.get(req.params.id)) {
+            res.status(404).json({ error: `No stress mode with id ${req.params.id}` });
+            return;
+        }
+        if (!stressModes.delete(req.params.id)) {
+            res.status(409).json({ error: 'The last stress mode cannot be deleted' });
+            return;
+        }
+
+        io.emit("stressModes", stressModes.list());
+        io.emit("stressModeChanged", stressModeEvent());
+        res.json({ success: true, id: req.params.id });
+    });
+
+    app.get("/health", (req, res) => {
+        const { isRunning, isPaused } = simulator.getStatus();
+        res.json({
+            status: "Server is running",
+            timestamp: new Date().toISOString(),
+            performance: getPerformanceMetrics(),
+            kafkaReady: true,
+            transport: transport.kind,
+            simulator: {
+                isRunning,
+                isPaused
+            }
+        });
+    });
+
+    // Who the caller is and what they may do
+    app.get("/auth/session", (req, res) => {
+        res.json({ authEnabled: auth.isEnabled(), ...res.locals.auth });
+    });
+
+    // Operators mint signed tokens, e.g. short-lived viewer tokens for wall displays
+    app.post("/auth/token", (req, res) => {
+        const { subject, role = 'viewer', ttlSeconds = 3600 } = req.body || {};
+        if (typeof subject !== 'string' || !subject.trim()) {
+            res.status(400).json({ error: 'subject is required' });
+            return;
+        }
+        if (!ROLES.includes(role)) {
+            res.status(400).json({ error: `role must be one of ${ROLES.join(', ')}` });
+            return;
+        }
+        if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > MAX_TOKEN_TTL_SECONDS) {
+            res.status(400).json({ error: `ttlSeconds must be an integer between 1 and ${MAX_TOKEN_TTL_SECONDS}` });
+            return;
+        }
+
+        try {
+            res.status(201).json({ subject, role, ...auth.issueToken(subject.trim(), role, ttlSeconds) });
+        } catch (error) {
+            res.status(400).json({ error: (error as Error).message });
+        }
+    });
+
+    // Socket.IO handshake: credentials come in `auth.token` (or an Authorization header from non-browser clients)
+    const authenticateSocket = (socket: Socket, next: (err?: Error) => void) => {
+        const header = socket.handshake.headers.authorization;
+        const credential = socket.handshake.auth?.token
+            || (header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined);
+        const context = auth.authenticate(typeof credential === 'string' ? credential : undefined);
+        if (!context) {
+            next(new Error('Authentication required'));
+            return;
+        }
+        socket.data.auth = context;
+        next();
+    };
+    io.use(authenticateSocket);
+
+    // WebSocket ingestion: sources connect to the /ingest namespace with operator credentials and emit `telemetry`
+    // with a sample, an array of samples, or a binary packet; an acknowledgement callback gets the ingest report
+    const ingestNamespace = io.of('/ingest');
+    ingestNamespace.use((socket, next) => authenticateSocket(socket, error => {
+        next(error ?? (hasRole(socket.data.auth, 'operator') ? undefined : new Error('Operator role required')));
+    }));
+
+    ingestNamespace.on("connection", (socket) => {
+        // `auth.source` names the source so it keeps one connection entry across reconnects
+        const name = socket.handshake.auth?.source;
+        const source: PacketSource = {
+            connectionId: `ws:${typeof name === 'string' && SOURCE_NAME_PATTERN.test(name) ? name : socket.id}`,
+            protocol: 'websocket',
+            address: socket.handshake.address,
+            port: socket.request.socket.remotePort ?? 0,
+            listenerId: 'websocket',
+            label: 'ws /ingest'
+        };
+
+        socket.on("telemetry", (payload: unknown, ack?: unknown) => {
+            const reply = typeof ack === 'function' ? ack : () => {};
+            if (Array.isArray(payload) && payload.length > MAX_INGEST_BATCH) {
+                reply({ error: `At most ${MAX_INGEST_BATCH} samples per event` });
+                return;
+            }
+            reply(ingestion.ingestSamples(Array.isArray(payload) ? payload : [payload], source));
+        });
+
+        socket.on("disconnect", () => ingestion.endConnection(source.connectionId));
+    });
+
+    io.on("connection", (socket) => {
+        connectionsCount++;
+        console.log(`Client Connected: ${socket.id} - Total connections: ${connectionsCount}`);
+
+        const context: AuthContext = socket.data.auth;
+        const telemetryFormat = broadcaster.addClient(socket, context);
+        socket.emit("session", {
+            authEnabled: auth.isEnabled(),
+            role: context.role,
+            subject: context.subject,
+            telemetryFormat,
+            ...(telemetryFormat !== 'message' && { batchIntervalMs: options.batchIntervalMs })
+        });
+
+        // Control events are ignored for viewers, who get a commandError back instead
+        const onCommand = <Args extends unknown[]>(event: string, handler: (...args: Args) => void) => {
+            socket.on(event, (...args: unknown[]) => {
+                if (!hasRole(context, 'operator')) {
+                    socket.emit("commandError", { event, error: 'Operator role required', role: context.role });
+                    return;
+                }
+                handler(...(args as Args));
+            });
+        };
+
+        // Send current performance metrics and connections to new client
+        socket.emit("performanceMetrics", getPerformanceMetrics());
+        socket.emit("udpConnections", Array.from(udpConnections.values()));
+        socket.emit("simulatorStatus", getSimulatorStatus());
+        socket.emit("scenarios", scenarios.map(summarizeScenario));
+        socket.emit("stressModes", stressModes.list());
+        socket.emit("stressModeChanged", stressModeEvent());
+
+        socket.on("disconnect", () => {
+            broadcaster.removeClient(socket.id);
+            connectionsCount--;
+            console.log(`Client Disconnected: ${socket.id} - Total connections: ${connectionsCount}`);
+        });
+
+        // Clients choose how they want to be throttled when they cannot keep up
+        socket.emit("deliveryPolicy", delivery.getPolicy(socket.id));
+        socket.on("setDeliveryPolicy", (input: unknown) => {
+            const policy = parseDeliveryPolicy(input, delivery.getPolicy(socket.id) ?? delivery.getDefaultPolicy());
+            if (typeof policy === 'string') {
+                socket.emit("commandError", { event: "setDeliveryPolicy", error: policy });
+                return;
+            }
+            delivery.setPolicy(socket.id, policy);
+            socket.emit("deliveryPolicy", policy);
+        });
+
+        // Allow clients to change stress test mode
+        onCommand("changeStressMode", (mode: string) => {
+            if (typeof mode === 'string' && stressModes.activate(mode)) {
+                io.emit("stressModeChanged", stressModeEvent());
+            }
+        });
+
+        onCommand("changeFaults", (input: unknown) => {
+            const config = parseFaultConfig(input, faults.getStatus().config);
+            if (typeof config === 'string') {
+                socket.emit("commandError", { event: "changeFaults", error: config });
+                return;
+            }
+            faults.configure(config);
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        onCommand("clearFaults", () => {
+            faults.clear();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        onCommand("changeScenario", (id: string) => {
+            if (typeof id === 'string' && simulator.setScenario(id)) {
+                io.emit("simulatorStatus", getSimulatorStatus());
+            }
+        });
+
+        // Clock sync: clients estimate their offset from the server time and round trip
+        socket.on("latencyPing", (clientTime: number, ack?: (pong: { clientTime: number; serverTime: number }) => void) => {
+            if (typeof ack === 'function') {
+                ack({ clientTime, serverTime: Date.now() });
+            }
+        });
+
+        /*
+         * Clients report clock-corrected emit-to-render and end-to-end latencies in batches. Viewers may
+         * report too, since every dashboard measures what it receives itself; the per-report and per-second
+         * caps keep any one client from flooding the histograms.
+         */
+        let lastLatencyReport = -Infinity;
+        socket.on("latencyReport", (report: Partial<Record<LatencyStage, number[]>>) => {
+            const now = Date.now();
+            if (now - lastLatencyReport < MIN_LATENCY_REPORT_INTERVAL_MS) return;
+            lastLatencyReport = now;
+
+            for (const stage of CLIENT_LATENCY_STAGES) {
+                const samples = report?.[stage];
+                if (!Array.isArray(samples)) continue;
+                for (const sample of samples.slice(0, MAX_LATENCY_REPORT_SAMPLES)) {
+                    if (typeof sample === 'number') latency.record(stage, sample);
+                }
+            }
+        });
+
+        socket.emit("activeAlerts", alerts.getActive());
+
+        onCommand("acknowledgeAlert", (alertId: string) => {
+            alerts.acknowledge(alertId, context.subject);
+        });
+
+        // Vehicle subscriptions: clients receive every vehicle until they pick specific ones
+        socket.emit("vehicles", Array.from(vehicles.values()));
+
+        socket.on("subscribeVehicles", (vehicleIds: string[]) => {
+            if (!Array.isArray(vehicleIds)) return;
+            broadcaster.subscribe(socket, vehicleIds);
+        });
+
+        socket.on("subscribeAllVehicles", () => {
+            broadcaster.subscribeAll(socket);
+        });
+
+        onCommand("changeFleetSize", (size: number) => {
+            if (Number.isInteger(size) && size >= 1 && size <= MAX_FLEET_SIZE) {
+                simulator.setFleetSize(size);
+                io.emit("simulatorStatus", getSimulatorStatus());
+            }
+        });
+
+        onCommand("changePacketFormat", (format: PacketFormat) => {
+            if (PACKET_FORMATS.includes(format)) {
+                simulator.setPacketFormat(format);
+                io.emit("simulatorStatus", getSimulatorStatus());
+            }
+        });
+
+        // Simulator controls via socket
+        onCommand("simulatorStart", () => {
+            simulator.start();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        onCommand("simulatorStop", () => {
+            simulator.stop();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        onCommand("simulatorPause", () => {
+            simulator.pause();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        onCommand("simulatorResume", () => {
+            simulator.resume();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        // Replay controls via socket
+        onCommand("replayPause", () => {
+            replayer.pause();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        onCommand("replayResume", () => {
+            replayer.resume();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+
+        onCommand("replayStop", () => {
+            replayer.stop();
+            io.emit("simulatorStatus", getSimulatorStatus());
+        });
+    });
+
+    // Performance monitoring loop
+    const monitor = () => {
+        memoryUsage = process.memoryUsage().heapUsed;
+        eventLoop.sample();
+
+        // Broadcast performance metrics and connections to all clients
+        io.emit("performanceUpdate", getPerformanceMetrics());
+        io.emit("udpConnections", Array.from(udpConnections.values()));
+        io.emit("vehicles", Array.from(vehicles.values()));
+        // Keep progress and injected fault counts current on the dashboard
+        if (replayer.getStatus().isRunning || faults.getStatus().enabled) {
+            io.emit("simulatorStatus", getSimulatorStatus());
+        }
+        const stressStatus = stressModes.getStatus();
+        if (stressStatus.schedule && !stressStatus.schedule.complete) {
+            io.emit("stressModeChanged", stressModeEvent());
+        }
+
+        delivery.disconnectSlowClients();
+        ingestion.expireConnections(CONNECTION_IDLE_MS);
+    };
+
+    const stop = async () => {
+        clearInterval(monitoringLoop);
+        clearTimeout(simulatorStartup);
+        simulator.stop();
+        await replayer.stop();
+        broadcaster.stop();
+        // Disconnects every client and closes the HTTP server
+        await new Promise<void>(resolve => io.close(() => resolve()));
+        await transport.stop();
+        await mqtt?.stop();
+        await ingestion.stop();
+        eventLoop.stop();
+    };
+
+    return {
+        app,
+        io,
+        ingestion,
+        simulator,
+        broadcaster,
+        mqtt,
+
+        async start() {
+            try {
+                alerts.persist();
+                stressModes.persist();
+                // Without its transport or MQTT bridge the server would look healthy while dropping telemetry
+                await transport.start(handleTelemetry).catch(error => {
+                    console.error(`Failed to start ${transport.kind} transport`);
+                    throw error;
+                });
+
+                const listeners = await ingestion.start();
+                await mqtt?.start().catch(error => {
+                    console.error('Failed to start MQTT bridge');
+                    throw error;
+                });
+                if (options.simulator.targetPort === undefined && listeners.length > 0) {
+                    udpPort = listeners[0].config.port;
+                    simulator.setTarget(udpPort);
+                }
+
+                broadcaster.start();
+                eventLoop.start();
+                monitoringLoop = setInterval(monitor, 5000); // Every 5 seconds
+
+                if (options.simulator.autoStart) {
+                    simulatorStartup = setTimeout(() => {
+                        simulator.start();
+                        console.log(`Started UDP Telemetry Simulator: ${new Date().toISOString()}`);
+                        console.log(`Initial stress mode: ${stressModes.getStatus().mode.id}`);
+                    }, options.simulator.startDelayMs);
+                }
+
+                await new Promise<void>((resolve, reject) => {
+                    server.once('error', reject);
+                    server.listen(options.port, () => {
+                        server.off('error', reject);
+                        resolve();
+                    });
+                });
+                const { port } = server.address() as AddressInfo;
+                console.log(`Server is running on port ${port}`);
+                console.log(`WebSocket server is running (Kafka-ready architecture)`);
+                console.log(`Performance metrics available at: http://localhost:${port}/metrics`);
+                console.log(`UDP connections info at: http://localhost:${port}/udp/connections`);
+                console.log(`HTTP ingestion at: http://localhost:${port}/ingest (WebSocket namespace /ingest)`);
+                return { port };
+            } catch (error) {
+                await stop();
+                throw error;
+            }
+        },
+
+        stop,
+
+        onTelemetry(listener) {
+            telemetryListeners.add(listener);
+            return () => telemetryListeners.delete(listener);
+        },
+
+        onConnectionChange(listener) {
+            connectionListeners.add(listener);
+            return () => connectionListeners.delete(listener);
+        }
+    };
+}
@@ -0,0 +1,232 @@
+import * as dgram from 'dgram';
+import { FlightTelemetry } from './types';
+import { PacketFormat, encodeBinaryTelemetry } from './binaryCodec';
+import { SimulatedAircraft, advanceAircraft, createFleet, fleetVehicleId } from './fleetSimulator';
+import {
+    Scenario,
+    ScenarioFlight,
+    ScenarioFlightStatus,
+    advanceScenarioFlight,
+    createScenarioFlight,
+    getScenarioFlightStatus
+} from './scenarioEngine';
+import { StressModes } from './stressModes';
+import { FaultInjector } from './faultInjector';
+
+export const PACKET_FORMATS: PacketFormat[] = ['json', 'binary'];
+
+// Seconds between the start of consecutive fleet aircraft flying the same scenario
+const SCENARIO_STAGGER_SECONDS = 120;
+
+export interface SimulatorOptions {
+    targetPort: number;
+    targetHost?: string;
+    packetFormat: PacketFormat;
+    // A fleet size of 1 is the classic single-aircraft stream
+    fleetSize: number;
+    scenarios: Scenario[];
+    // Paces the send loop
+    stressModes: StressModes;
+    // Applied to every packet before it is sent
+    faults: FaultInjector;
+}
+
+export interface SimulatorStatus {
+    isRunning: boolean;
+    isPaused: boolean;
+    packetFormat: PacketFormat;
+    fleetSize: number;
+    // Address the backend sees the simulator's packets coming from, once its socket is bound
+    sourceConnection?: string;
+}
+
+export interface ScenarioStatus {
+    id: string;
+    name: string;
+    flights: ScenarioFlightStatus[];
+}
+
+/*
+ * UDP telemetry simulator: sends generated, fleet or scripted scenario telemetry to the ingestion
+ * port at the rate of the active stress mode. The socket is opened on start and closed on stop.
+ */
+export interface Simulator {
+    start(): void;
+    stop(): void;
+    pause(): void;
+    resume(): void;
+    // A fleet size of 1 falls back to the classic single-aircraft stream
+    setFleetSize(size: number): void;
+    // "none" goes back to the generated telemetry; returns false for an unknown scenario
+    setScenario(id: string): boolean;
+    setPacketFormat(format: PacketFormat): void;
+    setTarget(port: number, host?: string): void;
+    getScenario(): Scenario | null;
+    getScenarioStatus(): ScenarioStatus | null;
+    getStatus(): SimulatorStatus;
+}
+
+export function createSimulator(options: SimulatorOptions): Simulator {
+    const { scenarios, stressModes, faults } = options;
+    const createdAt = Date.now();
+    let targetPort = options.targetPort;
+    let targetHost = options.targetHost || 'localhost';
+    let isRunning = false;
+    let isPaused = false;
+    let packetFormat = options.packetFormat;
+    let sequence = 0;
+    // Independent aircraft flown in fleet mode; empty for the single-aircraft stream
+    let fleet: SimulatedAircraft[] = options.fleetSize > 1 ? createFleet(options.fleetSize) : [];
+    // Scripted flight profile replacing the generated motion, null for the legacy generator
+    let scenario: Scenario | null = null;
+    let scenarioFlights: ScenarioFlight[] = [];
+    let client: dgram.Socket | null = null;
+    let sourceConnection: string | undefined;
+    let timer: NodeJS.Timeout | undefined;
+
+    const generateRealisticTelemetryData = (): FlightTelemetry => {
+        const baseSpeed = 450 + Math.sin(Date.now() / 10000) * 100;
+        const turbulence = (Math.random() - 0.5) * 50;
+
+        return {
+            vehicleId: fleetVehicleId(0),
+            timestamp: new Date().toISOString(),
+            altitude: 35000 + Math.sin(Date.now() / 20000) * 5000 + (Math.random() - 0.5) * 1000,
+            speedX: baseSpeed + turbulence + (Math.random() - 0.5) * 30,
+            speedY: baseSpeed * 0.8 + turbulence + (Math.random() - 0.5) * 25,
+            speedZ: baseSpeed * 0.6 + turbulence + (Math.random() - 0.5) * 20,
+            heading: (Date.now() / 1000) % 360,
+            latitude: 40.7128 + Math.sin(Date.now() / 50000) * 0.1,
+            longitude: -74.0060 + Math.cos(Date.now() / 50000) * 0.1,
+            battery_percentage: Math.max(0, 100 - (Date.now() - createdAt) / 100000),
+            temperature: 15 + Math.sin(Date.now() / 30000) * 10 + (Math.random() - 0.5) * 5
+        };
+    };
+
+    // Every aircraft flies the same profile, each a little further along it
+    const createScenarioFlights = (profile: Scenario, size: number): ScenarioFlight[] =>
+        Array.from({ length: size }, (_, i) =>
+            createScenarioFlight(profile, fleetVehicleId(i), i * SCENARIO_STAGGER_SECONDS)
+        );
+
+    const sendData = () => {
+        timer = undefined;
+        if (!isRunning || isPaused || !client) return;
+
+        const samples = scenarioFlights.length > 0
+            ? scenarioFlights.map(flight => advanceScenarioFlight(flight))
+            : fleet.length > 0
+                ? fleet.map(aircraft => advanceAircraft(aircraft))
+                : [generateRealisticTelemetryData()];
+
+        // One sequence counter for the whole socket, since loss is tracked per source connection
+        for (const data of samples) {
+            const packetSequence = sequence++;
+            const message = packetFormat === 'binary'
+                ? encodeBinaryTelemetry(data, packetSequence)
+                : Buffer.from(JSON.stringify({ ...data, sequence: packetSequence }));
+
+            // A packet held back for reordering goes out on whichever socket is open when it is released
+            faults.inject(message, packet => client?.send(packet, targetPort, targetHost, (err) => {
+                if (err) {
+                    console.error('Error sending UDP message:', err);
+                }
+            }));
+        }
+
+        timer = setTimeout(sendData, stressModes.nextSendDelay());
+    };
+
+    const stop = () => {
+        isRunning = false;
+        isPaused = false;
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+        client?.close();
+        client = null;
+        sourceConnection = undefined;
+        faults.reset();
+    };
+
+    return {
+        stop,
+
+        start() {
+            if (isRunning) return;
+
+            const socket = dgram.createSocket('udp4');
+            socket.on('listening', () => {
+                sourceConnection = `127.0.0.1:${socket.address().port}`;
+            });
+            socket.on('error', (err) => {
+                console.error('UDP simulator socket error:', err);
+            });
+            client = socket;
+            isRunning = true;
+            isPaused = false;
+            sendData();
+        },
+
+        pause() {
+            isPaused = true;
+        },
+
+        // Restarts the sending loop, which stops scheduling itself while paused
+        resume() {
+            if (!isRunning || !isPaused) return;
+            isPaused = false;
+            if (!timer) sendData();
+        },
+
+        setFleetSize(size) {
+            fleet = size > 1 ? createFleet(size) : [];
+            if (scenario) {
+                scenarioFlights = createScenarioFlights(scenario, size);
+            }
+        },
+
+        setScenario(id) {
+            if (id === 'none') {
+                scenario = null;
+                scenarioFlights = [];
+                return true;
+            }
+
+            const match = scenarios.find(candidate => candidate.id === id);
+            if (!match) return false;
+
+            scenario = match;
+            scenarioFlights = createScenarioFlights(match, Math.max(1, fleet.length));
+            return true;
+        },
+
+        setPacketFormat(format) {
+            packetFormat = format;
+        },
+
+        setTarget(port, host) {
+            targetPort = port;
+            if (host) targetHost = host;
+        },
+
+        getScenario() {
+            return scenario;
+        },
+
+        getScenarioStatus() {
+            return scenario
+                ? { id: scenario.id, name: scenario.name, flights: scenarioFlights.map(getScenarioFlightStatus) }
+                : null;
+        },
+
+        getStatus() {
+            return {
+                isRunning,
+                isPaused,
+                packetFormat,
+                fleetSize: Math.max(1, fleet.length),
+                ...(sourceConnection && { sourceConnection })
+            };
+        }
+    };
+}
@@ -0,0 +1,255 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/*
+ * Stress modes set how often the simulator sends: a base `interval` plus up to `jitter` ms of random
+ * delay. A mode can carry a load schedule whose stages move the interval over time, either jumping
+ * to each stage's interval (step) or sliding to it linearly over the stage (ramp). After the last
+ * stage the final interval is held, or the schedule starts over when `repeat` is set.
+ */
+export interface ScheduleStage {
+    // Interval reached by the end of the stage, in ms
+    interval: number;
+    durationMs: number;
+    ramp: boolean;
+}
+
+export interface LoadSchedule {
+    stages: ScheduleStage[];
+    repeat: boolean;
+}
+
+export interface StressMode {
+    id: string;
+    label: string;
+    description?: string;
+    interval: number;
+    jitter: number;
+    schedule?: LoadSchedule;
+}
+
+export interface StressModeStatus {
+    mode: StressMode;
+    startedAt: string;
+    // Interval the simulator is sending at right now
+    currentInterval: number;
+    schedule: {
+        elapsedMs: number;
+        stageIndex: number;
+        totalMs: number;
+        complete: boolean;
+    } | null;
+}
+
+const MIN_INTERVAL_MS = 1;
+const MAX_INTERVAL_MS = 60000;
+const ID_PATTERN = /^[a-z0-9_-]{1,64}$/;
+
+const DEFAULT_MODES: StressMode[] = [
+    { id: 'normal', label: 'Normal', interval: 200, jitter: 0 },
+    { id: 'high_frequency', label: 'High Freq', interval: 50, jitter: 10 },
+    { id: 'burst', label: 'Burst', interval: 20, jitter: 50 },
+    { id: 'variable', label: 'Variable', interval: 100, jitter: 100 },
+    { id: 'kafka_simulation', label: 'Kafka Sim', interval: 30, jitter: 20 },
+    {
+        id: 'ramp_to_10ms',
+        label: 'Ramp 200→10ms',
+        description: 'Slides from 200ms to 10ms over 5 minutes, then holds',
+        interval: 200,
+        jitter: 0,
+        schedule: { stages: [{ interval: 10, durationMs: 5 * 60 * 1000, ramp: true }], repeat: false }
+    },
+    {
+        id: 'step_down',
+        label: 'Step Down',
+        description: 'Halves the interval every minute from 200ms down to 12ms, then starts over',
+        interval: 200,
+        jitter: 0,
+        schedule: {
+            stages: [100, 50, 25, 12].map(interval => ({ interval, durationMs: 60 * 1000, ramp: false })),
+            repeat: true
+        }
+    }
+];
+
+export interface StressModes {
+    list(): StressMode[];
+    get(id: string): StressMode | undefined;
+    // Saving the active mode restarts its schedule
+    save(mode: StressMode): void;
+    // The last remaining mode cannot be removed; removing the active one activates the first left
+    delete(id: string): boolean;
+    activate(id: string): boolean;
+    getStatus(now?: number): StressModeStatus;
+    // Delay before the next simulator send: the scheduled interval plus random jitter
+    nextSendDelay(now?: number): number;
+    // Writes the built-in modes out if the modes file did not exist yet
+    persist(): void;
+}
+
+const isInterval = (value: unknown): value is number =>
+    typeof value === 'number' && value >= MIN_INTERVAL_MS && value <= MAX_INTERVAL_MS;
+
+function parseSchedule(input: unknown): LoadSchedule | string {
+    const body = (input ?? {}) as Partial<Record<keyof LoadSchedule, unknown>>;
+    if (typeof input !== 'object' || !Array.isArray(body.stages) || body.stages.length === 0) {
+        return 'schedule.stages must be a non-empty array';
+    }
+
+    const stages: ScheduleStage[] = [];
+    for (const [index, entry] of body.stages.entries()) {
+        const stage: Partial<Record<keyof ScheduleStage, unknown>> = entry ?? {};
+        if (!isInterval(stage.interval)) return `schedule.stages[${index}].interval must be between ${MIN_INTERVAL_MS} and ${MAX_INTERVAL_MS} ms`;
+        if (typeof stage.durationMs !== 'number' || stage.durationMs <= 0) return `schedule.stages[${index}].durationMs must be a positive number`;
+        stages.push({ interval: stage.interval, durationMs: stage.durationMs, ramp: stage.ramp === true });
+    }
+    return { stages, repeat: body.repeat === true };
+}
+
+// Validates user input into a stress mode; returns an error message for bad input
+export function parseStressMode(input: unknown, id?: string): StressMode | string {
+    if (!input || typeof input !== 'object') return 'Stress mode body must be a JSON object';
+    const body = input as Partial<Record<keyof StressMode, unknown>>;
+    id ??= body.id as string;
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) return 'id must be 1-64 lowercase letters, digits, "_" or "-"';
+    if (!isInterval(body.interval)) return `interval must be between ${MIN_INTERVAL_MS} and ${MAX_INTERVAL_MS} ms`;
+
+    const jitter = body.jitter ?? 0;
+    if (typeof jitter !== 'number' || jitter < 0 || jitter > MAX_INTERVAL_MS) return 'jitter must be a non-negative number of ms';
+
+    const schedule = body.schedule === undefined || body.schedule === null ? undefined : parseSchedule(body.schedule);
+    if (typeof schedule === 'string') return schedule;
+
+    return {
+        id,
+        label: typeof body.label === 'string' && body.label.trim() ? body.label.trim() : id,
+        ...(typeof body.description === 'string' && { description: body.description }),
+        interval: body.interval,
+        jitter,
+        ...(schedule && { schedule })
+    };
+}
+
+function scheduleProgress(mode: StressMode, elapsed: number) {
+    const { stages, repeat } = mode.schedule!;
+    const totalMs = stages.reduce((sum, stage) => sum + stage.durationMs, 0);
+    const complete = !repeat && elapsed >= totalMs;
+    let remaining = repeat ? elapsed % totalMs : elapsed;
+    let from = mode.interval;
+
+    for (const [stageIndex, stage] of stages.entries()) {
+        if (remaining < stage.durationMs) {
+            const interval = stage.ramp ? from + (stage.interval - from) * (remaining / stage.durationMs) : stage.interval;
+            return { interval, stageIndex, totalMs, complete };
+        }
+        remaining -= stage.durationMs;
+        from = stage.interval;
+    }
+    return { interval: from, stageIndex: stages.length - 1, totalMs, complete };
+}
+
+// Reads the modes file, skipping entries that don't parse as a stress mode; throws when it isn't a JSON array
+function loadStressModes(file: string): StressMode[] {
+    let stored: unknown;
+    try {
+        stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new Error(`Stress modes file ${file} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(stored)) throw new Error(`Stress modes file ${file} must contain a JSON array`);
+
+    const modes: StressMode[] = [];
+    for (const [index, entry] of stored.entries()) {
+        const mode = parseStressMode(entry);
+        if (typeof mode === 'string') {
+            console.warn(`Skipping stress mode ${index} in ${file}: ${mode}`);
+            continue;
+        }
+        modes.push(mode);
+    }
+    return modes;
+}
+
+// Modes are loaded from `file`; if it does not exist yet the built-in modes are used and written out by persist()
+export function createStressModes(file: string): StressModes {
+    const modesFile = path.resolve(file);
+    let modes: Map<string, StressMode>;
+    let activeId = 'normal';
+    let activatedAt = Date.now();
+
+    const saveStressModes = () => {
+        fs.mkdirSync(path.dirname(modesFile), { recursive: true });
+        fs.writeFileSync(modesFile, JSON.stringify(Array.from(modes.values()), null, 2));
+    };
+
+    const loaded = fs.existsSync(modesFile);
+    const stored = loaded ? loadStressModes(modesFile) : [];
+    if (loaded && stored.length === 0) console.warn(`No valid stress modes in ${modesFile}, using the built-in ones`);
+    modes = new Map((stored.length > 0 ? stored : DEFAULT_MODES).map(mode => [mode.id, mode]));
+
+    if (!modes.has(activeId)) {
+        activeId = modes.keys().next().value ?? 'normal';
+    }
+
+    const activate = (id: string): boolean => {
+        if (!modes.has(id)) return false;
+
+        activeId = id;
+        activatedAt = Date.now();
+        return true;
+    };
+
+    return {
+        activate,
+
+        list() {
+            return Array.from(modes.values());
+        },
+
+        get(id) {
+            return modes.get(id);
+        },
+
+        save(mode) {
+            modes.set(mode.id, mode);
+            if (mode.id === activeId) activatedAt = Date.now();
+            saveStressModes();
+        },
+
+        delete(id) {
+            if (!modes.has(id) || modes.size === 1) return false;
+
+            modes.delete(id);
+            if (id === activeId) activate(modes.keys().next().value!);
+            saveStressModes();
+            return true;
+        },
+
+        getStatus(now = Date.now()) {
+            const mode = modes.get(activeId)!;
+            const elapsedMs = now - activatedAt;
+
+            if (!mode.schedule) {
+                return { mode, startedAt: new Date(activatedAt).toISOString(), currentInterval: mode.interval, schedule: null };
+            }
+
+            const { interval, stageIndex, totalMs, complete } = scheduleProgress(mode, elapsedMs);
+            return {
+                mode,
+                startedAt: new Date(activatedAt).toISOString(),
+                currentInterval: Math.round(interval * 10) / 10,
+                schedule: { elapsedMs, stageIndex, totalMs, complete }
+            };
+        },
+
+        nextSendDelay(now = Date.now()) {
+            const mode = modes.get(activeId)!;
+            const interval = mode.schedule ? scheduleProgress(mode, now - activatedAt).interval : mode.interval;
+            return interval + Math.random() * mode.jitter;
+        },
+
+        persist() {
+            if (!loaded && !fs.existsSync(modesFile)) saveStressModes();
+        }
+    };
+}
@@ -0,0 +1,181 @@
+import * as net from 'net';
+import { SourceConnection } from './types';
+
+/*
+ * TCP ingestion with length-prefixed framing: each packet (JSON or binary, as sent over UDP) is
+ * preceded by its length as a 4-byte big-endian unsigned integer, and a client can send any number
+ * of frames over one connection. An empty frame or one over MAX_FRAME_BYTES is a framing error that
+ * closes the connection, since the stream can't be resynchronised after it.
+ */
+export interface TCPListenerConfig {
+    port: number;
+    address: string;
+    label: string;
+}
+
+export interface TCPListener {
+    id: string;
+    config: TCPListenerConfig;
+    server: net.Server;
+    openedAt: string;
+    // Connected clients keyed by their connection id
+    clients: Map<string, net.Socket>;
+}
+
+// A connected client; `id` is its source connection id
+export interface TCPClient {
+    id: string;
+    address: string;
+    port: number;
+}
+
+export interface TCPListenerHandlers {
+    onFrame(frame: Buffer, client: TCPClient, listener: TCPListener): void;
+    onDisconnect(client: TCPClient, listener: TCPListener): void;
+}
+
+export interface TCPListeners {
+    open(config: Partial<TCPListenerConfig> & { port: number }): Promise<TCPListener>;
+    // Disconnects the listener's clients; resolves false when no listener has that id
+    close(id: string): Promise<boolean>;
+    closeAll(): Promise<void>;
+    list(): TCPListener[];
+}
+
+const DEFAULT_BIND_ADDRESS = '0.0.0.0';
+const LENGTH_PREFIX_BYTES = 4;
+export const MAX_FRAME_BYTES = 64 * 1024;
+
+// Prefixed so TCP listeners and clients never share an id with UDP ones on the same address and port
+export function tcpConnectionId(address: string, port: number): string {
+    return `tcp:${address}:${port}`;
+}
+
+// Listeners record themselves in `connections` (status "listening") while they are open
+export function createTCPListeners(connections: Map<string, SourceConnection>, handlers: TCPListenerHandlers): TCPListeners {
+    // Open listeners keyed by "tcp:address:port"
+    const listeners: Map<string, TCPListener> = new Map();
+
+    const acceptClient = (listener: TCPListener, socket: net.Socket) => {
+        const client: TCPClient = {
+            id: tcpConnectionId(socket.remoteAddress ?? 'unknown', socket.remotePort ?? 0),
+            address: socket.remoteAddress ?? 'unknown',
+            port: socket.remotePort ?? 0
+        };
+        listener.clients.set(client.id, socket);
+        let buffered = Buffer.alloc(0);
+
+        socket.on('data', chunk => {
+            buffered = Buffer.concat([buffered, chunk]);
+            while (buffered.length >= LENGTH_PREFIX_BYTES) {
+                const length = buffered.readUInt32BE(0);
+                if (length === 0 || length > MAX_FRAME_BYTES) {
+                    console.error(`TCP client ${client.id} sent a ${length} byte frame (1-${MAX_FRAME_BYTES} allowed), disconnecting`);
+                    socket.destroy();
+                    return;
+                }
+                if (buffered.length < LENGTH_PREFIX_BYTES + length) return;
+
+                const frame = buffered.subarray(LENGTH_PREFIX_BYTES, LENGTH_PREFIX_BYTES + length);
+                buffered = buffered.subarray(LENGTH_PREFIX_BYTES + length);
+
+                const entry = connections.get(listener.id);
+                if (entry) {
+                    entry.messagesReceived++;
+                    entry.lastActivity = new Date().toISOString();
+                }
+                handlers.onFrame(frame, client, listener);
+            }
+        });
+
+        socket.on('error', (err) => {
+            console.error(`TCP client ${client.id} error:`, err.message);
+        });
+
+        socket.on('close', () => {
+            listener.clients.delete(client.id);
+            handlers.onDisconnect(client, listener);
+        });
+    };
+
+    const close = (id: string): Promise<boolean> => {
+        const listener = listeners.get(id);
+        if (!listener) return Promise.resolve(false);
+
+        listeners.delete(id);
+        connections.delete(id);
+
+        return new Promise(resolve => {
+            listener.server.close(() => {
+                console.log(`TCP listener "${listener.config.label}" on ${id} closed`);
+                resolve(true);
+            });
+            // The server only finishes closing once its clients are gone
+            for (const socket of listener.clients.values()) socket.destroy();
+        });
+    };
+
+    return {
+        close,
+
+        // Port 0 binds an ephemeral port; the listener's id and config carry the port actually bound
+        open(config) {
+            const address = config.address || DEFAULT_BIND_ADDRESS;
+
+            if (config.port !== 0 && listeners.has(tcpConnectionId(address, config.port))) {
+                return Promise.reject(new Error(`TCP listener ${tcpConnectionId(address, config.port)} is already open`));
+            }
+
+            const listener: TCPListener = {
+                id: tcpConnectionId(address, config.port),
+                config: { port: config.port, address, label: config.label || `tcp-${config.port}` },
+                server: net.createServer(socket => acceptClient(listener, socket)),
+                openedAt: new Date().toISOString(),
+                clients: new Map()
+            };
+
+            return new Promise((resolve, reject) => {
+                listener.server.once('error', reject);
+
+                listener.server.listen(config.port, address, () => {
+                    listener.server.off('error', reject);
+                    listener.server.on('error', (err) => {
+                        console.error(`TCP listener ${listener.config.label} (${listener.id}) error:`, err);
+                    });
+
+                    const { port } = listener.server.address() as net.AddressInfo;
+                    listener.id = tcpConnectionId(address, port);
+                    listener.config.port = port;
+                    if (!config.label) listener.config.label = `tcp-${port}`;
+
+                    listeners.set(listener.id, listener);
+                    connections.set(listener.id, {
+                        id: listener.id,
+                        protocol: 'tcp',
+                        address,
+                        port,
+                        status: 'listening',
+                        lastActivity: new Date().toISOString(),
+                        messagesReceived: 0,
+                        messagesRejected: 0,
+                        messagesSent: 0,
+                        messagesDropped: 0,
+                        rejectionReasons: {},
+                        label: listener.config.label
+                    });
+
+                    console.log(`TCP listener "${listener.config.label}" listening on ${address}:${port}`);
+                    resolve(listener);
+                });
+            });
+        },
+
+        async closeAll() {
+            await Promise.all(Array.from(listeners.keys()).map(close));
+        },
+
+        list() {
+            return Array.from(listeners.values());
+        }
+    };
+}
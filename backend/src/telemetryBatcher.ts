@@ -0,0 +1,161 @@
+import { encode } from '@msgpack/msgpack';
+import { TelemetryMessage } from './types';
+import { DERIVED_CHANNELS } from './derivedChannels';
+
+/*
+ * Columnar telemetry batches for clients that ask for them in the handshake. Instead of one
+ * `telemetryData` object per packet, each client's messages are collected and sent every tick as a
+ * `telemetryBatch` with one array per field:
+ *   - json:    plain arrays
+ *   - typed:   numeric columns as little-endian Float64Array buffers (Socket.IO binary attachments)
+ *   - msgpack: the json batch encoded with MessagePack into a single buffer
+ * Clients that don't negotiate a format keep getting per-message `telemetryData` events.
+ */
+export type BatchFormat = 'json' | 'typed' | 'msgpack';
+
+export const BATCH_FORMATS: BatchFormat[] = ['json', 'typed', 'msgpack'];
+
+const MESSAGE_COLUMNS = [
+    'messageId',
+    'timestamp',
+    'receivedAt',
+    'processingLatency',
+    'altitude',
+    'speedX',
+    'speedY',
+    'speedZ',
+    'heading',
+    'latitude',
+    'longitude',
+    'temperature',
+    'battery_percentage'
+] as const;
+
+// Derived channels follow the message fields; values that aren't available yet are NaN (null in json)
+export const NUMERIC_COLUMNS = [...MESSAGE_COLUMNS, ...DERIVED_CHANNELS];
+
+export type NumericColumn = typeof NUMERIC_COLUMNS[number];
+
+export interface TelemetryBatch {
+    count: number;
+    // Server time the batch was sent, ms since epoch
+    emittedAt: number;
+    vehicleId: string[];
+    sourceConnection: string[];
+    // timestamp is ms since epoch rather than the ISO string of telemetryData
+    columns: Record<NumericColumn, number[]>;
+}
+
+export interface TelemetryBatcher {
+    addClient(id: string, format: BatchFormat): void;
+    removeClient(id: string): void;
+    getFormat(id: string): BatchFormat | undefined;
+    // Queues the message for the client; false if the client does not take batches
+    add(id: string, message: TelemetryMessage): boolean;
+    // Starts and stops the flush tick
+    start(): void;
+    stop(): void;
+}
+
+// Upper bound on queued messages per client between ticks; older ones are discarded first
+const MAX_PENDING_PER_CLIENT = 5000;
+
+export function buildBatch(messages: TelemetryMessage[], emittedAt: number): TelemetryBatch {
+    const columns = Object.fromEntries(NUMERIC_COLUMNS.map(column => [column, [] as number[]])) as Record<NumericColumn, number[]>;
+    const vehicleId: string[] = [];
+    const sourceConnection: string[] = [];
+
+    for (const message of messages) {
+        vehicleId.push(message.vehicleId);
+        sourceConnection.push(message.sourceConnection);
+        for (const column of MESSAGE_COLUMNS) {
+            switch (column) {
+                case 'timestamp': columns.timestamp.push(Date.parse(message.timestamp)); break;
+                case 'processingLatency': columns.processingLatency.push(emittedAt - message.receivedAt); break;
+                default: columns[column].push(message[column]);
+            }
+        }
+        for (const channel of DERIVED_CHANNELS) {
+            columns[channel].push(message.derived[channel] ?? NaN);
+        }
+    }
+    return { count: messages.length, emittedAt, vehicleId, sourceConnection, columns };
+}
+
+export function encodeBatch(batch: TelemetryBatch, format: BatchFormat): unknown {
+    switch (format) {
+        case 'json':
+            return batch;
+        case 'msgpack':
+            return Buffer.from(encode(batch));
+        case 'typed': {
+            const columns = Object.fromEntries(NUMERIC_COLUMNS.map(column =>
+                [column, Buffer.from(new Float64Array(batch.columns[column]).buffer)]
+            ));
+            return { ...batch, columns };
+        }
+    }
+}
+
+// Flushes every `intervalMs`; clients with identical pending messages and format share one encoded payload
+export function createTelemetryBatcher(
+    options: { intervalMs: number },
+    send: (socketIds: string[], payload: unknown) => void
+): TelemetryBatcher {
+    const clients: Map<string, { format: BatchFormat; pending: TelemetryMessage[] }> = new Map();
+
+    const flush = () => {
+        const emittedAt = Date.now();
+        const groups: Map<string, { format: BatchFormat; messages: TelemetryMessage[]; ids: string[] }> = new Map();
+
+        for (const [id, client] of clients) {
+            if (client.pending.length === 0) continue;
+            const key = `${client.format}:${client.pending.map(message => message.messageId).join(',')}`;
+            const group = groups.get(key);
+            if (group) {
+                group.ids.push(id);
+            } else {
+                groups.set(key, { format: client.format, messages: client.pending, ids: [id] });
+            }
+            client.pending = [];
+        }
+
+        for (const { format, messages, ids } of groups.values()) {
+            send(ids, encodeBatch(buildBatch(messages, emittedAt), format));
+        }
+    };
+
+    let timer: NodeJS.Timeout | undefined;
+
+    return {
+        addClient(id, format) {
+            clients.set(id, { format, pending: [] });
+        },
+
+        removeClient(id) {
+            clients.delete(id);
+        },
+
+        getFormat(id) {
+            return clients.get(id)?.format;
+        },
+
+        add(id, message) {
+            const client = clients.get(id);
+            if (!client) return false;
+
+            client.pending.push(message);
+            if (client.pending.length > MAX_PENDING_PER_CLIENT) client.pending.shift();
+            return true;
+        },
+
+        start() {
+            if (!timer) timer = setInterval(flush, options.intervalMs);
+        },
+
+        stop() {
+            clearInterval(timer);
+            timer = undefined;
+        }
+    };
+}
@@ -0,0 +1,278 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { FlightTelemetry } from './types';
+import { TELEMETRY_SCHEMA } from './validation';
+
+/*
+ * Append-only time-series store. Samples are written as NDJSON lines to segment files that
+ * each cover a fixed time window and are named <startMs>-<endMs>.ndjson, so queries only
+ * open the segments overlapping the requested range and retention deletes whole files.
+ * Samples are indexed by server receive time (`t`) so senders with skewed clocks or replays
+ * of old recordings still land in the current segment; the sender's timestamp is kept as `ts`.
+ */
+export type NumericTelemetryField = Exclude<keyof FlightTelemetry, 'timestamp' | 'vehicleId'>;
+
+export const NUMERIC_FIELDS = Object.entries(TELEMETRY_SCHEMA)
+    .filter(([, rule]) => rule.type === 'number')
+    .map(([field]) => field) as NumericTelemetryField[];
+
+export interface StoredSample {
+    t: number;
+    ts: number;
+    source: string;
+    vehicleId: string;
+    [field: string]: number | string;
+}
+
+export interface TelemetryQuery {
+    from: number;
+    to: number;
+    fields: string[];
+    source?: string;
+    vehicleId?: string;
+    bucket?: number;
+    limit: number;
+}
+
+export interface FieldAggregate {
+    min: number;
+    max: number;
+    avg: number;
+    last: number;
+}
+
+export interface TelemetryBucket {
+    start: number;
+    count: number;
+    fields: Record<string, FieldAggregate>;
+}
+
+export interface StoreOptions {
+    dir: string;
+    segmentMs: number;
+    retentionMs: number;
+}
+
+interface ActiveSegment {
+    start: number;
+    end: number;
+    stream: fs.WriteStream;
+}
+
+const SEGMENT_PATTERN = /^(\d+)-(\d+)\.ndjson$/;
+
+export interface TelemetryStore {
+    store(data: FlightTelemetry, source: string, vehicleId: string): void;
+    // Returns the most recent `limit` samples in the range, projected onto the requested fields
+    querySamples(query: TelemetryQuery): Promise<{ samples: Record<string, number | string>[]; matched: number; truncated: boolean }>;
+    queryBuckets(query: TelemetryQuery & { bucket: number }): Promise<TelemetryBucket[]>;
+    // Creates the store directory and deletes segments past retention; an unwritable directory is logged, not thrown
+    open(): void;
+    enforceRetention(): void;
+    getStats(): { dir: string; segments: number; oldest: string | null; retentionMs: number; samplesWritten: number; writeError: string | null };
+    // Flushes and closes the segment being written
+    close(): Promise<void>;
+}
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+// Accepts plain milliseconds or a duration such as "500ms", "5s", "1m", "2h"
+export function parseDuration(value: string): number | undefined {
+    const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/.exec(value.trim());
+    if (!match) return undefined;
+    return Number(match[1]) * DURATION_UNITS[match[2] || 'ms'];
+}
+
+export function createTelemetryStore(storeOptions: StoreOptions): TelemetryStore {
+    const options = { ...storeOptions, dir: path.resolve(storeOptions.dir) };
+    let segment: ActiveSegment | null = null;
+    let samplesWritten = 0;
+    // The last write failure (e.g. the disk filled up) and the segment it happened in
+    let writeError: string | null = null;
+    let failedSegment: number | null = null;
+
+    const listSegments = (): { file: string; start: number; end: number }[] => {
+        if (!fs.existsSync(options.dir)) return [];
+
+        return fs.readdirSync(options.dir)
+            .map(file => ({ file, match: SEGMENT_PATTERN.exec(file) }))
+            .filter(entry => entry.match)
+            .map(entry => ({ file: entry.file, start: Number(entry.match![1]), end: Number(entry.match![2]) }))
+            .sort((a, b) => a.start - b.start);
+    };
+
+    const enforceRetention = () => {
+        const cutoff = Date.now() - options.retentionMs;
+        for (const entry of listSegments()) {
+            if (entry.end < cutoff && entry.start !== segment?.start) {
+                fs.rmSync(path.join(options.dir, entry.file), { force: true });
+            }
+        }
+    };
+
+    // A write error drops the segment instead of surfacing as an unhandled stream error
+    const fail = (start: number, error: Error) => {
+        console.error(`Telemetry store stopped writing segment ${start} in ${options.dir}: ${error.message}`);
+        writeError = error.message;
+        failedSegment = start;
+        if (segment?.start === start) {
+            segment.stream.destroy();
+            segment = null;
+        }
+    };
+
+    const forEachSample = async (query: TelemetryQuery, visit: (sample: StoredSample) => void) => {
+        const segments = listSegments().filter(entry => entry.start <= query.to && entry.end > query.from);
+
+        for (const entry of segments) {
+            const lines = readline.createInterface({
+                input: fs.createReadStream(path.join(options.dir, entry.file)),
+                crlfDelay: Infinity
+            });
+
+            for await (const line of lines) {
+                if (!line) continue;
+
+                let sample: StoredSample;
+                try {
+                    sample = JSON.parse(line);
+                } catch {
+                    continue;
+                }
+
+                if (sample.t < query.from || sample.t > query.to) continue;
+                if (query.source && sample.source !== query.source) continue;
+                if (query.vehicleId && sample.vehicleId !== query.vehicleId) continue;
+                visit(sample);
+            }
+        }
+    };
+
+    return {
+        enforceRetention,
+
+        open() {
+            try {
+                fs.mkdirSync(options.dir, { recursive: true });
+            } catch (error) {
+                // Ingestion carries on without history; writes retry with each new segment
+                writeError = (error as Error).message;
+                console.error(`Telemetry store ${options.dir} is not writable: ${writeError}`);
+                return;
+            }
+            enforceRetention();
+        },
+
+        store(data, source, vehicleId) {
+            const t = Date.now();
+            const start = Math.floor(t / options.segmentMs) * options.segmentMs;
+            // Samples for a segment that failed to write are dropped; the next segment tries again
+            if (start === failedSegment) return;
+
+            if (segment?.start !== start) {
+                segment?.stream.end();
+                segment = null;
+                try {
+                    fs.mkdirSync(options.dir, { recursive: true });
+                } catch (error) {
+                    fail(start, error as Error);
+                    return;
+                }
+
+                const end = start + options.segmentMs;
+                const stream = fs.createWriteStream(path.join(options.dir, `${start}-${end}.ndjson`), { flags: 'a' });
+                stream.on('error', error => fail(start, error));
+                segment = { start, end, stream };
+                enforceRetention();
+            }
+
+            const sample: StoredSample = { t, ts: Date.parse(data.timestamp), source, vehicleId };
+            for (const field of NUMERIC_FIELDS) {
+                sample[field] = data[field];
+            }
+            segment!.stream.write(`${JSON.stringify(sample)}\n`);
+            samplesWritten++;
+        },
+
+        async querySamples(query) {
+            let samples: Record<string, number | string>[] = [];
+            let matched = 0;
+
+            await forEachSample(query, sample => {
+                matched++;
+                const row: Record<string, number | string> = {
+                    timestamp: new Date(sample.ts).toISOString(),
+                    receivedAt: new Date(sample.t).toISOString(),
+                    sourceConnection: sample.source,
+                    vehicleId: sample.vehicleId
+                };
+                for (const field of query.fields) {
+                    row[field] = sample[field];
+                }
+                samples.push(row);
+                // Trim in chunks rather than shifting on every sample
+                if (samples.length >= query.limit * 2) samples = samples.slice(-query.limit);
+            });
+
+            samples = samples.slice(-query.limit);
+            return { samples, matched, truncated: matched > samples.length };
+        },
+
+        async queryBuckets(query) {
+            const buckets: Map<number, TelemetryBucket & { sums: Record<string, number> }> = new Map();
+
+            await forEachSample(query, sample => {
+                const start = Math.floor(sample.t / query.bucket) * query.bucket;
+                let bucket = buckets.get(start);
+                if (!bucket) {
+                    bucket = { start, count: 0, fields: {}, sums: {} };
+                    buckets.set(start, bucket);
+                }
+
+                bucket.count++;
+                for (const field of query.fields) {
+                    const value = sample[field] as number;
+                    const aggregate = bucket.fields[field];
+                    if (!aggregate) {
+                        bucket.fields[field] = { min: value, max: value, avg: value, last: value };
+                        bucket.sums[field] = value;
+                    } else {
+                        aggregate.min = Math.min(aggregate.min, value);
+                        aggregate.max = Math.max(aggregate.max, value);
+                        aggregate.last = value;
+                        bucket.sums[field] += value;
+                    }
+                }
+            });
+
+            return Array.from(buckets.values())
+                .sort((a, b) => a.start - b.start)
+                .slice(-query.limit)
+                .map(({ sums, ...bucket }) => {
+                    for (const field of Object.keys(bucket.fields)) {
+                        bucket.fields[field].avg = sums[field] / bucket.count;
+                    }
+                    return bucket;
+                });
+        },
+
+        getStats() {
+            const segments = listSegments();
+            return {
+                dir: options.dir,
+                segments: segments.length,
+                oldest: segments.length > 0 ? new Date(segments[0].start).toISOString() : null,
+                retentionMs: options.retentionMs,
+                samplesWritten,
+                writeError
+            };
+        },
+
+        close() {
+            const closing = segment;
+            segment = null;
+            return new Promise(resolve => closing ? closing.stream.end(resolve) : resolve());
+        }
+    };
+}
@@ -0,0 +1,37 @@
+import { TelemetryMessage } from '../types';
+import { TelemetryHandler, TelemetryTransport, TransportStats } from './types';
+
+// Hands every message straight to the broadcaster, the pipeline's original behaviour
+export function createDirectTransport(): TelemetryTransport {
+    let handler: TelemetryHandler | null = null;
+    let published = 0;
+
+    return {
+        kind: 'direct',
+
+        async start(onMessage: TelemetryHandler) {
+            handler = onMessage;
+        },
+
+        publish(message: TelemetryMessage) {
+            published++;
+            handler?.(message);
+        },
+
+        async stop() {
+            handler = null;
+        },
+
+        getStats(): TransportStats {
+            return {
+                kind: 'direct',
+                connected: handler !== null,
+                published,
+                consumed: published,
+                publishErrors: 0,
+                rejected: 0,
+                consumerLag: { total: 0, partitions: [] }
+            };
+        }
+    };
+}
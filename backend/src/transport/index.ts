@@ -0,0 +1,61 @@
+import { hostname } from 'os';
+import { createDirectTransport } from './direct';
+import { createKafkaTransport } from './kafka';
+import { createMemoryTransport } from './memory';
+import { TelemetryTransport, TransportKind } from './types';
+
+export * from './types';
+
+export const TRANSPORT_KINDS: TransportKind[] = ['direct', 'memory', 'kafka'];
+
+export interface TransportConfig {
+    kind: TransportKind;
+    topic: string;
+    groupId: string;
+    partitions: number;
+    retention: number;
+    kafkaBrokers: string[];
+    kafkaClientId: string;
+}
+
+export function transportConfigFromEnv(env: NodeJS.ProcessEnv): TransportConfig {
+    const kind = (env.TELEMETRY_TRANSPORT || 'direct') as TransportKind;
+    if (!TRANSPORT_KINDS.includes(kind)) {
+        throw new Error(`Unknown TELEMETRY_TRANSPORT "${kind}", expected one of ${TRANSPORT_KINDS.join(', ')}`);
+    }
+
+    return {
+        kind,
+        topic: env.TELEMETRY_TOPIC || 'flight-telemetry',
+        // Each backend broadcasts what its own group consumes, so instances sharing a group id would each get
+        // only some of the partitions; the default gives every host its own group
+        groupId: env.TELEMETRY_GROUP_ID || `telemetry-dashboard-${hostname()}`,
+        partitions: Number(env.TELEMETRY_PARTITIONS) || 4,
+        retention: Number(env.TELEMETRY_RETENTION) || 10000,
+        kafkaBrokers: (env.KAFKA_BROKERS || 'localhost:9092').split(',').map(broker => broker.trim()),
+        kafkaClientId: env.KAFKA_CLIENT_ID || 'live-charts-backend'
+    };
+}
+
+export function createTransport(config: TransportConfig): TelemetryTransport {
+    switch (config.kind) {
+        case 'memory':
+            return createMemoryTransport({
+                topic: config.topic,
+                groupId: config.groupId,
+                partitions: config.partitions,
+                retention: config.retention
+            });
+        case 'kafka':
+            return createKafkaTransport({
+                brokers: config.kafkaBrokers,
+                clientId: config.kafkaClientId,
+                topic: config.topic,
+                groupId: config.groupId,
+                partitions: config.partitions,
+                lagPollInterval: 5000
+            });
+        default:
+            return createDirectTransport();
+    }
+}
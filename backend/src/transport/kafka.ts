@@ -0,0 +1,167 @@
+import { Kafka, Partitioners, logLevel } from 'kafkajs';
+import { TelemetryMessage } from '../types';
+import { validateTelemetry } from '../validation';
+import { PartitionLag, TelemetryHandler, TelemetryTransport, TransportStats } from './types';
+
+export interface KafkaTransportOptions {
+    brokers: string[];
+    clientId: string;
+    topic: string;
+    groupId: string;
+    partitions: number;
+    lagPollInterval: number;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Checks a consumed record is a message ingestion published: a valid sample plus the fields added on ingestion.
+// Returns an error message for anything else, e.g. records another producer wrote to the topic
+export function decodeTelemetryRecord(value: string): TelemetryMessage | string {
+    let record: Record<string, unknown>;
+    try {
+        record = JSON.parse(value);
+    } catch (error) {
+        return (error as Error).message;
+    }
+
+    const result = validateTelemetry(record);
+    if (!result.valid) return result.issues.map(issue => issue.message).join('; ');
+
+    if (typeof record.vehicleId !== 'string') return 'vehicleId is required';
+    if (!Number.isInteger(record.messageId)) return 'messageId must be an integer';
+    if (!isFiniteNumber(record.receivedAt)) return 'receivedAt must be a finite number';
+    if (typeof record.sourceConnection !== 'string') return 'sourceConnection must be a string';
+    if (record.packetFormat !== 'json' && record.packetFormat !== 'binary') return 'packetFormat must be "json" or "binary"';
+
+    const derived = record.derived as Record<string, unknown> | null;
+    if (typeof derived !== 'object' || derived === null) return 'derived must be an object';
+    if (!isFiniteNumber(derived.airspeed) || !isFiniteNumber(derived.distanceTraveled)) {
+        return 'derived.airspeed and derived.distanceTraveled must be finite numbers';
+    }
+    for (const channel of ['verticalSpeed', 'batteryDrainRate', 'timeToEmpty']) {
+        if (derived[channel] !== null && !isFiniteNumber(derived[channel])) return `derived.${channel} must be a number or null`;
+    }
+    return record as unknown as TelemetryMessage;
+}
+
+export function createKafkaTransport(options: KafkaTransportOptions): TelemetryTransport {
+    const kafka = new Kafka({
+        clientId: options.clientId,
+        brokers: options.brokers,
+        logLevel: logLevel.WARN
+    });
+    const producer = kafka.producer({ createPartitioner: Partitioners.DefaultPartitioner });
+    const consumer = kafka.consumer({ groupId: options.groupId });
+    const admin = kafka.admin();
+
+    let connected = false;
+    let published = 0;
+    let consumed = 0;
+    let publishErrors = 0;
+    let rejected = 0;
+    let lag: PartitionLag[] = [];
+    let lagTimer: NodeJS.Timeout | undefined;
+
+    producer.on(producer.events.DISCONNECT, () => {
+        connected = false;
+    });
+
+    // Lag is fetched from the cluster on a timer so getStats() stays synchronous
+    const refreshLag = async () => {
+        try {
+            const [topicOffsets, groupOffsets] = await Promise.all([
+                admin.fetchTopicOffsets(options.topic),
+                admin.fetchOffsets({ groupId: options.groupId, topics: [options.topic] })
+            ]);
+            const committed = groupOffsets.find(entry => entry.topic === options.topic)?.partitions || [];
+
+            lag = topicOffsets.map(({ partition, high, low }) => {
+                const endOffset = Number(high);
+                const committedOffset = Number(committed.find(entry => entry.partition === partition)?.offset ?? -1);
+                // -1 means the group has not committed anything on this partition yet
+                const effective = committedOffset < 0 ? Number(low) : committedOffset;
+                return { partition, endOffset, committedOffset: effective, lag: Math.max(0, endOffset - effective) };
+            });
+        } catch (error) {
+            console.error('Failed to fetch Kafka consumer lag:', (error as Error).message);
+        }
+    };
+
+    return {
+        kind: 'kafka',
+
+        async start(handler: TelemetryHandler) {
+            await admin.connect();
+            await admin.createTopics({
+                topics: [{ topic: options.topic, numPartitions: options.partitions }]
+            });
+            await producer.connect();
+            await consumer.connect();
+            await consumer.subscribe({ topics: [options.topic] });
+            await consumer.run({
+                eachMessage: async ({ partition, message }) => {
+                    if (!message.value) return;
+
+                    // A record that fails on every retry would stall its partition, so bad ones are skipped
+                    const location = `${options.topic}/${partition}@${message.offset}`;
+                    const decoded = decodeTelemetryRecord(message.value.toString());
+                    if (typeof decoded === 'string') {
+                        rejected++;
+                        console.error(`Skipping invalid Kafka record at ${location}: ${decoded}`);
+                        return;
+                    }
+                    consumed++;
+                    try {
+                        handler(decoded);
+                    } catch (error) {
+                        rejected++;
+                        console.error(`Skipping Kafka record at ${location} that failed to deliver:`, (error as Error).message);
+                    }
+                }
+            });
+
+            connected = true;
+            lagTimer = setInterval(refreshLag, options.lagPollInterval);
+            console.log(`Kafka transport connected to ${options.brokers.join(',')} (topic: ${options.topic})`);
+        },
+
+        publish(message: TelemetryMessage) {
+            // Samples produced before the broker connection is up are dropped rather than buffered
+            if (!connected) {
+                publishErrors++;
+                return;
+            }
+
+            producer.send({
+                topic: options.topic,
+                messages: [{ key: message.sourceConnection, value: JSON.stringify(message) }]
+            }).then(() => {
+                published++;
+            }).catch(error => {
+                publishErrors++;
+                console.error('Error publishing to Kafka:', error.message);
+            });
+        },
+
+        async stop() {
+            if (lagTimer) clearInterval(lagTimer);
+            connected = false;
+            await Promise.allSettled([consumer.disconnect(), producer.disconnect(), admin.disconnect()]);
+        },
+
+        getStats(): TransportStats {
+            return {
+                kind: 'kafka',
+                connected,
+                published,
+                consumed,
+                publishErrors,
+                rejected,
+                consumerLag: {
+                    total: lag.reduce((sum, partition) => sum + partition.lag, 0),
+                    partitions: lag
+                }
+            };
+        }
+    };
+}
@@ -0,0 +1,56 @@
+import { TelemetryMessage } from '../types';
+import { createMemoryBroker } from './memoryBroker';
+import { TelemetryHandler, TelemetryTransport, TransportStats } from './types';
+
+export interface MemoryTransportOptions {
+    topic: string;
+    groupId: string;
+    partitions: number;
+    retention: number;
+}
+
+export function createMemoryTransport(options: MemoryTransportOptions): TelemetryTransport {
+    const broker = createMemoryBroker<TelemetryMessage>({ retention: options.retention });
+    broker.createTopic(options.topic, options.partitions);
+
+    let unsubscribe: (() => void) | null = null;
+    let published = 0;
+    let consumed = 0;
+
+    return {
+        kind: 'memory',
+
+        async start(handler: TelemetryHandler) {
+            unsubscribe = broker.subscribe(options.topic, options.groupId, record => {
+                consumed++;
+                handler(record.value);
+            });
+        },
+
+        publish(message: TelemetryMessage) {
+            broker.produce(options.topic, message.sourceConnection, message);
+            published++;
+        },
+
+        async stop() {
+            unsubscribe?.();
+            unsubscribe = null;
+        },
+
+        getStats(): TransportStats {
+            const partitions = broker.getLag(options.topic, options.groupId);
+            return {
+                kind: 'memory',
+                connected: unsubscribe !== null,
+                published,
+                consumed,
+                publishErrors: 0,
+                rejected: 0,
+                consumerLag: {
+                    total: partitions.reduce((sum, partition) => sum + partition.lag, 0),
+                    partitions
+                }
+            };
+        }
+    };
+}
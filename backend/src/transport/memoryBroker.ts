@@ -0,0 +1,186 @@
+import { PartitionLag } from './types';
+
+export interface BrokerRecord<T> {
+    topic: string;
+    partition: number;
+    offset: number;
+    key: string;
+    value: T;
+    timestamp: number;
+}
+
+export type RecordHandler<T> = (record: BrokerRecord<T>) => void;
+
+interface PartitionLog<T> {
+    // Offset of records[0]; grows as old records fall out of retention
+    baseOffset: number;
+    records: BrokerRecord<T>[];
+}
+
+interface ConsumerGroup<T> {
+    committed: number[];
+    members: RecordHandler<T>[];
+    skipped: number;
+}
+
+interface Topic<T> {
+    partitions: PartitionLog<T>[];
+    groups: Map<string, ConsumerGroup<T>>;
+}
+
+export interface MemoryBrokerOptions {
+    // Records kept per partition before the oldest are discarded
+    retention: number;
+}
+
+export interface MemoryBroker<T> {
+    createTopic(name: string, partitions: number): void;
+    produce(topic: string, key: string, value: T): BrokerRecord<T>;
+    subscribe(topic: string, groupId: string, handler: RecordHandler<T>): () => void;
+    seek(topic: string, groupId: string, partition: number, offset: number): void;
+    endOffsets(topic: string): number[];
+    getLag(topic: string, groupId: string): PartitionLag[];
+}
+
+// FNV-1a, so the same key always lands on the same partition
+export function partitionForKey(key: string, partitions: number): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+        hash ^= key.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) % partitions;
+}
+
+/*
+ * In-process partitioned log with Kafka-like semantics: records are appended per partition,
+ * consumer groups track a committed offset per partition, and partitions are spread across
+ * the members of a group. Delivery is asynchronous so producers never run consumer code.
+ */
+export function createMemoryBroker<T>(options: MemoryBrokerOptions): MemoryBroker<T> {
+    const topics: Map<string, Topic<T>> = new Map();
+    let drainScheduled = false;
+
+    const getTopic = (name: string): Topic<T> => {
+        const topic = topics.get(name);
+        if (!topic) throw new Error(`Unknown topic "${name}"`);
+        return topic;
+    };
+
+    const endOffset = (log: PartitionLog<T>) => log.baseOffset + log.records.length;
+
+    const drain = () => {
+        drainScheduled = false;
+
+        for (const topic of topics.values()) {
+            for (const group of topic.groups.values()) {
+                if (group.members.length === 0) continue;
+
+                topic.partitions.forEach((log, partition) => {
+                    const member = group.members[partition % group.members.length];
+
+                    if (group.committed[partition] < log.baseOffset) {
+                        group.skipped += log.baseOffset - group.committed[partition];
+                        group.committed[partition] = log.baseOffset;
+                    }
+
+                    while (group.committed[partition] < endOffset(log)) {
+                        const record = log.records[group.committed[partition] - log.baseOffset];
+                        group.committed[partition]++;
+                        try {
+                            member(record);
+                        } catch (error) {
+                            console.error(`Consumer error on ${record.topic}[${partition}]@${record.offset}:`, error);
+                        }
+                    }
+                });
+            }
+        }
+    };
+
+    const scheduleDrain = () => {
+        if (drainScheduled) return;
+        drainScheduled = true;
+        setImmediate(drain);
+    };
+
+    const getGroup = (topic: Topic<T>, groupId: string): ConsumerGroup<T> => {
+        let group = topic.groups.get(groupId);
+        if (!group) {
+            // New groups start from the latest offset, like auto.offset.reset=latest
+            group = { committed: topic.partitions.map(endOffset), members: [], skipped: 0 };
+            topic.groups.set(groupId, group);
+        }
+        return group;
+    };
+
+    return {
+        createTopic(name: string, partitions: number) {
+            if (topics.has(name)) return;
+            topics.set(name, {
+                partitions: Array.from({ length: Math.max(1, partitions) }, () => ({ baseOffset: 0, records: [] })),
+                groups: new Map()
+            });
+        },
+
+        produce(topicName: string, key: string, value: T) {
+            const topic = getTopic(topicName);
+            const partition = partitionForKey(key, topic.partitions.length);
+            const log = topic.partitions[partition];
+
+            const record: BrokerRecord<T> = {
+                topic: topicName,
+                partition,
+                offset: endOffset(log),
+                key,
+                value,
+                timestamp: Date.now()
+            };
+            log.records.push(record);
+
+            if (log.records.length > options.retention) {
+                const excess = log.records.length - options.retention;
+                log.records.splice(0, excess);
+                log.baseOffset += excess;
+            }
+
+            scheduleDrain();
+            return record;
+        },
+
+        subscribe(topicName: string, groupId: string, handler: RecordHandler<T>) {
+            const group = getGroup(getTopic(topicName), groupId);
+            group.members.push(handler);
+            scheduleDrain();
+
+            return () => {
+                group.members = group.members.filter(member => member !== handler);
+            };
+        },
+
+        seek(topicName: string, groupId: string, partition: number, offset: number) {
+            const topic = getTopic(topicName);
+            const log = topic.partitions[partition];
+            if (!log) throw new Error(`Topic "${topicName}" has no partition ${partition}`);
+
+            const group = getGroup(topic, groupId);
+            group.committed[partition] = Math.min(Math.max(offset, log.baseOffset), endOffset(log));
+            scheduleDrain();
+        },
+
+        endOffsets(topicName: string) {
+            return getTopic(topicName).partitions.map(endOffset);
+        },
+
+        getLag(topicName: string, groupId: string) {
+            const topic = getTopic(topicName);
+            const group = topic.groups.get(groupId);
+
+            return topic.partitions.map((log, partition) => {
+                const end = endOffset(log);
+                const committed = group ? group.committed[partition] : end;
+                return { partition, endOffset: end, committedOffset: committed, lag: end - committed };
+            });
+        }
+    };
+}
@@ -0,0 +1,38 @@
+import { TelemetryMessage } from '../types';
+
+export type TransportKind = 'direct' | 'memory' | 'kafka';
+
+export type TelemetryHandler = (message: TelemetryMessage) => void;
+
+export interface PartitionLag {
+    partition: number;
+    endOffset: number;
+    committedOffset: number;
+    lag: number;
+}
+
+export interface TransportStats {
+    kind: TransportKind;
+    connected: boolean;
+    published: number;
+    consumed: number;
+    publishErrors: number;
+    // Records the consumer could not decode or deliver and skipped
+    rejected: number;
+    consumerLag: {
+        total: number;
+        partitions: PartitionLag[];
+    };
+}
+
+/*
+ * Sits between ingestion and broadcast. Ingestion publishes validated samples keyed by
+ * sourceConnection; the transport delivers them to the handler passed to start().
+ */
+export interface TelemetryTransport {
+    readonly kind: TransportKind;
+    start(handler: TelemetryHandler): Promise<void>;
+    publish(message: TelemetryMessage): void;
+    stop(): Promise<void>;
+    getStats(): TransportStats;
+}
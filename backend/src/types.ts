@@ -0,0 +1,78 @@
+export interface FlightTelemetry {
+    // Optional on the wire; packets without one are attributed to their source connection
+    vehicleId?: string;
+    timestamp: string;
+    altitude: number;
+    speedX: number;
+    speedY: number;
+    speedZ: number;
+    heading: number;
+    latitude: number;
+    longitude: number;
+    temperature: number;
+    battery_percentage: number;
+}
+
+// Packet loss and ordering for a source that sends sequence numbers, over the sliding window of its
+// last SEQUENCE_WINDOW sequence numbers
+export interface SequenceStats {
+    lastSequence: number;
+    // Packets in the window, duplicates included
+    received: number;
+    // Sequence numbers in the window skipped over and not (yet) seen
+    lost: number;
+    duplicates: number;
+    outOfOrder: number;
+    // Times the sender restarted its counter, since the source was first seen
+    resets: number;
+    lossRate: number;
+}
+
+export type SourceProtocol = 'udp' | 'tcp' | 'http' | 'websocket' | 'mqtt';
+
+// A listener (status "listening") or a source sending telemetry to the backend, over any protocol
+export interface SourceConnection {
+    id: string;
+    protocol: SourceProtocol;
+    address: string;
+    port: number;
+    status: 'active' | 'inactive' | 'listening';
+    lastActivity: string;
+    messagesReceived: number;
+    messagesRejected: number;
+    // Valid packets emitted to clients, and valid packets discarded before reaching them
+    messagesSent: number;
+    messagesDropped: number;
+    rejectionReasons: Record<string, number>;
+    label?: string;
+    sequence?: SequenceStats;
+}
+
+// Values the backend works out from a vehicle's consecutive samples; null until there is enough history
+export interface DerivedTelemetry {
+    // Magnitude of the speedX/Y/Z vector, knots
+    airspeed: number;
+    // Rate of altitude change between samples, feet per minute
+    verticalSpeed: number | null;
+    // Ground distance covered since the vehicle was first seen, nautical miles
+    distanceTraveled: number;
+    // Smoothed battery use, percent per hour (negative while charging)
+    batteryDrainRate: number | null;
+    // Minutes until the battery is empty at the current drain rate, null when not draining
+    timeToEmpty: number | null;
+}
+
+// A validated sample as it travels through the transport and out to clients
+export interface TelemetryMessage extends FlightTelemetry {
+    vehicleId: string;
+    // Server receive time (ms since epoch)
+    receivedAt: number;
+    // Set when the sample is emitted to clients: time since receipt, and the emit time itself
+    processingLatency?: number;
+    emittedAt?: number;
+    messageId: number;
+    sourceConnection: string;
+    packetFormat: 'json' | 'binary';
+    sequence?: number;
+    derived: DerivedTelemetry;
+}
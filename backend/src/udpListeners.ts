@@ -0,0 +1,151 @@
+import * as dgram from 'dgram';
+import { SourceConnection } from './types';
+
+export interface UDPListenerConfig {
+    port: number;
+    address: string;
+    label: string;
+}
+
+export interface UDPListener {
+    id: string;
+    config: UDPListenerConfig;
+    socket: dgram.Socket;
+    openedAt: string;
+}
+
+export type UDPMessageHandler = (msg: Buffer, rinfo: dgram.RemoteInfo, listener: UDPListener) => void;
+
+export interface UDPListeners {
+    open(config: Partial<UDPListenerConfig> & { port: number }): Promise<UDPListener>;
+    // Resolves false when no listener has that id
+    close(id: string): Promise<boolean>;
+    closeAll(): Promise<void>;
+    list(): UDPListener[];
+}
+
+const DEFAULT_BIND_ADDRESS = '0.0.0.0';
+
+export function listenerId(address: string, port: number): string {
+    return `${address}:${port}`;
+}
+
+// Parses a comma separated listener spec, e.g. "8080,127.0.0.1:8081,backup@0.0.0.0:9000"; also used for TCP listeners
+export function parseListenerSpec(spec: string, protocol: 'udp' | 'tcp' = 'udp'): UDPListenerConfig[] {
+    return spec
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(entry => {
+            const [labelPart, hostPart] = entry.includes('@') ? entry.split('@') : [undefined, entry];
+            const separator = hostPart.lastIndexOf(':');
+            const address = separator === -1 ? DEFAULT_BIND_ADDRESS : hostPart.slice(0, separator);
+            const port = Number(separator === -1 ? hostPart : hostPart.slice(separator + 1));
+
+            if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+                throw new Error(`Invalid ${protocol.toUpperCase()} listener port in "${entry}"`);
+            }
+
+            return { port, address, label: labelPart || `${protocol}-${port}` };
+        });
+}
+
+// Listeners record themselves in `connections` (status "listening") while they are open
+export function createUDPListeners(connections: Map<string, SourceConnection>, onMessage: UDPMessageHandler): UDPListeners {
+    // Open listeners keyed by "address:port"
+    const listeners: Map<string, UDPListener> = new Map();
+
+    const close = (id: string): Promise<boolean> => {
+        const listener = listeners.get(id);
+        if (!listener) return Promise.resolve(false);
+
+        listeners.delete(id);
+        connections.delete(id);
+
+        return new Promise(resolve => {
+            listener.socket.close(() => {
+                console.log(`UDP listener "${listener.config.label}" on ${id} closed`);
+                resolve(true);
+            });
+        });
+    };
+
+    return {
+        close,
+
+        // Port 0 binds an ephemeral port; the listener's id and config carry the port actually bound
+        open(config) {
+            const address = config.address || DEFAULT_BIND_ADDRESS;
+
+            if (config.port !== 0 && listeners.has(listenerId(address, config.port))) {
+                return Promise.reject(new Error(`UDP listener ${listenerId(address, config.port)} is already open`));
+            }
+
+            const listener: UDPListener = {
+                id: listenerId(address, config.port),
+                config: { port: config.port, address, label: config.label || `udp-${config.port}` },
+                socket: dgram.createSocket('udp4'),
+                openedAt: new Date().toISOString()
+            };
+
+            return new Promise((resolve, reject) => {
+                const onBindError = (err: Error) => {
+                    listener.socket.close();
+                    reject(err);
+                };
+
+                listener.socket.once('error', onBindError);
+
+                listener.socket.on('message', (msg, rinfo) => {
+                    const entry = connections.get(listener.id);
+                    if (entry) {
+                        entry.messagesReceived++;
+                        entry.lastActivity = new Date().toISOString();
+                    }
+                    onMessage(msg, rinfo, listener);
+                });
+
+                listener.socket.on('listening', () => {
+                    listener.socket.off('error', onBindError);
+                    listener.socket.on('error', (err) => {
+                        console.error(`UDP listener ${listener.config.label} (${listener.id}) error:`, err);
+                    });
+
+                    const { port } = listener.socket.address();
+                    listener.id = listenerId(address, port);
+                    listener.config.port = port;
+                    if (!config.label) listener.config.label = `udp-${port}`;
+
+                    listeners.set(listener.id, listener);
+                    connections.set(listener.id, {
+                        id: listener.id,
+                        protocol: 'udp',
+                        address,
+                        port,
+                        status: 'listening',
+                        lastActivity: new Date().toISOString(),
+                        messagesReceived: 0,
+                        messagesRejected: 0,
+                        messagesSent: 0,
+                        messagesDropped: 0,
+                        rejectionReasons: {},
+                        label: listener.config.label
+                    });
+
+                    console.log(`UDP listener "${listener.config.label}" listening on ${listener.id}`);
+                    resolve(listener);
+                });
+
+                listener.socket.bind(config.port, address);
+            });
+        },
+
+        async closeAll() {
+            await Promise.all(Array.from(listeners.keys()).map(close));
+        },
+
+        list() {
+            return Array.from(listeners.values());
+        }
+    };
+}
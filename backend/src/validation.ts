@@ -0,0 +1,155 @@
+import { FlightTelemetry } from './types';
+
+export type ValidationCode =
+    | 'invalid_json'
+    | 'not_object'
+    | 'missing'
+    | 'wrong_type'
+    | 'out_of_range'
+    | 'invalid_timestamp'
+    | 'invalid_format'
+    | 'unsupported_version'
+    | 'bad_length'
+    | 'crc_mismatch';
+
+export interface ValidationIssue {
+    field: string;
+    code: ValidationCode;
+    message: string;
+}
+
+// `data` only carries the schema's fields; any other properties in the packet are dropped
+export type ValidationResult =
+    | { valid: true; data: FlightTelemetry; sequence?: number }
+    | { valid: false; issues: ValidationIssue[] };
+
+interface NumericFieldRule {
+    type: 'number';
+    min: number;
+    max: number;
+}
+
+interface TimestampFieldRule {
+    type: 'timestamp';
+}
+
+interface IdentifierFieldRule {
+    type: 'identifier';
+    optional: true;
+    maxLength: number;
+}
+
+type FieldRule = NumericFieldRule | TimestampFieldRule | IdentifierFieldRule;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z0-9_.:-]+$/;
+
+// Physical limits for each telemetry field; anything outside is treated as a corrupt sample
+export const TELEMETRY_SCHEMA: Record<keyof FlightTelemetry, FieldRule> = {
+    vehicleId: { type: 'identifier', optional: true, maxLength: 32 },
+    timestamp: { type: 'timestamp' },
+    altitude: { type: 'number', min: -1500, max: 60000 },
+    speedX: { type: 'number', min: -2000, max: 2000 },
+    speedY: { type: 'number', min: -2000, max: 2000 },
+    speedZ: { type: 'number', min: -2000, max: 2000 },
+    heading: { type: 'number', min: 0, max: 360 },
+    latitude: { type: 'number', min: -90, max: 90 },
+    longitude: { type: 'number', min: -180, max: 180 },
+    temperature: { type: 'number', min: -100, max: 100 },
+    battery_percentage: { type: 'number', min: 0, max: 100 }
+};
+
+function isSequenceNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xFFFFFFFF;
+}
+
+export function validateTelemetry(raw: unknown): ValidationResult {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return {
+            valid: false,
+            issues: [{ field: '$', code: 'not_object', message: 'Packet is not a JSON object' }]
+        };
+    }
+
+    const record = raw as Record<string, unknown>;
+    const issues: ValidationIssue[] = [];
+
+    for (const [field, rule] of Object.entries(TELEMETRY_SCHEMA)) {
+        const value = record[field];
+
+        if (value === undefined || value === null) {
+            if (!(rule.type === 'identifier' && rule.optional)) {
+                issues.push({ field, code: 'missing', message: `${field} is required` });
+            }
+            continue;
+        }
+
+        if (rule.type === 'identifier') {
+            if (typeof value !== 'string') {
+                issues.push({ field, code: 'wrong_type', message: `${field} must be a string` });
+            } else if (value.length > rule.maxLength || !IDENTIFIER_PATTERN.test(value)) {
+                issues.push({
+                    field,
+                    code: 'invalid_format',
+                    message: `${field} must be 1-${rule.maxLength} characters of [A-Za-z0-9_.:-]`
+                });
+            }
+            continue;
+        }
+
+        if (rule.type === 'timestamp') {
+            if (typeof value !== 'string') {
+                issues.push({ field, code: 'wrong_type', message: `${field} must be an ISO-8601 string` });
+            } else if (Number.isNaN(Date.parse(value))) {
+                issues.push({ field, code: 'invalid_timestamp', message: `${field} "${value}" is not a valid date` });
+            }
+            continue;
+        }
+
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            issues.push({ field, code: 'wrong_type', message: `${field} must be a finite number` });
+        } else if (value < rule.min || value > rule.max) {
+            issues.push({
+                field,
+                code: 'out_of_range',
+                message: `${field} ${value} is outside [${rule.min}, ${rule.max}]`
+            });
+        }
+    }
+
+    // Optional per-source packet counter, carried in the header of binary packets
+    if (record.sequence !== undefined && !isSequenceNumber(record.sequence)) {
+        issues.push({ field: 'sequence', code: 'wrong_type', message: 'sequence must be an unsigned 32-bit integer' });
+    }
+
+    if (issues.length > 0) {
+        return { valid: false, issues };
+    }
+
+    const data: Record<string, unknown> = {};
+    for (const field of Object.keys(TELEMETRY_SCHEMA)) {
+        if (record[field] !== undefined && record[field] !== null) data[field] = record[field];
+    }
+    return {
+        valid: true,
+        data: data as unknown as FlightTelemetry,
+        ...(record.sequence !== undefined && { sequence: record.sequence as number })
+    };
+}
+
+export function parseAndValidateTelemetry(payload: string): ValidationResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(payload);
+    } catch (error) {
+        return {
+            valid: false,
+            issues: [{ field: '$', code: 'invalid_json', message: (error as Error).message }]
+        };
+    }
+    return validateTelemetry(parsed);
+}
+
+// Key used for per-source rejection counters, e.g. "out_of_range:battery_percentage"
+export function rejectionKey(issue: ValidationIssue): string {
+    return issue.field === '$' ? issue.code : `${issue.code}:${issue.field}`;
+}
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Alert, AlertEngine, AlertEvent, AlertRule, createAlertEngine, parseAlertRule } from '../src/alerts';
+import { telemetryMessage } from './fixtures';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const T0 = Date.parse('2025-01-01T00:00:00.000Z');
+
+// An engine holding only `rule`, recording every event it emits
+function engineWith(body: Record<string, unknown>): { engine: AlertEngine; rule: AlertRule; events: [AlertEvent, Alert][] } {
+    const events: [AlertEvent, Alert][] = [];
+    const engine = createAlertEngine(path.join(dir, 'rules.json'), (alert, event) => events.push([event, { ...alert }]));
+    for (const existing of engine.getRules()) engine.deleteRule(existing.id);
+
+    const rule = parseAlertRule(body, 'rule-1');
+    assert.equal(typeof rule, 'object', String(rule));
+    engine.saveRule(rule as AlertRule);
+    return { engine, rule: rule as AlertRule, events };
+}
+
+describe('parseAlertRule', () => {
+    it('fills in defaults', () => {
+        assert.deepEqual(parseAlertRule({
+            name: ' Low battery ',
+            field: 'battery_percentage',
+            condition: { type: 'threshold', operator: '<', value: 20 }
+        }, 'id'), {
+            id: 'id',
+            name: 'Low battery',
+            enabled: true,
+            severity: 'warning',
+            field: 'battery_percentage',
+            condition: { type: 'threshold', operator: '<', value: 20 },
+            forMs: 0,
+            hysteresis: 0
+        });
+    });
+
+    it('rejects invalid rules with a message', () => {
+        const valid = { name: 'r', field: 'altitude', condition: { type: 'threshold', operator: '>', value: 1 } };
+        const cases: [unknown, RegExp][] = [
+            [null, /JSON object/],
+            [{ ...valid, name: ' ' }, /name is required/],
+            [{ ...valid, field: 'timestamp' }, /field must be one of/],
+            [{ ...valid, enabled: 'false' }, /enabled must be true or false/],
+            [{ ...valid, severity: 'fatal' }, /severity must be one of/],
+            [{ ...valid, condition: { ...valid.condition, operator: '==' } }, /condition.operator/],
+            [{ ...valid, condition: { ...valid.condition, value: '1' } }, /condition.value/],
+            [{ ...valid, forMs: -1 }, /forMs/]
+        ];
+        for (const [body, error] of cases) {
+            assert.match(String(parseAlertRule(body)), error);
+        }
+    });
+});
+
+describe('alert engine', () => {
+    it('fires once and clears only past the hysteresis margin', () => {
+        const { engine, events } = engineWith({
+            name: 'Low battery',
+            field: 'battery_percentage',
+            condition: { type: 'threshold', operator: '<', value: 10 },
+            hysteresis: 2
+        });
+
+        for (const [step, battery] of [9, 8, 11, 12.5].entries()) {
+            engine.evaluate(telemetryMessage(T0 + step * 1000, { battery_percentage: battery }));
+        }
+
+        assert.deepEqual(events.map(([event]) => event), ['fired', 'cleared']);
+        assert.equal(events[0][1].value, 9);
+        assert.deepEqual(engine.getActive(), []);
+    });
+
+    it('waits for the condition to hold for forMs', () => {
+        const { engine, events } = engineWith({
+            name: 'Hot',
+            field: 'temperature',
+            condition: { type: 'threshold', operator: '>', value: 40 },
+            forMs: 5000
+        });
+
+        engine.evaluate(telemetryMessage(T0, { temperature: 45 }));
+        engine.evaluate(telemetryMessage(T0 + 4000, { temperature: 45 }));
+        engine.evaluate(telemetryMessage(T0 + 4500, { temperature: 30 }));
+        engine.evaluate(telemetryMessage(T0 + 5000, { temperature: 45 }));
+        engine.evaluate(telemetryMessage(T0 + 9000, { temperature: 45 }));
+        assert.equal(events.length, 0);
+
+        engine.evaluate(telemetryMessage(T0 + 10000, { temperature: 45 }));
+        assert.deepEqual(events.map(([event]) => event), ['fired']);
+    });
+
+    it('evaluates rate conditions per second', () => {
+        const { engine, events } = engineWith({
+            name: 'Dive',
+            field: 'altitude',
+            condition: { type: 'rate', operator: '<', value: -100 }
+        });
+
+        engine.evaluate(telemetryMessage(T0, { altitude: 5000 }));
+        engine.evaluate(telemetryMessage(T0 + 2000, { altitude: 4900 }));
+        assert.equal(events.length, 0);
+        engine.evaluate(telemetryMessage(T0 + 3000, { altitude: 4700 }));
+        assert.equal(events[0][1].value, -200);
+    });
+
+    it('tracks each vehicle separately', () => {
+        const { engine } = engineWith({
+            name: 'Low battery',
+            field: 'battery_percentage',
+            condition: { type: 'threshold', operator: '<', value: 10 }
+        });
+
+        engine.evaluate(telemetryMessage(T0, { vehicleId: 'a', battery_percentage: 5 }));
+        engine.evaluate(telemetryMessage(T0, { vehicleId: 'b', battery_percentage: 5 }));
+        assert.deepEqual(engine.getActive().map(alert => alert.vehicleId).sort(), ['a', 'b']);
+    });
+
+    it('keeps active alerts after they are trimmed from history', () => {
+        const { engine } = engineWith({
+            name: 'Low battery',
+            field: 'battery_percentage',
+            condition: { type: 'threshold', operator: '<', value: 10 }
+        });
+
+        engine.evaluate(telemetryMessage(T0, { vehicleId: 'stuck', battery_percentage: 5 }));
+        const [stuck] = engine.getActive();
+        for (let i = 0; i < 600; i++) {
+            engine.evaluate(telemetryMessage(T0 + 1000, { vehicleId: `v${i}`, battery_percentage: 5 }));
+            engine.evaluate(telemetryMessage(T0 + 2000, { vehicleId: `v${i}`, battery_percentage: 50 }));
+        }
+
+        assert.equal(engine.getHistory().some(alert => alert.id === stuck.id), false);
+        assert.deepEqual(engine.getActive().map(alert => alert.id), [stuck.id]);
+        assert.equal(engine.acknowledge(stuck.id, 'api-key:ops')?.acknowledgedBy, 'api-key:ops');
+    });
+
+    it('acknowledges an alert once', () => {
+        const { engine, events } = engineWith({
+            name: 'Low battery',
+            field: 'battery_percentage',
+            condition: { type: 'threshold', operator: '<', value: 10 }
+        });
+
+        engine.evaluate(telemetryMessage(T0, { battery_percentage: 5 }));
+        const [alert] = engine.getActive();
+        engine.acknowledge(alert.id, 'user:alice');
+        engine.acknowledge(alert.id, 'user:bob');
+
+        assert.deepEqual(events.map(([event]) => event), ['fired', 'acknowledged']);
+        assert.equal(engine.getActive()[0].acknowledgedBy, 'user:alice');
+        assert.equal(engine.acknowledge('missing'), undefined);
+    });
+
+    it('clears a rule\'s alerts when the rule changes', () => {
+        const { engine, rule, events } = engineWith({
+            name: 'Low battery',
+            field: 'battery_percentage',
+            condition: { type: 'threshold', operator: '<', value: 10 }
+        });
+
+        engine.evaluate(telemetryMessage(T0, { battery_percentage: 5 }));
+        engine.saveRule({ ...rule, enabled: false });
+        engine.evaluate(telemetryMessage(T0 + 1000, { battery_percentage: 5 }));
+
+        assert.deepEqual(events.map(([event]) => event), ['fired', 'cleared']);
+        assert.deepEqual(engine.getActive(), []);
+    });
+
+    it('writes the default rules only on persist, and loads saved rules back', () => {
+        const file = path.join(dir, 'defaults.json');
+        const engine = createAlertEngine(file);
+        assert.equal(fs.existsSync(file), false);
+
+        engine.persist();
+        const reloaded = createAlertEngine(file);
+        assert.deepEqual(reloaded.getRules(), engine.getRules());
+    });
+
+    it('skips stored rules that no longer parse, keeping the ids of the rest', () => {
+        const file = path.join(dir, 'rules.json');
+        const condition = { type: 'threshold', operator: '<', value: 20 };
+        fs.writeFileSync(file, JSON.stringify([
+            { id: 'low', name: 'Low battery', field: 'battery_percentage', condition },
+            { id: 'broken', name: 'No condition', field: 'altitude' },
+            'junk'
+        ]));
+        const engine = createAlertEngine(file);
+        assert.deepEqual(engine.getRules().map(rule => rule.id), ['low']);
+        engine.evaluate(telemetryMessage(T0, { battery_percentage: 10 }));
+        assert.equal(engine.getActive().length, 1);
+
+        fs.writeFileSync(file, '[{');
+        assert.throws(() => createAlertEngine(file), /Alert rules file .* is not valid JSON/);
+    });
+});
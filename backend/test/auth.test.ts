@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { AuthContext, authConfigFromEnv, apiKeySubject, createAuth, hasRole } from '../src/auth';
+
+const KEY = 'c0ffee-operator-key';
+
+describe('authConfigFromEnv', () => {
+    it('parses labelled and unlabelled API keys', () => {
+        const { apiKeys, anonymousRole } = authConfigFromEnv({ API_KEYS: `ops@operator:${KEY}, viewer:wall:display` });
+
+        assert.deepEqual(apiKeys.get(KEY), { role: 'operator', subject: 'api-key:ops' });
+        assert.deepEqual(apiKeys.get('wall:display'), { role: 'viewer', subject: apiKeySubject('wall:display') });
+        assert.equal(anonymousRole, null);
+    });
+
+    it('never puts any part of an unlabelled key in its subject', () => {
+        const subject = apiKeySubject(KEY);
+        assert.match(subject, /^api-key:[0-9a-f]{8}$/);
+        assert.equal(subject.includes(KEY.slice(0, 4)), false);
+    });
+
+    it('rejects malformed entries and anonymous roles', () => {
+        for (const API_KEYS of ['operator', 'admin:key', '@operator:key', 'viewer:']) {
+            assert.throws(() => authConfigFromEnv({ API_KEYS }), /Invalid API_KEYS entry/);
+        }
+        assert.throws(() => authConfigFromEnv({ AUTH_ANONYMOUS_ROLE: 'admin' }), /Invalid AUTH_ANONYMOUS_ROLE/);
+        assert.equal(authConfigFromEnv({ AUTH_ANONYMOUS_ROLE: 'none' }).anonymousRole, null);
+    });
+});
+
+describe('createAuth', () => {
+    it('lets everyone in as an operator when nothing is configured', () => {
+        const auth = createAuth(authConfigFromEnv({}));
+        assert.equal(auth.isEnabled(), false);
+        assert.deepEqual(auth.authenticate(undefined), { role: 'operator', subject: 'anonymous', method: 'anonymous' });
+    });
+
+    it('authenticates API keys and falls back to the anonymous role', () => {
+        const auth = createAuth(authConfigFromEnv({ API_KEYS: `ops@operator:${KEY}`, AUTH_ANONYMOUS_ROLE: 'viewer' }));
+
+        assert.deepEqual(auth.authenticate(KEY), { role: 'operator', subject: 'api-key:ops', method: 'api_key' });
+        assert.equal(auth.authenticate('wrong'), null);
+        assert.equal(auth.authenticate(undefined)?.role, 'viewer');
+    });
+
+    it('issues tokens that verify until they expire', () => {
+        const auth = createAuth(authConfigFromEnv({ AUTH_TOKEN_SECRET: 'secret' }));
+        const { token, expiresAt } = auth.issueToken('wall-1', 'viewer', 60);
+
+        const context = auth.authenticate(token);
+        assert.equal(context?.role, 'viewer');
+        assert.equal(context?.subject, 'wall-1');
+        assert.equal(context?.method, 'token');
+        assert.equal(context?.expiresAt, Date.parse(expiresAt));
+
+        assert.equal(auth.authenticate(auth.issueToken('old', 'viewer', -1).token), null);
+    });
+
+    it('rejects tampered tokens and tokens signed with another secret', () => {
+        const auth = createAuth(authConfigFromEnv({ AUTH_TOKEN_SECRET: 'secret' }));
+        const other = createAuth(authConfigFromEnv({ AUTH_TOKEN_SECRET: 'other' }));
+        const { token } = auth.issueToken('wall-1', 'viewer', 60);
+        const [payload, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify({ sub: 'wall-1', role: 'operator', exp: 9999999999 })).toString('base64url');
+
+        assert.equal(auth.authenticate(`${forged}.${signature}`), null);
+        assert.equal(auth.authenticate(`${payload}.${signature}.extra`), null);
+        assert.equal(other.authenticate(token), null);
+        assert.throws(() => createAuth(authConfigFromEnv({})).issueToken('x', 'viewer', 60), /AUTH_TOKEN_SECRET/);
+    });
+
+    it('ranks operators above viewers', () => {
+        const viewer: AuthContext = { role: 'viewer', subject: 'v', method: 'token' };
+        assert.ok(hasRole(viewer, 'viewer'));
+        assert.equal(hasRole(viewer, 'operator'), false);
+        assert.equal(hasRole(undefined, 'viewer'), false);
+    });
+});
+
+describe('auth middleware', () => {
+    const auth = createAuth(authConfigFromEnv({ API_KEYS: `ops@operator:${KEY},viewer:view-key` }));
+    const middleware = auth.middleware(['/health']);
+
+    // Runs the middleware on a request and reports the status it answered with, or 'next'
+    function run(method: string, path: string, headers: Record<string, string> = {}): { outcome: number | 'next'; locals: Record<string, unknown> } {
+        let outcome: number | 'next' = 'next';
+        const res = {
+            locals: {},
+            status(code: number) {
+                outcome = code;
+                return { json: () => {} };
+            }
+        };
+        middleware({ method, path, headers } as unknown as Request, res as unknown as Response, () => {});
+        return { outcome, locals: res.locals };
+    }
+
+    it('requires credentials except on public paths and preflights', () => {
+        assert.equal(run('GET', '/metrics').outcome, 401);
+        assert.equal(run('GET', '/health').outcome, 'next');
+        assert.equal(run('OPTIONS', '/simulator/start').outcome, 'next');
+    });
+
+    it('lets viewers read and only operators change state', () => {
+        const viewer = { 'x-api-key': 'view-key' };
+        assert.equal(run('GET', '/metrics', viewer).outcome, 'next');
+        assert.equal(run('POST', '/simulator/start', viewer).outcome, 403);
+
+        const operator = run('POST', '/simulator/start', { authorization: `Bearer ${KEY}` });
+        assert.equal(operator.outcome, 'next');
+        assert.deepEqual(operator.locals.auth, { role: 'operator', subject: 'api-key:ops', method: 'api_key' });
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    crc32,
+    decodeBinaryTelemetry,
+    decodeTelemetryPacket,
+    encodeBinaryTelemetry,
+    isBinaryTelemetryPacket
+} from '../src/binaryCodec';
+import { rejectionKey } from '../src/validation';
+import { telemetrySample } from './fixtures';
+
+// Rewrites the trailing CRC after the packet was modified
+function resign(packet: Buffer): Buffer {
+    packet.writeUInt32LE(crc32(packet, packet.length - 4), packet.length - 4);
+    return packet;
+}
+
+describe('binaryCodec', () => {
+    it('computes the standard CRC-32', () => {
+        assert.equal(crc32(Buffer.from('123456789', 'ascii')), 0xcbf43926);
+    });
+
+    it('round-trips a packet with its sequence number and vehicle id', () => {
+        const sample = telemetrySample();
+        const packet = encodeBinaryTelemetry(sample, 42);
+        assert.equal(packet.length, 82);
+        assert.ok(isBinaryTelemetryPacket(packet));
+
+        const decoded = decodeTelemetryPacket(packet);
+        assert.equal(decoded.format, 'binary');
+        assert.equal(decoded.sequence, 42);
+        assert.ok(decoded.valid);
+        assert.deepEqual(decoded.data, sample);
+    });
+
+    it('leaves the vehicle id out when the packet has none', () => {
+        const { vehicleId, ...sample } = telemetrySample();
+        const decoded = decodeBinaryTelemetry(encodeBinaryTelemetry(sample, 1));
+        assert.ok(decoded.valid);
+        assert.deepEqual(decoded.data, sample);
+    });
+
+    it('refuses to encode a vehicle id longer than its field', () => {
+        assert.throws(() => encodeBinaryTelemetry(telemetrySample({ vehicleId: 'x'.repeat(17) }), 0), RangeError);
+    });
+
+    it('decodes version 1 packets without a vehicle id', () => {
+        const v2 = encodeBinaryTelemetry(telemetrySample(), 3);
+        const v1 = Buffer.alloc(66);
+        v2.copy(v1, 0, 0, 62);
+        v1.writeUInt8(1, 4);
+        const decoded = decodeBinaryTelemetry(resign(v1));
+        assert.ok(decoded.valid);
+        assert.equal(decoded.data.vehicleId, undefined);
+        assert.equal(decoded.sequence, 3);
+    });
+
+    it('rejects a corrupted packet by its CRC', () => {
+        const packet = encodeBinaryTelemetry(telemetrySample(), 1);
+        packet[20] ^= 0xff;
+        const decoded = decodeBinaryTelemetry(packet);
+        assert.ok(!decoded.valid);
+        assert.deepEqual(decoded.issues.map(rejectionKey), ['crc_mismatch']);
+    });
+
+    it('rejects truncated packets and unknown versions', () => {
+        const packet = encodeBinaryTelemetry(telemetrySample(), 1);
+
+        const truncated = decodeBinaryTelemetry(packet.subarray(0, 70));
+        assert.ok(!truncated.valid);
+        assert.deepEqual(truncated.issues.map(rejectionKey), ['bad_length']);
+
+        packet.writeUInt8(9, 4);
+        const unknown = decodeBinaryTelemetry(packet);
+        assert.ok(!unknown.valid);
+        assert.deepEqual(unknown.issues.map(rejectionKey), ['unsupported_version']);
+    });
+
+    it('validates decoded values against the schema', () => {
+        const packet = encodeBinaryTelemetry(telemetrySample({ battery_percentage: 150 }), 1);
+        const decoded = decodeBinaryTelemetry(packet);
+        assert.ok(!decoded.valid);
+        assert.deepEqual(decoded.issues.map(rejectionKey), ['out_of_range:battery_percentage']);
+    });
+
+    it('falls back to JSON for packets without the magic header', () => {
+        const decoded = decodeTelemetryPacket(Buffer.from(JSON.stringify({ ...telemetrySample(), sequence: 5 })));
+        assert.equal(decoded.format, 'json');
+        assert.ok(decoded.valid);
+        assert.equal(decoded.sequence, 5);
+    });
+});
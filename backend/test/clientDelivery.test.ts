@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Socket } from 'socket.io';
+import { createClientDelivery, DeliveryPolicy, parseDeliveryPolicy } from '../src/clientDelivery';
+
+const reliable: DeliveryPolicy = { mode: 'reliable', maxRate: 10, disconnectAfterMs: 5000 };
+
+// Just enough of a Socket.IO socket: an id, an engine.io write buffer and disconnect()
+function fakeSocket(id: string) {
+    const socket = {
+        id,
+        disconnected: false,
+        conn: { writeBuffer: [] as unknown[], transport: { name: 'websocket' } },
+        handshake: { address: '127.0.0.1' },
+        disconnect() {
+            socket.disconnected = true;
+        },
+        // Simulates a client that is not reading: `count` packets stuck in its queue
+        backlog(count: number) {
+            socket.conn.writeBuffer = new Array(count).fill(null);
+        }
+    };
+    return socket;
+}
+
+function setup(policy: Partial<DeliveryPolicy> = {}) {
+    const delivery = createClientDelivery({ defaultPolicy: { ...reliable, ...policy }, highWaterMark: 10 });
+    const socket = fakeSocket('a');
+    delivery.register(socket as unknown as Socket, 'api-key:ops', 'operator');
+    return { delivery, socket };
+}
+
+describe('parseDeliveryPolicy', () => {
+    it('applies a partial update on top of the current policy', () => {
+        assert.deepEqual(parseDeliveryPolicy({ mode: 'decimate' }, reliable), { ...reliable, mode: 'decimate' });
+    });
+
+    it('rejects invalid policies with a message', () => {
+        const cases: [unknown, RegExp][] = [
+            ['fast', /JSON object/],
+            [{ mode: 'lossy' }, /mode must be one of/],
+            [{ maxRate: 0 }, /maxRate/],
+            [{ maxRate: '5' }, /maxRate/],
+            [{ disconnectAfterMs: -1 }, /disconnectAfterMs/]
+        ];
+        for (const [input, error] of cases) {
+            assert.match(String(parseDeliveryPolicy(input, reliable)), error);
+        }
+    });
+});
+
+describe('client delivery', () => {
+    it('sends everything to reliable clients, even when they lag', () => {
+        const { delivery, socket } = setup();
+        socket.backlog(50);
+        assert.deepEqual(delivery.selectRecipients(['a', 'unknown'], 'uav-1'), ['a']);
+        assert.equal(delivery.getTotals().lagging, 1);
+    });
+
+    it('skips volatile clients while they lag and resumes below half the high water mark', () => {
+        const { delivery, socket } = setup({ mode: 'volatile' });
+
+        socket.backlog(10);
+        assert.deepEqual(delivery.selectRecipients(['a'], 'uav-1'), []);
+        socket.backlog(6);
+        assert.deepEqual(delivery.selectRecipients(['a'], 'uav-1'), []);
+        socket.backlog(4);
+        assert.deepEqual(delivery.selectRecipients(['a'], 'uav-1'), ['a']);
+
+        assert.equal(delivery.getTotals().dropped, 2);
+        assert.equal(delivery.getStats()[0].maxBuffered, 10);
+    });
+
+    it('thins each vehicle out to maxRate in decimate mode', () => {
+        const { delivery } = setup({ mode: 'decimate', maxRate: 10 });
+        const sent = (vehicleId: string, now: number) => delivery.selectRecipients(['a'], vehicleId, now).length;
+
+        assert.equal(sent('uav-1', 1000), 1);
+        assert.equal(sent('uav-1', 1050), 0);
+        assert.equal(sent('uav-2', 1050), 1);
+        assert.equal(sent('uav-1', 1100), 1);
+        assert.equal(delivery.getTotals().decimated, 1);
+    });
+
+    it('disconnects clients that lag for longer than their policy allows', () => {
+        const { delivery, socket } = setup({ disconnectAfterMs: 5000 });
+        socket.backlog(20);
+
+        assert.deepEqual(delivery.disconnectSlowClients(1000), []);
+        assert.deepEqual(delivery.disconnectSlowClients(5999), []);
+        assert.deepEqual(delivery.disconnectSlowClients(6000), ['a']);
+        assert.ok(socket.disconnected);
+        assert.equal(delivery.getTotals().slowDisconnects, 1);
+    });
+
+    it('never disconnects when disconnectAfterMs is 0', () => {
+        const { delivery, socket } = setup({ disconnectAfterMs: 0 });
+        socket.backlog(20);
+        delivery.disconnectSlowClients(0);
+        assert.deepEqual(delivery.disconnectSlowClients(60000), []);
+    });
+
+    it('changes and forgets per-client policies', () => {
+        const { delivery } = setup();
+        assert.ok(delivery.setPolicy('a', { ...reliable, mode: 'volatile' }));
+        assert.equal(delivery.getPolicy('a')?.mode, 'volatile');
+        assert.equal(delivery.getDefaultPolicy().mode, 'reliable');
+
+        delivery.unregister('a');
+        assert.equal(delivery.setPolicy('a', reliable), false);
+        assert.equal(delivery.getTotals().clients, 0);
+    });
+});
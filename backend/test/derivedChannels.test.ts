@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHANNELS, createDerivedChannels } from '../src/derivedChannels';
+import { distanceNm } from '../src/scenarioEngine';
+import { telemetryMessage } from './fixtures';
+
+const MINUTE = 60000;
+
+describe('derived channels', () => {
+    it('has only airspeed for a vehicle\'s first sample', () => {
+        const derived = createDerivedChannels().derive(telemetryMessage(0));
+        assert.deepEqual(derived, {
+            airspeed: Math.hypot(10, -5, 0.5),
+            verticalSpeed: null,
+            distanceTraveled: 0,
+            batteryDrainRate: null,
+            timeToEmpty: null
+        });
+    });
+
+    it('computes rates and distance from consecutive samples', () => {
+        const channels = createDerivedChannels();
+        channels.derive(telemetryMessage(0));
+        const derived = channels.derive(telemetryMessage(MINUTE, { altitude: 1300, latitude: 52.11, battery_percentage: 79 }));
+
+        assert.equal(derived.verticalSpeed, 100);
+        assert.equal(derived.distanceTraveled, distanceNm(52.1, 4.3, 52.11, 4.3));
+        assert.equal(derived.batteryDrainRate, 60);
+        assert.equal(derived.timeToEmpty, 79);
+    });
+
+    it('smooths the drain rate and has no time to empty while charging', () => {
+        const channels = createDerivedChannels();
+        channels.derive(telemetryMessage(0));
+        channels.derive(telemetryMessage(MINUTE, { battery_percentage: 79 }));
+        const derived = channels.derive(telemetryMessage(2 * MINUTE, { battery_percentage: 80 }));
+
+        assert.ok(derived.batteryDrainRate! < 0 && derived.batteryDrainRate! > -60);
+        assert.equal(derived.timeToEmpty, null);
+    });
+
+    it('leaves out position jumps faster than any vehicle flies', () => {
+        const channels = createDerivedChannels();
+        channels.derive(telemetryMessage(0));
+        const derived = channels.derive(telemetryMessage(MINUTE, { latitude: 62.1 }));
+        assert.equal(derived.distanceTraveled, 0);
+    });
+
+    it('only re-baselines on a repeated or earlier timestamp', () => {
+        const channels = createDerivedChannels();
+        channels.derive(telemetryMessage(MINUTE));
+        const derived = channels.derive(telemetryMessage(0, { altitude: 1300, latitude: 52.11 }));
+        assert.equal(derived.verticalSpeed, null);
+        assert.equal(derived.distanceTraveled, 0);
+
+        // The next sample is measured from the re-baselined one
+        const next = channels.derive(telemetryMessage(MINUTE, { altitude: 1400, latitude: 52.11 }));
+        assert.equal(next.verticalSpeed, 100);
+        assert.equal(next.distanceTraveled, 0);
+    });
+
+    it('keeps separate state for the same vehicle on different sources', () => {
+        const channels = createDerivedChannels();
+        channels.derive(telemetryMessage(0));
+        const other = channels.derive(telemetryMessage(MINUTE, { sourceConnection: 'udp:127.0.0.1:5001', altitude: 5000 }));
+        assert.equal(other.verticalSpeed, null);
+
+        const same = channels.derive(telemetryMessage(MINUTE, { altitude: 1300 }));
+        assert.equal(same.verticalSpeed, 100);
+    });
+
+    it('lists raw channels with their schema limits and derived ones as live only', () => {
+        const altitude = CHANNELS.find(channel => channel.name === 'altitude');
+        assert.equal(altitude?.kind, 'raw');
+        assert.equal(altitude?.historical, true);
+        assert.equal(typeof altitude?.min, 'number');
+
+        const airspeed = CHANNELS.find(channel => channel.name === 'airspeed');
+        assert.deepEqual(
+            [airspeed?.kind, airspeed?.path, airspeed?.historical],
+            ['derived', 'derived.airspeed', false]
+        );
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as dgram from 'dgram';
+import * as os from 'os';
+import * as path from 'path';
+import { once } from 'events';
+import { setTimeout as sleep } from 'timers/promises';
+import { createFaultInjector, FaultConfig, FaultType, parseFaultConfig } from '../src/faultInjector';
+import { createSimulator } from '../src/simulator';
+import { createStressModes } from '../src/stressModes';
+
+const none = (): FaultConfig => ({
+    probabilities: { loss: 0, duplicate: 0, reorder: 0, truncate: 0, corrupt: 0 },
+    outage: null
+});
+
+const only = (type: FaultType): FaultConfig => ({ ...none(), probabilities: { ...none().probabilities, [type]: 1 } });
+
+const packet = (label: string) => Buffer.from(label);
+
+// Injects each packet and returns what was sent, in order
+function sendThrough(injector: ReturnType<typeof createFaultInjector>, labels: string[]): string[] {
+    const sent: string[] = [];
+    for (const label of labels) injector.inject(packet(label), out => sent.push(out.toString()));
+    return sent;
+}
+
+describe('parseFaultConfig', () => {
+    it('applies a partial update on top of the current config', () => {
+        const current = { ...only('loss'), outage: { durationMs: 100, periodMs: 1000 } };
+        assert.deepEqual(parseFaultConfig({ probabilities: { duplicate: 0.5 } }, current), {
+            probabilities: { loss: 1, duplicate: 0.5, reorder: 0, truncate: 0, corrupt: 0 },
+            outage: { durationMs: 100, periodMs: 1000 }
+        });
+        assert.equal((parseFaultConfig({ outage: null }, current) as FaultConfig).outage, null);
+    });
+
+    it('rejects invalid updates with a message', () => {
+        const cases: [unknown, RegExp][] = [
+            [null, /JSON object/],
+            [{ probabilities: 'all' }, /probabilities must be an object/],
+            [{ probabilities: { jitter: 0.1 } }, /Unknown fault type "jitter"/],
+            [{ probabilities: { loss: 1.5 } }, /probabilities.loss must be a number between 0 and 1/],
+            [{ outage: { durationMs: 10 } }, /outage.periodMs/],
+            [{ outage: { durationMs: 100, periodMs: 100 } }, /outage.durationMs/]
+        ];
+        for (const [input, error] of cases) {
+            assert.match(String(parseFaultConfig(input, none())), error);
+        }
+    });
+});
+
+describe('fault injector', () => {
+    it('passes packets through untouched when disabled', () => {
+        const injector = createFaultInjector();
+        assert.deepEqual(sendThrough(injector, ['a', 'b']), ['a', 'b']);
+        assert.equal(injector.getStatus().enabled, false);
+        assert.equal(injector.getStatus().injected.sent, 2);
+    });
+
+    it('applies faults with probability 1 to every packet', () => {
+        const injector = createFaultInjector();
+
+        injector.configure(only('loss'));
+        assert.deepEqual(sendThrough(injector, ['a', 'b']), []);
+
+        injector.configure(only('duplicate'));
+        assert.deepEqual(sendThrough(injector, ['c']), ['c', 'c']);
+
+        injector.configure(only('truncate'));
+        const [truncated] = sendThrough(injector, ['abcdef']);
+        assert.ok(truncated.length < 6 && 'abcdef'.startsWith(truncated));
+
+        injector.configure(only('corrupt'));
+        const [corrupted] = sendThrough(injector, ['abcdef']);
+        assert.notEqual(corrupted, 'abcdef');
+        assert.equal(corrupted.length, 6);
+
+        const { injected } = injector.getStatus();
+        assert.deepEqual(
+            [injected.packets, injected.lost, injected.duplicated, injected.truncated, injected.corrupted],
+            [5, 2, 1, 1, 1]
+        );
+    });
+
+    it('sends a reordered packet right after the next one', () => {
+        const injector = createFaultInjector();
+        injector.configure(only('reorder'));
+        assert.deepEqual(sendThrough(injector, ['1', '2', '3', '4']), ['2', '1', '4', '3']);
+        assert.equal(injector.getStatus().injected.reordered, 2);
+    });
+
+    it('drops the held packet on reset', () => {
+        const injector = createFaultInjector();
+        injector.configure(only('reorder'));
+        const before: string[] = [];
+        injector.inject(packet('old'), out => before.push(out.toString()));
+        injector.reset();
+
+        injector.clear();
+        assert.deepEqual(sendThrough(injector, ['new']), ['new']);
+        assert.deepEqual(before, []);
+    });
+
+    it('drops everything during the outage at the end of each period', () => {
+        mock.timers.enable({ apis: ['Date'], now: 0 });
+        try {
+            const injector = createFaultInjector();
+            injector.configure({ ...none(), outage: { durationMs: 300, periodMs: 1000 } });
+
+            const sent: number[] = [];
+            for (let time = 0; time < 2000; time += 100) {
+                mock.timers.tick(100);
+                injector.inject(packet(String(time)), () => sent.push(time));
+            }
+
+            assert.equal(sent.length, 14);
+            const { injected } = injector.getStatus();
+            assert.equal(injected.outageDropped, 6);
+            assert.equal(injected.outages, 2);
+        } finally {
+            mock.timers.reset();
+        }
+    });
+});
+
+describe('simulator with faults', () => {
+    it('does not send a packet held for reordering after a restart', async () => {
+        const target = dgram.createSocket('udp4');
+        target.bind(0, '127.0.0.1');
+        await once(target, 'listening');
+        const sequences: number[] = [];
+        target.on('message', msg => sequences.push(JSON.parse(msg.toString()).sequence));
+
+        const faults = createFaultInjector();
+        faults.configure(only('reorder'));
+        const stressModes = createStressModes(path.join(os.tmpdir(), `stress-modes-${process.pid}.json`));
+        stressModes.activate('high_frequency');
+        const simulator = createSimulator({
+            targetPort: target.address().port,
+            targetHost: '127.0.0.1',
+            packetFormat: 'json',
+            fleetSize: 1,
+            scenarios: [],
+            stressModes,
+            faults
+        });
+
+        // The first packet is held back, then the simulator stops before the next one is sent
+        simulator.start();
+        simulator.stop();
+        simulator.start();
+        await sleep(300);
+        simulator.stop();
+        await sleep(20);
+        target.close();
+
+        assert.ok(sequences.length > 0);
+        assert.equal(sequences.includes(0), false);
+    });
+});
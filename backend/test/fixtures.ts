@@ -0,0 +1,34 @@
+import { FlightTelemetry, TelemetryMessage } from '../src/types';
+
+// A telemetry sample inside every schema limit; float32-exact so it survives the binary format
+export function telemetrySample(overrides: Partial<FlightTelemetry> = {}): FlightTelemetry {
+    return {
+        vehicleId: 'uav-1',
+        timestamp: '2025-01-01T00:00:00.000Z',
+        altitude: 1200,
+        speedX: 10,
+        speedY: -5,
+        speedZ: 0.5,
+        heading: 90,
+        latitude: 52.1,
+        longitude: 4.3,
+        temperature: 18.25,
+        battery_percentage: 80,
+        ...overrides
+    };
+}
+
+// A message as it leaves ingestion; `time` sets both the sample timestamp and the receive time
+export function telemetryMessage(time: number, overrides: Partial<TelemetryMessage> = {}): TelemetryMessage {
+    return {
+        ...telemetrySample(),
+        timestamp: new Date(time).toISOString(),
+        vehicleId: 'uav-1',
+        receivedAt: time,
+        messageId: 1,
+        sourceConnection: 'udp:127.0.0.1:5000',
+        packetFormat: 'json',
+        derived: { airspeed: 0, verticalSpeed: null, distanceTraveled: 0, batteryDrainRate: null, timeToEmpty: null },
+        ...overrides
+    };
+}
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { advanceAircraft, createFleet, fleetVehicleId } from '../src/fleetSimulator';
+import { validateTelemetry } from '../src/validation';
+
+describe('fleetSimulator', () => {
+    it('gives every aircraft its own vehicle id', () => {
+        const fleet = createFleet(12);
+        assert.equal(new Set(fleet.map(aircraft => aircraft.vehicleId)).size, 12);
+        assert.equal(fleet[0].vehicleId, 'SIM-001');
+        assert.equal(fleetVehicleId(11), 'SIM-012');
+    });
+
+    it('produces samples that pass validation over a long flight', () => {
+        const [aircraft] = createFleet(1);
+        let now = aircraft.lastUpdate;
+        for (let step = 0; step < 600; step++) {
+            now += 1000;
+            const sample = advanceAircraft(aircraft, now);
+            const result = validateTelemetry(sample);
+            assert.ok(result.valid, JSON.stringify(!result.valid && result.issues));
+            assert.equal(sample.vehicleId, aircraft.vehicleId);
+            assert.equal(sample.timestamp, new Date(now).toISOString());
+        }
+    });
+
+    it('moves the aircraft along its heading', () => {
+        const [aircraft] = createFleet(1);
+        const start = { latitude: aircraft.latitude, longitude: aircraft.longitude };
+        advanceAircraft(aircraft, aircraft.lastUpdate + 10000);
+        assert.notDeepEqual({ latitude: aircraft.latitude, longitude: aircraft.longitude }, start);
+    });
+
+    it('does not move an aircraft when no time has passed', () => {
+        const [aircraft] = createFleet(1);
+        const start = { ...aircraft };
+        advanceAircraft(aircraft, aircraft.lastUpdate);
+        assert.equal(aircraft.latitude, start.latitude);
+        assert.equal(aircraft.longitude, start.longitude);
+        assert.equal(aircraft.altitude, start.altitude);
+    });
+});
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GeofenceEvent, GeofenceZone, createGeofences, parseGeofenceZone } from '../src/geofences';
+import { telemetryMessage } from './fixtures';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'geofences-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// A square around the fixture position (52.1, 4.3)
+const square = {
+    type: 'polygon',
+    points: [
+        { latitude: 52, longitude: 4.2 },
+        { latitude: 52, longitude: 4.4 },
+        { latitude: 52.2, longitude: 4.4 },
+        { latitude: 52.2, longitude: 4.2 }
+    ]
+};
+
+function zone(input: object, id = 'zone-1'): GeofenceZone {
+    const parsed = parseGeofenceZone({ name: 'Field', shape: square, ...input }, id);
+    assert.equal(typeof parsed, 'object', String(parsed));
+    return parsed as GeofenceZone;
+}
+
+// Positions inside and outside the square, one sample per minute
+const inside = (time: number, overrides = {}) => telemetryMessage(time * 60000, { latitude: 52.1, longitude: 4.3, ...overrides });
+const outside = (time: number, overrides = {}) => telemetryMessage(time * 60000, { latitude: 53, longitude: 4.3, ...overrides });
+
+describe('parseGeofenceZone', () => {
+    it('fills in defaults and trims the name', () => {
+        assert.deepEqual(parseGeofenceZone({ name: ' Field ', shape: square }, 'id'), {
+            id: 'id',
+            name: 'Field',
+            enabled: true,
+            shape: square,
+            restriction: 'none'
+        });
+    });
+
+    it('accepts a circle with an altitude band and vehicle filter', () => {
+        const circle = { type: 'circle', center: { latitude: 52.1, longitude: 4.3 }, radiusNm: 2 };
+        const parsed = parseGeofenceZone({
+            name: 'Pad', shape: circle, floorFt: 0, ceilingFt: 400, restriction: 'keep-in', vehicleId: 'uav-1', enabled: false
+        }, 'id') as GeofenceZone;
+        assert.deepEqual(parsed.shape, circle);
+        assert.deepEqual([parsed.floorFt, parsed.ceilingFt, parsed.restriction, parsed.vehicleId, parsed.enabled], [0, 400, 'keep-in', 'uav-1', false]);
+    });
+
+    it('rejects invalid zones', () => {
+        const cases: [unknown, RegExp][] = [
+            [null, /JSON object/],
+            [{ shape: square }, /name is required/],
+            [{ name: 'Field' }, /shape is required/],
+            [{ name: 'Field', shape: { type: 'hexagon' } }, /shape.type/],
+            [{ name: 'Field', shape: { type: 'circle', center: { latitude: 52, longitude: 4 }, radiusNm: 0 } }, /radiusNm/],
+            [{ name: 'Field', shape: { type: 'circle', center: { latitude: 91, longitude: 4 }, radiusNm: 1 } }, /shape.center/],
+            [{ name: 'Field', shape: { type: 'polygon', points: square.points.slice(0, 2) } }, /3 to 1000/],
+            [{ name: 'Field', shape: { type: 'polygon', points: [...square.points.slice(0, 3), { latitude: 'x' }] } }, /shape.points\[3\]/],
+            [{ name: 'Field', shape: square, floorFt: '100' }, /floorFt must be a number/],
+            [{ name: 'Field', shape: square, floorFt: 500, ceilingFt: 400 }, /below ceilingFt/],
+            [{ name: 'Field', shape: square, enabled: 'false' }, /enabled must be true or false/],
+            [{ name: 'Field', shape: square, restriction: 'no-fly' }, /restriction must be one of/]
+        ];
+        for (const [input, error] of cases) assert.match(String(parseGeofenceZone(input)), error);
+    });
+});
+
+describe('geofences', () => {
+    const file = () => path.join(dir, 'zones.json');
+
+    it('raises enter and exit as a vehicle crosses a polygon', () => {
+        const events: GeofenceEvent[] = [];
+        const geofences = createGeofences(file(), event => events.push(event));
+        geofences.saveZone(zone({}));
+
+        geofences.evaluate(outside(0));
+        geofences.evaluate(inside(1));
+        assert.deepEqual(geofences.getOccupants('zone-1'), [{ sourceConnection: 'udp:127.0.0.1:5000', vehicleId: 'uav-1' }]);
+        geofences.evaluate(inside(2));
+        geofences.evaluate(outside(3));
+
+        assert.deepEqual(events.map(event => event.type), ['enter', 'exit']);
+        assert.equal(events[0].timestamp, new Date(60000).toISOString());
+        assert.deepEqual(geofences.getEvents('zone-1', 1), [events[1]]);
+        assert.deepEqual(geofences.getOccupants('zone-1'), []);
+    });
+
+    it('counts a first sample inside a circle as an entry and respects the altitude band', () => {
+        const events: GeofenceEvent[] = [];
+        const geofences = createGeofences(file(), event => events.push(event));
+        geofences.saveZone(zone({
+            shape: { type: 'circle', center: { latitude: 52.1, longitude: 4.3 }, radiusNm: 1 },
+            ceilingFt: 2000
+        }));
+
+        geofences.evaluate(inside(0));
+        geofences.evaluate(inside(1, { altitude: 2500 }));
+        assert.deepEqual(events.map(event => event.type), ['enter', 'exit']);
+    });
+
+    it('raises a breach once per violation of a restriction', () => {
+        const events: GeofenceEvent[] = [];
+        const geofences = createGeofences(file(), event => events.push(event));
+        geofences.saveZone(zone({ restriction: 'keep-in' }));
+
+        geofences.evaluate(outside(0));
+        geofences.evaluate(outside(1));
+        geofences.evaluate(inside(2));
+        geofences.evaluate(outside(3));
+        assert.deepEqual(events.map(event => event.type), ['breach', 'enter', 'exit', 'breach']);
+    });
+
+    it('tracks the same vehicle separately per source and honours zone filters', () => {
+        const events: GeofenceEvent[] = [];
+        const geofences = createGeofences(file(), event => events.push(event));
+        geofences.saveZone(zone({}));
+        geofences.saveZone(zone({ vehicleId: 'uav-2' }, 'zone-2'));
+        geofences.saveZone(zone({ enabled: false }, 'zone-3'));
+
+        geofences.evaluate(inside(0));
+        geofences.evaluate(outside(0, { sourceConnection: 'udp:127.0.0.1:5001' }));
+        geofences.evaluate(inside(1));
+        assert.deepEqual(events.map(event => [event.zoneId, event.type, event.sourceConnection]), [
+            ['zone-1', 'enter', 'udp:127.0.0.1:5000']
+        ]);
+    });
+
+    it('restarts tracking when a zone changes and drops history when it is deleted', () => {
+        const events: GeofenceEvent[] = [];
+        const geofences = createGeofences(file(), event => events.push(event));
+        geofences.saveZone(zone({}));
+        geofences.evaluate(inside(0));
+
+        geofences.saveZone(zone({ name: 'Renamed' }));
+        geofences.evaluate(inside(1));
+        assert.deepEqual(events.map(event => event.zoneName), ['Field', 'Renamed']);
+
+        assert.equal(geofences.deleteZone('zone-1'), true);
+        assert.equal(geofences.deleteZone('zone-1'), false);
+        assert.deepEqual(geofences.getEvents('zone-1'), []);
+    });
+
+    it('writes zones on every change and loads them back', () => {
+        const geofences = createGeofences(file());
+        assert.equal(fs.existsSync(file()), false);
+
+        geofences.saveZone(zone({}));
+        geofences.saveZone(zone({}, 'zone-2'));
+        geofences.deleteZone('zone-2');
+
+        assert.deepEqual(createGeofences(file()).getZones(), [zone({})]);
+    });
+
+    it('skips stored zones that no longer parse, keeping the ids of the rest', () => {
+        fs.writeFileSync(file(), JSON.stringify([{ id: 'field', name: 'Field', shape: square }, { id: 'broken', name: 'No shape' }, 7]));
+        const events: GeofenceEvent[] = [];
+        const geofences = createGeofences(file(), event => events.push(event));
+        assert.deepEqual(geofences.getZones().map(zone => zone.id), ['field']);
+        geofences.evaluate(inside(0));
+        assert.deepEqual(events.map(event => [event.zoneId, event.type]), [['field', 'enter']]);
+
+        fs.writeFileSync(file(), 'zones');
+        assert.throws(() => createGeofences(file()), /Geofences file .* is not valid JSON/);
+    });
+});
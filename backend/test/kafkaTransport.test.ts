@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeTelemetryRecord } from '../src/transport/kafka';
+import { telemetryMessage } from './fixtures';
+
+describe('decodeTelemetryRecord', () => {
+    it('decodes a message as ingestion publishes it', () => {
+        const message = telemetryMessage(0, { sequence: 7 });
+        assert.deepEqual(decodeTelemetryRecord(JSON.stringify(message)), message);
+    });
+
+    it('rejects records that are not telemetry messages', () => {
+        const message = telemetryMessage(0);
+        const cases: [unknown, RegExp][] = [
+            [null, /not a JSON object/],
+            [42, /not a JSON object/],
+            ['x', /not a JSON object/],
+            [{ ...message, altitude: 99999 }, /altitude 99999 is outside/],
+            [{ ...message, vehicleId: undefined }, /vehicleId is required/],
+            [{ ...message, messageId: undefined }, /messageId/],
+            [{ ...message, receivedAt: '0' }, /receivedAt/],
+            [{ ...message, sourceConnection: 5 }, /sourceConnection/],
+            [{ ...message, packetFormat: 'xml' }, /packetFormat/],
+            [{ ...message, derived: undefined }, /derived must be an object/],
+            [{ ...message, derived: { ...message.derived, airspeed: null } }, /derived.airspeed/],
+            [{ ...message, derived: { ...message.derived, timeToEmpty: 'soon' } }, /derived.timeToEmpty/]
+        ];
+        for (const [record, error] of cases) assert.match(String(decodeTelemetryRecord(JSON.stringify(record))), error);
+        assert.match(String(decodeTelemetryRecord('{')), /JSON/);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLatencyRecorder } from '../src/latency';
+
+describe('latency recorder', () => {
+    it('interpolates percentiles within their bucket', () => {
+        const latency = createLatencyRecorder();
+        for (let ms = 1; ms <= 100; ms++) latency.record('pipeline', ms);
+
+        const { pipeline, network } = latency.getSnapshots();
+        assert.deepEqual(pipeline, { count: 100, negative: 0, min: 1, max: 100, mean: 50.5, p50: 50, p95: 95, p99: 99 });
+        assert.equal(network.count, 0);
+    });
+
+    it('counts negative samples as zero and ignores non-finite ones', () => {
+        const latency = createLatencyRecorder();
+        latency.record('network', -5);
+        latency.record('network', NaN);
+        latency.record('network', Infinity);
+
+        const { network } = latency.getSnapshots();
+        assert.equal(network.count, 1);
+        assert.equal(network.negative, 1);
+        assert.equal(network.min, 0);
+    });
+
+    it('exports cumulative bucket counts and resets', () => {
+        const latency = createLatencyRecorder();
+        for (const ms of [0.2, 3, 3, 120000]) latency.record('endToEnd', ms);
+
+        const { buckets, count, sum } = latency.getBuckets('endToEnd');
+        assert.equal(count, 4);
+        assert.equal(sum, 120006.2);
+        assert.equal(buckets.find(bucket => bucket.le === 0.5)?.count, 1);
+        assert.equal(buckets.find(bucket => bucket.le === 3)?.count, 3);
+        // The overflow sample only shows up in the +Inf bucket, i.e. `count`
+        assert.equal(buckets[buckets.length - 1].count, 3);
+
+        latency.reset();
+        assert.equal(latency.getSnapshots().endToEnd.count, 0);
+    });
+});
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { createServer } from 'http';
+import { once } from 'events';
+import { promisify } from 'util';
+import { Server } from 'socket.io';
+import { AddressInfo } from 'net';
+import { analyzeClient, parseArgs, summarize } from '../src/loadTest';
+import { createTelemetryServer } from '../src/server';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'loadtest-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Runs the load test script against `url` for a second and returns its report
+async function runLoadTest(url: string, args: string[] = []) {
+    const out = path.join(dir, 'report.json');
+    await promisify(execFile)(process.execPath, [
+        '-r', 'ts-node/register/transpile-only', 'src/loadTest.ts',
+        '--url', url, '--clients', '2', '--duration', '1', '--out', out, ...args
+    ], { cwd: path.resolve(__dirname, '..'), timeout: 60000 });
+    return JSON.parse(fs.readFileSync(out, 'utf8'));
+}
+
+type ClientState = Parameters<typeof analyzeClient>[0];
+
+const client = (ids: number[], overrides: Partial<ClientState> = {}): ClientState => ({
+    socket: undefined as unknown as ClientState['socket'],
+    connected: true,
+    clockOffset: 1.23,
+    ids,
+    delivery: [],
+    endToEnd: [],
+    ...overrides
+});
+
+describe('load test', () => {
+    it('parses options with defaults', () => {
+        const options = parseArgs(['--clients', '5.7', '--rate', '100', '--format', 'msgpack', '--url', 'http://host:8000/']);
+        assert.equal(options.clients, 5);
+        assert.equal(options.rate, 100);
+        assert.equal(options.durationSeconds, 30);
+        assert.equal(options.format, 'msgpack');
+        assert.equal(options.url, 'http://host:8000');
+        assert.match(options.out, /^loadtest-.+\.json$/);
+    });
+
+    it('rejects bad options', () => {
+        assert.throws(() => parseArgs(['--clients', '0']), /--clients must be a number of at least 1/);
+        assert.throws(() => parseArgs(['--format', 'xml']), /--format must be one of message/);
+        assert.throws(() => parseArgs(['--rate']), /Unexpected argument "--rate"/);
+        assert.throws(() => parseArgs(['clients']), /Unexpected argument "clients"/);
+    });
+
+    it('summarizes latency samples by rank', () => {
+        const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+        assert.deepEqual(summarize(samples), { count: 100, min: 1, mean: 50.5, p50: 51, p95: 96, p99: 100, max: 100 });
+        assert.equal(summarize([]).count, 0);
+    });
+
+    it('counts gaps, duplicates, reordering and ids other clients got', () => {
+        const result = analyzeClient(
+            client([10, 11, 13, 12, 12, 16], { delivery: [5, 7] }),
+            3,
+            new Set([9, 10, 11, 12, 13, 14, 15, 16, 17]),
+            { first: 10, last: 16 },
+            2
+        );
+
+        assert.equal(result.index, 3);
+        assert.equal(result.messages, 6);
+        assert.equal(result.messagesPerSecond, 3);
+        assert.equal(result.gaps, 2);
+        assert.equal(result.duplicates, 1);
+        assert.equal(result.outOfOrder, 1);
+        assert.equal(result.missedVsOthers, 2);
+        assert.equal(result.clockOffsetMs, 1.2);
+        assert.equal(result.delivery.mean, 6);
+    });
+});
+
+describe('load test run', () => {
+    it('stops the simulator it started and puts the stress mode back', async () => {
+        const server = createTelemetryServer({
+            port: 0,
+            alertRulesFile: path.join(dir, 'alert-rules.json'),
+            geofencesFile: path.join(dir, 'geofences.json'),
+            stressModesFile: path.join(dir, 'stress-modes.json'),
+            scenariosDir: path.join(dir, 'scenarios'),
+            ingestion: {
+                listeners: [{ port: 0, address: '127.0.0.1', label: 'test' }],
+                tcpListeners: [],
+                recordings: { dir: path.join(dir, 'recordings'), maxFileBytes: 1024 * 1024 },
+                telemetryStore: { dir: path.join(dir, 'telemetry'), segmentMs: 60000, retentionMs: 3600000 }
+            },
+            simulator: { autoStart: false }
+        });
+        const { port } = await server.start();
+        try {
+            const report = await runLoadTest(`http://127.0.0.1:${port}`, ['--rate', '20']);
+            assert.equal(report.totals.connected, 2);
+            assert.ok(report.totals.messages > 0);
+
+            const status = await fetch(`http://127.0.0.1:${port}/simulator/status`).then(res => res.json());
+            assert.equal(status.isRunning, false);
+            assert.equal(status.currentMode, 'normal');
+        } finally {
+            await server.stop();
+        }
+    });
+
+    it('counts a client whose clock sync is never answered as failed', async () => {
+        // A Socket.IO server with no event handlers, so latency pings are never acknowledged
+        const httpServer = createServer((req, res) => res.writeHead(404).end()).listen(0, '127.0.0.1');
+        const io = new Server(httpServer);
+        await once(httpServer, 'listening');
+        const { port } = httpServer.address() as AddressInfo;
+        try {
+            const report = await runLoadTest(`http://127.0.0.1:${port}`);
+            assert.equal(report.totals.failed, 2);
+            assert.match(report.clients[0].error, /clock sync failed/);
+        } finally {
+            await new Promise(resolve => io.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setImmediate as tick } from 'timers/promises';
+import { BrokerRecord, createMemoryBroker, partitionForKey } from '../src/transport/memoryBroker';
+import { createMemoryTransport } from '../src/transport/memory';
+import { transportConfigFromEnv } from '../src/transport';
+import { TelemetryMessage } from '../src/types';
+
+describe('memoryBroker', () => {
+    it('keeps a key on the same partition', () => {
+        const partition = partitionForKey('udp:127.0.0.1:5000', 8);
+        assert.ok(partition >= 0 && partition < 8);
+        assert.equal(partitionForKey('udp:127.0.0.1:5000', 8), partition);
+    });
+
+    it('delivers records asynchronously, in order per key', async () => {
+        const broker = createMemoryBroker<number>({ retention: 100 });
+        broker.createTopic('t', 4);
+        const received: BrokerRecord<number>[] = [];
+        broker.subscribe('t', 'g', record => received.push(record));
+
+        for (let value = 0; value < 5; value++) broker.produce('t', 'a', value);
+        assert.equal(received.length, 0);
+
+        await tick();
+        assert.deepEqual(received.map(record => record.value), [0, 1, 2, 3, 4]);
+        assert.deepEqual(received.map(record => record.offset), [0, 1, 2, 3, 4]);
+        assert.equal(broker.getLag('t', 'g').reduce((sum, p) => sum + p.lag, 0), 0);
+    });
+
+    it('starts new groups at the latest offset and lets them seek back', async () => {
+        const broker = createMemoryBroker<string>({ retention: 100 });
+        broker.createTopic('t', 1);
+        broker.produce('t', 'a', 'old');
+
+        const received: string[] = [];
+        broker.subscribe('t', 'late', record => received.push(record.value));
+        await tick();
+        assert.deepEqual(received, []);
+
+        broker.seek('t', 'late', 0, 0);
+        await tick();
+        assert.deepEqual(received, ['old']);
+    });
+
+    it('spreads partitions across group members and gives every group its own copy', async () => {
+        const broker = createMemoryBroker<number>({ retention: 100 });
+        broker.createTopic('t', 2);
+        const first: number[] = [];
+        const second: number[] = [];
+        const other: number[] = [];
+        broker.subscribe('t', 'g', record => first.push(record.partition));
+        broker.subscribe('t', 'g', record => second.push(record.partition));
+        broker.subscribe('t', 'h', record => other.push(record.partition));
+
+        for (let i = 0; i < 20; i++) broker.produce('t', `key-${i}`, i);
+        await tick();
+
+        assert.equal(first.length + second.length, 20);
+        assert.ok(first.every(partition => partition === 0));
+        assert.ok(second.every(partition => partition === 1));
+        assert.equal(other.length, 20);
+    });
+
+    it('drops records past retention and reports the lag of a stopped group', async () => {
+        const broker = createMemoryBroker<number>({ retention: 3 });
+        broker.createTopic('t', 1);
+        const unsubscribe = broker.subscribe('t', 'g', () => {});
+        unsubscribe();
+
+        for (let i = 0; i < 5; i++) broker.produce('t', 'a', i);
+        assert.deepEqual(broker.endOffsets('t'), [5]);
+        assert.deepEqual(broker.getLag('t', 'g'), [{ partition: 0, endOffset: 5, committedOffset: 0, lag: 5 }]);
+
+        const received: number[] = [];
+        broker.subscribe('t', 'g', record => received.push(record.value));
+        await tick();
+        assert.deepEqual(received, [2, 3, 4]);
+    });
+
+    it('rejects unknown topics', () => {
+        const broker = createMemoryBroker<number>({ retention: 1 });
+        assert.throws(() => broker.produce('missing', 'a', 1), /Unknown topic "missing"/);
+    });
+});
+
+describe('memory transport', () => {
+    it('hands published messages to the consumer and counts them', async () => {
+        const transport = createMemoryTransport({ topic: 't', groupId: 'g', partitions: 2, retention: 10 });
+        const received: TelemetryMessage[] = [];
+        await transport.start(message => received.push(message));
+
+        const message = { sourceConnection: 'udp:a' } as TelemetryMessage;
+        transport.publish(message);
+        await tick();
+
+        assert.deepEqual(received, [message]);
+        const stats = transport.getStats();
+        assert.equal(stats.published, 1);
+        assert.equal(stats.consumed, 1);
+        assert.equal(stats.consumerLag.total, 0);
+
+        await transport.stop();
+        assert.equal(transport.getStats().connected, false);
+    });
+});
+
+describe('transportConfigFromEnv', () => {
+    it('defaults to the direct transport and a consumer group per host', () => {
+        const config = transportConfigFromEnv({});
+        assert.equal(config.kind, 'direct');
+        assert.match(config.groupId, /^telemetry-dashboard-.+/);
+    });
+
+    it('rejects an unknown transport', () => {
+        assert.throws(() => transportConfigFromEnv({ TELEMETRY_TRANSPORT: 'rabbit' }), /Unknown TELEMETRY_TRANSPORT "rabbit"/);
+    });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { once } from 'events';
+import { setTimeout as sleep } from 'timers/promises';
+import { connectAsync } from 'mqtt';
+import { createMqttBridge, parseTopicList } from '../src/mqttBridge';
+import { Ingestion } from '../src/ingestion';
+import { createTelemetryServer } from '../src/server';
+import { telemetrySample } from './fixtures';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mqtt-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// The embedded broker needs a fixed port, so borrow one the OS hands out
+async function freePort(): Promise<number> {
+    const server = net.createServer().listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    const { port } = server.address() as net.AddressInfo;
+    await new Promise(resolve => server.close(resolve));
+    return port;
+}
+
+async function until(condition: () => boolean, what: string) {
+    for (let waited = 0; !condition(); waited += 20) {
+        if (waited > 5000) assert.fail(`Timed out waiting for ${what}`);
+        await sleep(20);
+    }
+}
+
+describe('parseTopicList', () => {
+    it('splits and trims topic filters, skipping empty entries', () => {
+        assert.deepEqual(parseTopicList(' groundstation/+/telemetry, ,rigs/#,'), ['groundstation/+/telemetry', 'rigs/#']);
+        assert.deepEqual(parseTopicList(''), []);
+    });
+});
+
+describe('MQTT bridge', () => {
+    it('ingests subscribed topics and republishes telemetry through the embedded broker', async () => {
+        const brokerPort = await freePort();
+        const server = createTelemetryServer({
+            port: 0,
+            alertRulesFile: path.join(dir, 'alert-rules.json'),
+            geofencesFile: path.join(dir, 'geofences.json'),
+            stressModesFile: path.join(dir, 'stress-modes.json'),
+            scenariosDir: path.join(dir, 'scenarios'),
+            ingestion: {
+                listeners: [],
+                tcpListeners: [],
+                recordings: { dir: path.join(dir, 'recordings'), maxFileBytes: 1024 * 1024 },
+                telemetryStore: { dir: path.join(dir, 'telemetry'), segmentMs: 60000, retentionMs: 3600000 }
+            },
+            simulator: { autoStart: false },
+            mqtt: { url: 'embedded', embeddedPort: brokerPort, subscribe: ['groundstation/+/telemetry', 'telemetry/#'] }
+        });
+        await server.start();
+        const brokerId = `mqtt:mqtt://127.0.0.1:${brokerPort}`;
+        const client = await connectAsync(`mqtt://127.0.0.1:${brokerPort}`, { reconnectPeriod: 0 });
+        try {
+            await until(() => server.ingestion.connections.get(brokerId)?.status === 'listening', 'the bridge to subscribe');
+            await client.subscribeAsync('telemetry/#');
+
+            const republished: Map<string, string> = new Map();
+            client.on('message', (topic, payload) => republished.set(topic, payload.toString()));
+            await client.publishAsync('groundstation/rig-1/telemetry', JSON.stringify(telemetrySample()));
+
+            await until(() => republished.has('telemetry/uav-1/airspeed'), 'the republished telemetry');
+            assert.equal(server.ingestion.connections.get('mqtt:groundstation/rig-1/telemetry')?.messagesReceived, 1);
+            assert.equal(JSON.parse(republished.get('telemetry/uav-1')!).sourceConnection, 'mqtt:groundstation/rig-1/telemetry');
+            assert.equal(republished.get('telemetry/uav-1/altitude'), '1200');
+
+            // Republished telemetry matches the "telemetry/#" subscription but isn't fed back in
+            const status = server.mqtt!.getStatus();
+            assert.deepEqual([status.connected, status.received, status.published], [true, 1, 1]);
+        } finally {
+            await client.endAsync();
+            await server.stop();
+        }
+        assert.equal(server.ingestion.connections.has(brokerId), false);
+    });
+
+    it('closes the embedded broker again when its port is taken', async () => {
+        const blocker = net.createServer().listen(0, '127.0.0.1');
+        await once(blocker, 'listening');
+        const { port } = blocker.address() as net.AddressInfo;
+
+        const bridge = createMqttBridge(
+            { url: 'embedded', embeddedPort: port, clientId: 'test', subscribe: [], publishPrefix: '', qos: 0 },
+            { ingestion: { connections: new Map() } as unknown as Ingestion, onConnectionChange: () => {} }
+        );
+        try {
+            // A broker left open keeps the test process from exiting
+            await assert.rejects(bridge.start(), { code: 'EADDRINUSE' });
+        } finally {
+            blocker.close();
+        }
+    });
+});
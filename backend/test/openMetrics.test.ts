@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createExposition } from '../src/openMetrics';
+
+describe('OpenMetrics exposition', () => {
+    it('writes counters with _total and gauges as they are', () => {
+        const text = createExposition()
+            .counter('packets', 'Packets received', [{ labels: { source: 'a' }, value: 3 }, { value: 1 }])
+            .gauge('clients', 'Connected clients', [{ value: 2 }])
+            .render();
+
+        assert.equal(text, [
+            '# TYPE packets counter',
+            '# HELP packets Packets received',
+            'packets_total{source="a"} 3',
+            'packets_total 1',
+            '# TYPE clients gauge',
+            '# HELP clients Connected clients',
+            'clients 2',
+            '# EOF',
+            ''
+        ].join('\n'));
+    });
+
+    it('writes histogram buckets, +Inf, count and sum', () => {
+        const text = createExposition()
+            .histogram('latency_seconds', 'Latency', [{
+                labels: { stage: 'pipeline' },
+                buckets: [{ le: 0.001, count: 2 }, { le: 0.01, count: 5 }],
+                count: 6,
+                sum: 0.5
+            }])
+            .render();
+
+        assert.deepEqual(text.split('\n').slice(2, -2), [
+            'latency_seconds_bucket{stage="pipeline",le="0.001"} 2',
+            'latency_seconds_bucket{stage="pipeline",le="0.01"} 5',
+            'latency_seconds_bucket{stage="pipeline",le="+Inf"} 6',
+            'latency_seconds_count{stage="pipeline"} 6',
+            'latency_seconds_sum{stage="pipeline"} 0.5'
+        ]);
+    });
+
+    it('escapes label values and help text and formats special values', () => {
+        const text = createExposition()
+            .gauge('g', 'line one\nline two', [
+                { labels: { path: 'C:\\data "x"\n' }, value: NaN },
+                { value: Infinity },
+                { value: -Infinity }
+            ])
+            .render();
+
+        assert.deepEqual(text.split('\n').slice(1, 5), [
+            '# HELP g line one\\nline two',
+            'g{path="C:\\\\data \\"x\\"\\n"} NaN',
+            'g +Inf',
+            'g -Inf'
+        ]);
+    });
+});
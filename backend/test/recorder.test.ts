@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as dgram from 'dgram';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { once } from 'events';
+import { setTimeout as sleep } from 'timers/promises';
+import { createRecorder } from '../src/recorder';
+import { createReplayer, isValidReplaySpeed } from '../src/replay';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('recorder', () => {
+    it('writes text and binary packets and reads them back', async () => {
+        const recorder = createRecorder({ dir, maxFileBytes: 1024 * 1024 });
+        const { recordingId } = recorder.start('flight 1');
+        assert.match(recordingId!, /^flight_1-/);
+
+        recorder.record(Buffer.from('{"a":1}'), 'src-a', 'l1', false);
+        recorder.record(Buffer.from([0, 1, 255]), 'src-b', 'l1', true);
+        const status = await recorder.stop();
+        assert.equal(status?.packetsWritten, 2);
+        assert.equal(await recorder.stop(), null);
+
+        const packets = recorder.load(recordingId!);
+        assert.deepEqual(packets.map(packet => Buffer.from(packet.payload, packet.encoding)), [
+            Buffer.from('{"a":1}'),
+            Buffer.from([0, 1, 255])
+        ]);
+        assert.deepEqual(packets.map(packet => packet.sourceConnection), ['src-a', 'src-b']);
+    });
+
+    it('rotates parts and loads them in order', async () => {
+        const recorder = createRecorder({ dir, maxFileBytes: 200 });
+        const { recordingId } = recorder.start();
+        for (let i = 0; i < 12; i++) recorder.record(Buffer.from(`packet-${i}`), 'src', 'l1', false);
+        await recorder.stop();
+
+        const [info] = recorder.list();
+        assert.ok(info.parts.length > 2);
+        assert.equal(info.parts[0], `${recordingId}.0.ndjson`);
+        assert.deepEqual(
+            recorder.load(recordingId!).map(packet => packet.payload),
+            Array.from({ length: 12 }, (_, i) => `packet-${i}`)
+        );
+    });
+
+    it('refuses a second recording while one is running', async () => {
+        const recorder = createRecorder({ dir, maxFileBytes: 1024 });
+        recorder.start();
+        assert.throws(() => recorder.start(), /already in progress/);
+        await recorder.stop();
+    });
+
+    it('ends the recording when its file cannot be written', async () => {
+        const recorder = createRecorder({ dir: path.join(dir, 'gone'), maxFileBytes: 1024 });
+        recorder.start();
+        fs.rmSync(path.join(dir, 'gone'), { recursive: true });
+        recorder.record(Buffer.from('x'), 'src', 'l1', false);
+
+        for (let attempt = 0; attempt < 50 && recorder.getStatus().isRecording; attempt++) await sleep(10);
+        const status = recorder.getStatus();
+        assert.equal(status.isRecording, false);
+        assert.match(status.error!, /ENOENT/);
+
+        recorder.start();
+        assert.equal(recorder.getStatus().error, undefined);
+        await recorder.stop();
+    });
+});
+
+describe('replayer', () => {
+    it('accepts only positive speeds up to 1000x, or max', () => {
+        assert.ok(isValidReplaySpeed('max'));
+        assert.ok(isValidReplaySpeed(2.5));
+        for (const speed of [0, -1, 1001, NaN, '2']) assert.equal(isValidReplaySpeed(speed), false);
+    });
+
+    it('sends every recorded packet to the target and finishes', async () => {
+        const recorder = createRecorder({ dir, maxFileBytes: 1024 * 1024 });
+        const { recordingId } = recorder.start();
+        for (let i = 0; i < 20; i++) recorder.record(Buffer.from(`packet-${i}`), `src-${i % 2}`, 'l1', false);
+        await recorder.stop();
+
+        const target = dgram.createSocket('udp4');
+        target.bind(0, '127.0.0.1');
+        await once(target, 'listening');
+        const received: string[] = [];
+        target.on('message', msg => received.push(msg.toString()));
+
+        let finished = false;
+        const replayer = createReplayer(recorder, () => { finished = true; });
+        replayer.start({ recordingId: recordingId!, speed: 'max', targetPort: target.address().port });
+
+        for (let attempt = 0; attempt < 100 && received.length < 20; attempt++) await sleep(10);
+        target.close();
+
+        assert.equal(received.length, 20);
+        assert.ok(finished);
+        assert.equal(replayer.getStatus().isRunning, false);
+        await replayer.stop();
+    });
+
+    it('waits for queued sends before stop resolves', async () => {
+        const recorder = createRecorder({ dir, maxFileBytes: 1024 * 1024 });
+        const { recordingId } = recorder.start();
+        for (let i = 0; i < 5; i++) recorder.record(Buffer.from('x'), 'src', 'l1', false);
+        await recorder.stop();
+
+        const replayer = createReplayer(recorder);
+        replayer.start({ recordingId: recordingId!, speed: 'max', targetPort: 9, targetHost: '127.0.0.1' });
+        assert.equal(replayer.getStatus().packetsSent, 5);
+        await replayer.stop();
+        assert.equal(replayer.getStatus().isRunning, false);
+    });
+});
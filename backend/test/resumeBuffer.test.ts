@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createResumeBuffer } from '../src/resumeBuffer';
+import { telemetryServerOptionsFromEnv } from '../src/server';
+import { telemetryMessage } from './fixtures';
+
+const T0 = Date.parse('2025-01-01T00:00:00.000Z');
+
+const message = (messageId: number, vehicleId = 'uav-1') => telemetryMessage(T0 + messageId, { messageId, vehicleId });
+
+const ids = (result: { messages: { messageId: number }[] }) => result.messages.map(entry => entry.messageId);
+
+describe('resume buffer', () => {
+    it('returns what a client missed since its last messageId', () => {
+        const buffer = createResumeBuffer(10);
+        for (let id = 1; id <= 5; id++) buffer.add(message(id));
+
+        assert.deepEqual(buffer.since(3), { messages: [message(4), message(5)], lost: null, restarted: false });
+        assert.deepEqual(ids(buffer.since(5)), []);
+    });
+
+    it('reports the range that aged out of the ring', () => {
+        const buffer = createResumeBuffer(3);
+        for (let id = 1; id <= 7; id++) buffer.add(message(id));
+
+        const result = buffer.since(2);
+        assert.deepEqual(ids(result), [5, 6, 7]);
+        assert.deepEqual(result.lost, { from: 3, to: 4 });
+        assert.deepEqual(buffer.getStats(), { capacity: 3, size: 3, oldestMessageId: 5, newestMessageId: 7 });
+    });
+
+    it('only counts losses for the vehicles asked for', () => {
+        const buffer = createResumeBuffer(2);
+        buffer.add(message(1, 'a'));
+        buffer.add(message(2, 'b'));
+        buffer.add(message(3, 'b'));
+        buffer.add(message(4, 'b'));
+
+        assert.deepEqual(buffer.since(0, new Set(['a'])).lost, { from: 1, to: 1 });
+        const b = buffer.since(1, new Set(['b']));
+        assert.deepEqual(ids(b), [3, 4]);
+        assert.deepEqual(b.lost, { from: 2, to: 2 });
+        assert.equal(buffer.since(0, new Set(['c'])).lost, null);
+    });
+
+    it('sends everything it has when the client is ahead of the server', () => {
+        const buffer = createResumeBuffer(10);
+        buffer.add(message(1));
+        buffer.add(message(2));
+
+        const result = buffer.since(500);
+        assert.equal(result.restarted, true);
+        assert.deepEqual(ids(result), [1, 2]);
+    });
+
+    it('keeps nothing with a capacity of 0 and says so', () => {
+        const buffer = createResumeBuffer(0);
+        buffer.add(message(1));
+        buffer.add(message(2));
+
+        assert.deepEqual(buffer.since(0), { messages: [], lost: { from: 1, to: 2 }, restarted: false });
+        assert.deepEqual(buffer.getStats(), { capacity: 0, size: 0, oldestMessageId: null, newestMessageId: null });
+    });
+});
+
+describe('RESUME_BUFFER_SIZE', () => {
+    it('defaults to 5000 and accepts 0', () => {
+        assert.equal(telemetryServerOptionsFromEnv({}).resumeBufferSize, 5000);
+        assert.equal(telemetryServerOptionsFromEnv({ RESUME_BUFFER_SIZE: '0' }).resumeBufferSize, 0);
+    });
+
+    it('rejects anything but a non-negative integer', () => {
+        for (const RESUME_BUFFER_SIZE of ['lots', '-1', '2.5']) {
+            assert.throws(() => telemetryServerOptionsFromEnv({ RESUME_BUFFER_SIZE }), /Invalid RESUME_BUFFER_SIZE/);
+        }
+    });
+});
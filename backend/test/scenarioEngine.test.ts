@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    advanceScenarioFlight,
+    createScenarioFlight,
+    distanceNm,
+    getScenarioFlightStatus,
+    loadScenarios,
+    parseScenario,
+    Scenario
+} from '../src/scenarioEngine';
+import { validateTelemetry } from '../src/validation';
+
+const route = {
+    id: 'hop',
+    waypoints: [
+        { name: 'DEP', latitude: 40.0, longitude: -74.0, elevation: 100 },
+        { name: 'ARR', latitude: 40.3, longitude: -74.0, elevation: 50 }
+    ],
+    phases: [
+        { phase: 'takeoff', speed: 90, altitude: 1000 },
+        { phase: 'climb', speed: 120, altitude: 4000 },
+        { phase: 'cruise', speed: 140 },
+        { phase: 'descent', speed: 120, altitude: 1500 },
+        { phase: 'landing', speed: 70 }
+    ],
+    loop: false
+};
+
+function parsed(input: unknown): Scenario {
+    const scenario = parseScenario(input, 'fallback');
+    assert.equal(typeof scenario, 'object', String(scenario));
+    return scenario as Scenario;
+}
+
+describe('parseScenario', () => {
+    it('fills in defaults and keeps only known fields', () => {
+        const scenario = parsed({
+            waypoints: [{ latitude: 1, longitude: 2, extra: true }, { name: 'B', latitude: 3, longitude: 4 }],
+            phases: [{ phase: 'cruise', speed: 100, note: 'x' }],
+            wind: { direction: -90, speed: 10 },
+            unknown: 1
+        });
+
+        assert.deepEqual(scenario, {
+            id: 'fallback',
+            name: 'fallback',
+            waypoints: [{ name: 'WP0', latitude: 1, longitude: 2 }, { name: 'B', latitude: 3, longitude: 4 }],
+            phases: [{ phase: 'cruise', speed: 100 }],
+            wind: { direction: 270, speed: 10 },
+            turbulence: 'none',
+            surfaceTemperature: 15,
+            loop: true
+        });
+    });
+
+    it('rejects invalid scenarios with a message', () => {
+        const cases: [unknown, RegExp][] = [
+            ['text', /JSON object/],
+            [{ ...route, id: 'bad id' }, /id must only contain/],
+            [{ ...route, waypoints: [route.waypoints[0]] }, /departure and an arrival/],
+            [{ ...route, waypoints: [route.waypoints[0], { latitude: 91, longitude: 0 }] }, /waypoints\[1\]/],
+            [{ ...route, phases: [{ phase: 'hover', speed: 1 }] }, /phases\[0\].phase/],
+            [{ ...route, phases: [{ phase: 'cruise', speed: 0 }] }, /phases\[0\].speed/],
+            [{ ...route, phases: [{ phase: 'cruise', speed: 1, untilWaypoint: 2 }] }, /untilWaypoint/],
+            [{ ...route, turbulence: 'extreme' }, /turbulence/],
+            [{ ...route, wind: { direction: 0, speed: -1 } }, /wind/],
+            [{ ...route, loop: 'no' }, /loop must be true or false/]
+        ];
+        for (const [input, error] of cases) {
+            assert.match(String(parseScenario(input, 'x')), error);
+        }
+    });
+
+    it('loads the bundled scenarios', () => {
+        const scenarios = loadScenarios('scenarios');
+        assert.deepEqual(scenarios.map(scenario => scenario.id), ['kjfk-kbos', 'pattern-work', 'storm-cruise']);
+    });
+});
+
+describe('scenario flight', () => {
+    it('flies every phase in order and lands at the arrival', () => {
+        const scenario = parsed(route);
+        const start = Date.parse('2025-01-01T00:00:00.000Z');
+        const flight = createScenarioFlight(scenario, 'hop-1', 0, start);
+        const phases: string[] = [];
+
+        for (let second = 1; second <= 3 * 3600 && !flight.completed; second++) {
+            const sample = advanceScenarioFlight(flight, start + second * 1000);
+            const result = validateTelemetry(sample);
+            assert.ok(result.valid, JSON.stringify(!result.valid && result.issues));
+
+            const { phase } = getScenarioFlightStatus(flight);
+            if (phases[phases.length - 1] !== phase) phases.push(phase);
+        }
+
+        assert.deepEqual(phases, ['takeoff', 'climb', 'cruise', 'descent', 'landing', 'complete']);
+        assert.ok(flight.onGround);
+        assert.ok(distanceNm(flight.latitude, flight.longitude, 40.3, -74.0) < 2);
+    });
+
+    it('moves consistently with the reported velocity', () => {
+        const scenario = parsed({ ...route, phases: [{ phase: 'cruise', speed: 120, altitude: 3000 }] });
+        const start = Date.parse('2025-01-01T00:00:00.000Z');
+        const flight = createScenarioFlight(scenario, 'hop-1', 0, start);
+
+        let previous = advanceScenarioFlight(flight, start + 1000);
+        for (let second = 2; second < 60; second++) {
+            const sample = advanceScenarioFlight(flight, start + second * 1000);
+            const groundSpeed = Math.hypot(sample.speedX, sample.speedY);
+            const travelled = distanceNm(previous.latitude, previous.longitude, sample.latitude, sample.longitude) * 3600;
+            assert.ok(Math.abs(travelled - groundSpeed) < 5, `${travelled} knots travelled at ${groundSpeed} knots`);
+            previous = sample;
+        }
+    });
+});
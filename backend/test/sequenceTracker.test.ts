@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { createSequenceTracker } from '../src/sequenceTracker';
+import { createReorderBuffer } from '../src/reorderBuffer';
+
+describe('sequenceTracker', () => {
+    it('classifies arrivals and counts losses within the window', () => {
+        const tracker = createSequenceTracker(10);
+        const events = [0, 1, 3, 2, 2, 5, 9].map(sequence => tracker.track('a', sequence));
+
+        assert.deepEqual(events, ['first', 'in_order', 'gap', 'late', 'duplicate', 'gap', 'gap']);
+        assert.deepEqual(tracker.getStats('a'), {
+            lastSequence: 9,
+            received: 7,
+            lost: 4,
+            duplicates: 1,
+            outOfOrder: 1,
+            resets: 0,
+            lossRate: 0.4
+        });
+    });
+
+    it('forgets sequence numbers that fall out of the window', () => {
+        const tracker = createSequenceTracker(4);
+        for (const sequence of [0, 0, 2, 1, 3, 4, 5, 6, 7]) tracker.track('a', sequence);
+
+        // Only 4..7 are in the window now: the duplicate of 0, the gap at 1 and the late 1 no longer count
+        assert.deepEqual(tracker.getStats('a'), {
+            lastSequence: 7,
+            received: 4,
+            lost: 0,
+            duplicates: 0,
+            outOfOrder: 0,
+            resets: 0,
+            lossRate: 0
+        });
+    });
+
+    it('counts a jump past the whole window as losses in the new window', () => {
+        const tracker = createSequenceTracker(4);
+        for (const sequence of [0, 1, 2, 3, 8]) tracker.track('a', sequence);
+
+        const stats = tracker.getStats('a')!;
+        assert.equal(stats.received, 1);
+        assert.equal(stats.lost, 3);
+        assert.equal(stats.lossRate, 0.75);
+    });
+
+    it('treats a sequence number far behind the window as a sender restart', () => {
+        const tracker = createSequenceTracker(10);
+        for (const sequence of [1000, 1001]) tracker.track('a', sequence);
+
+        assert.equal(tracker.track('a', 5), 'reset');
+        assert.equal(tracker.track('a', 6), 'in_order');
+        assert.deepEqual(tracker.getStats('a'), {
+            lastSequence: 6,
+            received: 2,
+            lost: 0,
+            duplicates: 0,
+            outOfOrder: 0,
+            resets: 1,
+            lossRate: 0
+        });
+    });
+
+    it('widens the window down to a late packet from before the first one seen', () => {
+        const tracker = createSequenceTracker(10);
+        tracker.track('a', 10);
+        assert.equal(tracker.track('a', 8), 'late');
+
+        const stats = tracker.getStats('a')!;
+        assert.equal(stats.lost, 1);
+        assert.equal(stats.outOfOrder, 1);
+    });
+
+    it('keeps sources apart', () => {
+        const tracker = createSequenceTracker(10);
+        tracker.track('a', 0);
+        assert.equal(tracker.track('b', 5), 'first');
+        assert.equal(tracker.getStats('missing'), undefined);
+        assert.equal(tracker.getStats('b')!.lastSequence, 5);
+    });
+});
+
+describe('reorderBuffer', () => {
+    it('releases packets in sequence order once the gap fills', () => {
+        const delivered: number[] = [];
+        const buffer = createReorderBuffer<number>({ windowMs: 1000, maxPending: 10 }, item => delivered.push(item));
+
+        buffer.push('a', 0, 'first', 0);
+        buffer.push('a', 2, 'gap', 2);
+        buffer.push('a', 3, 'in_order', 3);
+        assert.deepEqual(delivered, [0]);
+        assert.equal(buffer.getStats().pending, 2);
+
+        buffer.push('a', 1, 'late', 1);
+        assert.deepEqual(delivered, [0, 1, 2, 3]);
+        assert.equal(buffer.getStats().pending, 0);
+        buffer.stop();
+    });
+
+    it('skips a gap once the window expires', async () => {
+        const delivered: number[] = [];
+        const buffer = createReorderBuffer<number>({ windowMs: 20, maxPending: 10 }, item => delivered.push(item));
+
+        buffer.push('a', 0, 'first', 0);
+        buffer.push('a', 2, 'gap', 2);
+        await sleep(60);
+
+        assert.deepEqual(delivered, [0, 2]);
+        assert.equal(buffer.getStats().gapsSkipped, 1);
+        buffer.stop();
+    });
+
+    it('skips the oldest gap when too many packets are held', () => {
+        const delivered: number[] = [];
+        const buffer = createReorderBuffer<number>({ windowMs: 1000, maxPending: 2 }, item => delivered.push(item));
+
+        buffer.push('a', 0, 'first', 0);
+        for (const sequence of [2, 3, 5]) buffer.push('a', sequence, 'gap', sequence);
+
+        assert.deepEqual(delivered, [0, 2, 3]);
+        assert.equal(buffer.getStats().pending, 1);
+        buffer.stop();
+    });
+
+    it('drops duplicates and packets whose slot was already released', () => {
+        const drops: string[] = [];
+        const delivered: number[] = [];
+        const buffer = createReorderBuffer<number>(
+            { windowMs: 1000, maxPending: 10, onDrop: source => drops.push(source) },
+            item => delivered.push(item)
+        );
+
+        buffer.push('a', 5, 'first', 5);
+        buffer.push('a', 5, 'duplicate', 5);
+        buffer.push('a', 4, 'late', 4);
+
+        assert.deepEqual(delivered, [5]);
+        assert.deepEqual(drops, ['a', 'a']);
+        assert.equal(buffer.getStats().dropped, 2);
+        buffer.stop();
+    });
+
+    it('flushes held packets when the sender restarts', () => {
+        const delivered: number[] = [];
+        const buffer = createReorderBuffer<number>({ windowMs: 1000, maxPending: 10 }, item => delivered.push(item));
+
+        buffer.push('a', 100, 'first', 100);
+        buffer.push('a', 102, 'gap', 102);
+        buffer.push('a', 0, 'reset', 0);
+
+        assert.deepEqual(delivered, [100, 102, 0]);
+        buffer.stop();
+    });
+});
@@ -0,0 +1,303 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import * as dgram from 'dgram';
+import { io as connect } from 'socket.io-client';
+import { once } from 'events';
+import { createTelemetryServer, TelemetryServer, TelemetryServerInit } from '../src/server';
+import { TelemetryMessage } from '../src/types';
+import { telemetrySample } from './fixtures';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'server-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Everything on ephemeral loopback ports and under the test's temp dir, with the simulator left off
+function testServerInit(init: TelemetryServerInit = {}): TelemetryServerInit {
+    return {
+        port: 0,
+        alertRulesFile: path.join(dir, 'alert-rules.json'),
+        geofencesFile: path.join(dir, 'geofences.json'),
+        stressModesFile: path.join(dir, 'stress-modes.json'),
+        scenariosDir: path.join(dir, 'scenarios'),
+        ...init,
+        ingestion: {
+            listeners: [{ port: 0, address: '127.0.0.1', label: 'test' }],
+            tcpListeners: [],
+            recordings: { dir: path.join(dir, 'recordings'), maxFileBytes: 1024 * 1024 },
+            telemetryStore: { dir: path.join(dir, 'telemetry'), segmentMs: 60000, retentionMs: 3600000 },
+            ...init.ingestion
+        },
+        simulator: { autoStart: false, ...init.simulator }
+    };
+}
+
+function testServer(init: TelemetryServerInit = {}): TelemetryServer {
+    return createTelemetryServer(testServerInit(init));
+}
+
+/*
+ * Runs a server in a child process that has to exit on its own, which only happens once nothing
+ * (timer, socket, watcher) keeps its event loop alive. With `start`, the server is started and
+ * stopped again first. Returns the exit status, or null when it did not exit in time.
+ */
+function exitsOnItsOwn(init: TelemetryServerInit, start: boolean): number | null {
+    const script = `
+        const { createTelemetryServer } = require('./src/server');
+        const server = createTelemetryServer(JSON.parse(process.env.SERVER_INIT));
+        if (process.env.START_SERVER) {
+            server.start()
+                .then(() => new Promise(resolve => setTimeout(resolve, 200)))
+                .then(() => server.stop());
+        }
+    `;
+    const child = spawnSync(process.execPath, ['-r', 'ts-node/register/transpile-only', '-e', script], {
+        cwd: path.resolve(__dirname, '..'),
+        env: { ...process.env, SERVER_INIT: JSON.stringify(testServerInit(init)), START_SERVER: start ? '1' : '' },
+        timeout: 30000,
+        stdio: 'ignore'
+    });
+    return child.signal ? null : child.status;
+}
+
+describe('GET /telemetry', () => {
+    it('rejects a limit that is not a positive integer', async () => {
+        const server = testServer();
+        const { port } = await server.start();
+        try {
+            for (const limit of ['0', '-5', '2.5', 'ten', '']) {
+                const res = await fetch(`http://127.0.0.1:${port}/telemetry?limit=${limit}`);
+                assert.equal(res.status, 400, `limit=${limit}`);
+                assert.match((await res.json()).error, /limit must be a positive integer/);
+            }
+
+            const res = await fetch(`http://127.0.0.1:${port}/telemetry?limit=100000`);
+            assert.equal(res.status, 200);
+        } finally {
+            await server.stop();
+        }
+    });
+});
+
+describe('GET /metrics/prometheus', () => {
+    it('serves an OpenMetrics exposition', async () => {
+        const server = testServer();
+        const { port } = await server.start();
+        try {
+            const res = await fetch(`http://127.0.0.1:${port}/metrics/prometheus`);
+            assert.equal(res.status, 200);
+            assert.match(res.headers.get('content-type')!, /^application\/openmetrics-text;.*version=1\.0\.0/);
+
+            const text = await res.text();
+            assert.match(text, /^# TYPE telemetry_packets_received counter$/m);
+            assert.match(text, /^telemetry_udp_listeners 1$/m);
+            assert.match(text, /^telemetry_latency_seconds_bucket\{stage="pipeline",le="\+Inf"\} 0$/m);
+            assert.ok(text.endsWith('# EOF\n'));
+        } finally {
+            await server.stop();
+        }
+    });
+});
+
+describe('server lifecycle', () => {
+    it('does nothing until it is started', () => {
+        assert.equal(exitsOnItsOwn({}, false), 0);
+        assert.deepEqual(fs.readdirSync(dir), []);
+    });
+
+    it('releases everything it opened when stopped', () => {
+        assert.equal(exitsOnItsOwn({ simulator: { autoStart: true, startDelayMs: 0 } }, true), 0);
+    });
+
+    it('runs side by side with another server', async () => {
+        const first = testServer();
+        const second = testServer();
+        const [a, b] = await Promise.all([first.start(), second.start()]);
+        try {
+            assert.notEqual(a.port, b.port);
+            const res = await fetch(`http://127.0.0.1:${b.port}/health`);
+            assert.equal(res.status, 200);
+        } finally {
+            await Promise.all([first.stop(), second.stop()]);
+        }
+    });
+
+    it('stops what it already started when start fails', async () => {
+        const blocker = net.createServer();
+        blocker.listen(0);
+        await once(blocker, 'listening');
+        const { port } = blocker.address() as net.AddressInfo;
+
+        const server = testServer({ port, simulator: { autoStart: true, startDelayMs: 0 } });
+        try {
+            await assert.rejects(server.start(), { code: 'EADDRINUSE' });
+            assert.deepEqual(server.ingestion.listeners.list(), []);
+            await new Promise(resolve => setTimeout(resolve, 50));
+            assert.equal(server.simulator.getStatus().isRunning, false);
+        } finally {
+            blocker.close();
+        }
+    });
+
+    it('fails to start when the MQTT bridge cannot start', async () => {
+        const blocker = net.createServer();
+        blocker.listen(0);
+        await once(blocker, 'listening');
+        const { port } = blocker.address() as net.AddressInfo;
+
+        const server = testServer({ mqtt: { url: 'embedded', embeddedPort: port } });
+        try {
+            await assert.rejects(server.start(), { code: 'EADDRINUSE' });
+            assert.deepEqual(server.ingestion.listeners.list(), []);
+            assert.equal(server.ingestion.connections.size, 0);
+        } finally {
+            blocker.close();
+        }
+    });
+});
+
+describe('telemetry backfill', () => {
+    it('sends a reconnecting client what it missed before any live telemetry', async () => {
+        const server = testServer();
+        const { port } = await server.start();
+        const sender = dgram.createSocket('udp4');
+        const socket = connect(`http://127.0.0.1:${port}`, { autoConnect: false, reconnection: false, transports: ['websocket'] });
+        try {
+            const delivered: TelemetryMessage[] = [];
+            server.onTelemetry(message => delivered.push(message));
+            const udpPort = server.ingestion.listeners.list()[0].config.port;
+            for (let sequence = 0; sequence < 3; sequence++) {
+                sender.send(JSON.stringify({ ...telemetrySample(), sequence }), udpPort, '127.0.0.1');
+            }
+            for (let attempt = 0; attempt < 100 && delivered.length < 3; attempt++) await new Promise(resolve => setTimeout(resolve, 10));
+            assert.equal(delivered.length, 3);
+
+            socket.auth = { lastMessageId: delivered[0].messageId };
+            const backfill = new Promise<{ recovered: number; lost: unknown; messages: TelemetryMessage[] }>(resolve =>
+                socket.once('telemetryBackfill', resolve)
+            );
+            socket.connect();
+            const report = await backfill;
+
+            assert.equal(report.recovered, 2);
+            assert.equal(report.lost, null);
+            assert.deepEqual(
+                report.messages.map(message => message.messageId),
+                delivered.slice(1).map(message => message.messageId)
+            );
+        } finally {
+            socket.close();
+            sender.close();
+            await server.stop();
+        }
+    });
+});
+
+describe('POST /ingest', () => {
+    it('ingests a batch and reports the samples it rejected', async () => {
+        const server = testServer();
+        const { port } = await server.start();
+        try {
+            const ingest = (body: unknown, query = '') => fetch(`http://127.0.0.1:${port}/ingest${query}`, {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify(body)
+            });
+
+            const res = await ingest([telemetrySample(), { ...telemetrySample(), altitude: 'high' }], '?source=test-rig');
+            assert.equal(res.status, 200);
+            const report = await res.json();
+            assert.deepEqual([report.accepted, report.rejected, report.errors[0].index], [1, 1, 1]);
+
+            const connection = server.ingestion.connections.get('http:test-rig');
+            assert.equal(connection?.protocol, 'http');
+            assert.deepEqual([connection?.messagesReceived, connection?.messagesRejected], [2, 1]);
+
+            assert.equal((await ingest([])).status, 400);
+            assert.equal((await ingest(telemetrySample(), '?source=bad%20name')).status, 400);
+            assert.equal((await ingest(Array(1001).fill(telemetrySample()))).status, 413);
+        } finally {
+            await server.stop();
+        }
+    });
+
+    it('keeps ingesting when the telemetry store cannot write', async () => {
+        fs.writeFileSync(path.join(dir, 'file'), '');
+        const server = testServer({
+            ingestion: { telemetryStore: { dir: path.join(dir, 'file', 'telemetry'), segmentMs: 60000, retentionMs: 3600000 } }
+        });
+        const { port } = await server.start();
+        try {
+            for (let i = 0; i < 2; i++) {
+                const res = await fetch(`http://127.0.0.1:${port}/ingest`, {
+                    method: 'POST',
+                    headers: { 'content-type': 'application/json' },
+                    body: JSON.stringify(telemetrySample())
+                });
+                assert.equal((await res.json()).accepted, 1);
+            }
+            assert.match(server.ingestion.store.getStats().writeError!, /ENOTDIR/);
+        } finally {
+            await server.stop();
+        }
+    });
+});
+
+describe('list endpoints', () => {
+    it('reject a limit that is not a positive integer', async () => {
+        const server = testServer();
+        const { port } = await server.start();
+        try {
+            const zone = await fetch(`http://127.0.0.1:${port}/geofences`, {
+                method: 'POST',
+                headers: { 'content-type': 'application/json' },
+                body: JSON.stringify({ name: 'Pad', shape: { type: 'circle', center: { latitude: 52, longitude: 4 }, radiusNm: 1 } })
+            }).then(res => res.json());
+
+            for (const endpoint of ['/alerts', `/geofences/${zone.id}/events`, '/quarantine']) {
+                for (const limit of ['-5', '2.5', '0', 'ten', '']) {
+                    const res = await fetch(`http://127.0.0.1:${port}${endpoint}?limit=${limit}`);
+                    assert.equal(res.status, 400, `${endpoint}?limit=${limit}`);
+                    assert.match((await res.json()).error, /limit must be a positive integer/);
+                }
+                assert.equal((await fetch(`http://127.0.0.1:${port}${endpoint}?limit=5`)).status, 200);
+                assert.equal((await fetch(`http://127.0.0.1:${port}${endpoint}`)).status, 200);
+            }
+        } finally {
+            await server.stop();
+        }
+    });
+});
+
+describe('latency reports', () => {
+    it('caps the samples one client can add to the histograms', async () => {
+        const server = testServer();
+        const { port } = await server.start();
+        const socket = connect(`http://127.0.0.1:${port}`, { reconnection: false, transports: ['websocket'] });
+        try {
+            await new Promise<void>(resolve => socket.once('connect', resolve));
+            const samples = Array.from({ length: 1500 }, (_, i) => i % 100);
+            socket.emit('latencyReport', { delivery: samples, endToEnd: samples });
+            socket.emit('latencyReport', { delivery: samples, endToEnd: samples });
+            // Events are handled in order, so the ack means both reports were processed
+            await socket.emitWithAck('latencyPing', Date.now());
+
+            const { latency } = await fetch(`http://127.0.0.1:${port}/metrics`).then(res => res.json());
+            assert.equal(latency.delivery.count, 1000);
+            assert.equal(latency.endToEnd.count, 1000);
+        } finally {
+            socket.close();
+            await server.stop();
+        }
+    });
+});
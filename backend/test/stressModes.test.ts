@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createStressModes, parseStressMode, StressMode } from '../src/stressModes';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stress-test-'));
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+});
+
+afterEach(() => {
+    mock.timers.reset();
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('parseStressMode', () => {
+    it('fills in defaults and keeps only known fields', () => {
+        assert.deepEqual(parseStressMode({ interval: 25, extra: true, schedule: { stages: [{ interval: 5, durationMs: 1000 }] } }, 'fast'), {
+            id: 'fast',
+            label: 'fast',
+            interval: 25,
+            jitter: 0,
+            schedule: { stages: [{ interval: 5, durationMs: 1000, ramp: false }], repeat: false }
+        });
+        assert.equal((parseStressMode({ id: 'from-body', interval: 10 }) as StressMode).id, 'from-body');
+    });
+
+    it('rejects invalid modes with a message', () => {
+        const cases: [unknown, RegExp][] = [
+            ['fast', /JSON object/],
+            [{ id: 'Fast!', interval: 10 }, /id must be/],
+            [{ id: 'x', interval: 0 }, /interval must be between 1 and 60000/],
+            [{ id: 'x', interval: 10, jitter: -1 }, /jitter/],
+            [{ id: 'x', interval: 10, schedule: { stages: [] } }, /schedule.stages must be a non-empty array/],
+            [{ id: 'x', interval: 10, schedule: { stages: [{ interval: 5 }] } }, /schedule.stages\[0\].durationMs/]
+        ];
+        for (const [input, error] of cases) {
+            assert.match(String(parseStressMode(input)), error);
+        }
+    });
+});
+
+describe('stress modes', () => {
+    it('slides the interval over a ramp stage and then holds it', () => {
+        const modes = createStressModes(path.join(dir, 'modes.json'));
+        assert.ok(modes.activate('ramp_to_10ms'));
+
+        assert.equal(modes.getStatus(150000).currentInterval, 105);
+        assert.equal(modes.nextSendDelay(150000), 105);
+
+        const done = modes.getStatus(400000);
+        assert.equal(done.currentInterval, 10);
+        assert.deepEqual(done.schedule, { elapsedMs: 400000, stageIndex: 0, totalMs: 300000, complete: true });
+    });
+
+    it('steps through a repeating schedule', () => {
+        const modes = createStressModes(path.join(dir, 'modes.json'));
+        modes.activate('step_down');
+
+        assert.deepEqual([0, 60000, 150000, 239999, 240000].map(now => modes.getStatus(now).currentInterval), [100, 50, 25, 12, 100]);
+        assert.equal(modes.getStatus(250000).schedule?.complete, false);
+    });
+
+    it('restarts the schedule when the active mode is saved', () => {
+        const modes = createStressModes(path.join(dir, 'modes.json'));
+        modes.activate('step_down');
+        mock.timers.tick(90000);
+        assert.equal(modes.getStatus().schedule?.stageIndex, 1);
+
+        modes.save(modes.get('step_down')!);
+        assert.equal(modes.getStatus().schedule?.elapsedMs, 0);
+    });
+
+    it('keeps at least one mode and moves off a deleted active mode', () => {
+        const modes = createStressModes(path.join(dir, 'modes.json'));
+        modes.activate('burst');
+        assert.ok(modes.delete('burst'));
+        assert.equal(modes.getStatus().mode.id, 'normal');
+
+        for (const mode of modes.list().slice(1)) modes.delete(mode.id);
+        assert.equal(modes.delete('normal'), false);
+        assert.equal(modes.activate('burst'), false);
+    });
+
+    it('writes the built-in modes only on persist, and loads saved modes back', () => {
+        const file = path.join(dir, 'modes.json');
+        const modes = createStressModes(file);
+        assert.equal(fs.existsSync(file), false);
+
+        modes.persist();
+        assert.deepEqual(createStressModes(file).list(), modes.list());
+    });
+
+    it('skips invalid stored modes and falls back to the built-in ones when none are left', () => {
+        const file = path.join(dir, 'modes.json');
+        fs.writeFileSync(file, JSON.stringify([{ id: 'slow', interval: 1000 }, { id: 'broken' }, null]));
+        const modes = createStressModes(file);
+        assert.deepEqual(modes.list().map(mode => mode.id), ['slow']);
+        assert.equal(modes.getStatus().mode.id, 'slow');
+
+        fs.writeFileSync(file, '[]');
+        const defaults = createStressModes(file);
+        assert.equal(defaults.getStatus().mode.id, 'normal');
+        assert.equal(defaults.nextSendDelay(), 200);
+        // The file is left for the user to fix rather than overwritten
+        defaults.persist();
+        assert.equal(fs.readFileSync(file, 'utf8'), '[]');
+    });
+
+    it('names the file when it is not a JSON array', () => {
+        const file = path.join(dir, 'modes.json');
+        fs.writeFileSync(file, '{ not json');
+        assert.throws(() => createStressModes(file), { message: new RegExp(`Stress modes file ${file} is not valid JSON`) });
+        fs.writeFileSync(file, '{}');
+        assert.throws(() => createStressModes(file), /must contain a JSON array/);
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as net from 'net';
+import { once } from 'events';
+import { MAX_FRAME_BYTES, TCPClient, createTCPListeners, tcpConnectionId } from '../src/tcpListeners';
+import { SourceConnection } from '../src/types';
+
+function frame(payload: string | Buffer): Buffer {
+    const body = Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+    const prefix = Buffer.alloc(4);
+    prefix.writeUInt32BE(body.length);
+    return Buffer.concat([prefix, body]);
+}
+
+// A listener on an ephemeral loopback port that collects the frames and disconnects it sees
+async function openListener() {
+    const connections: Map<string, SourceConnection> = new Map();
+    const frames: string[] = [];
+    const disconnected: TCPClient[] = [];
+    let check = () => {};
+    const listeners = createTCPListeners(connections, {
+        onFrame(data) {
+            frames.push(data.toString());
+            check();
+        },
+        onDisconnect(client) {
+            disconnected.push(client);
+            check();
+        }
+    });
+    const listener = await listeners.open({ port: 0, address: '127.0.0.1' });
+
+    // Resolves once the handlers have seen `count` frames and `disconnects` disconnects in total
+    const received = (count: number, disconnects = 0) => new Promise<void>(resolve => {
+        check = () => {
+            if (frames.length >= count && disconnected.length >= disconnects) resolve();
+        };
+        check();
+    });
+    return { connections, frames, disconnected, listeners, listener, received };
+}
+
+describe('createTCPListeners', () => {
+    it('reassembles frames split across and packed into chunks', async () => {
+        const { connections, frames, listeners, listener, received } = await openListener();
+        assert.equal(listener.id, tcpConnectionId('127.0.0.1', listener.config.port));
+        assert.equal(listener.config.label, `tcp-${listener.config.port}`);
+        assert.equal(connections.get(listener.id)?.status, 'listening');
+
+        const socket = net.connect(listener.config.port, '127.0.0.1');
+        try {
+            await once(socket, 'connect');
+            const first = frame('{"a":1}');
+            // The length prefix itself arrives in two pieces
+            socket.write(first.subarray(0, 2));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            socket.write(first.subarray(2, 6));
+            await new Promise(resolve => setTimeout(resolve, 20));
+            socket.write(Buffer.concat([first.subarray(6), frame('{"b":2}'), frame('{"c":3}')]));
+
+            await received(3);
+            assert.deepEqual(frames, ['{"a":1}', '{"b":2}', '{"c":3}']);
+            assert.equal(connections.get(listener.id)?.messagesReceived, 3);
+        } finally {
+            socket.destroy();
+            await listeners.closeAll();
+        }
+    });
+
+    it('disconnects a client that sends an empty or oversized frame', async () => {
+        const { frames, disconnected, listeners, listener, received } = await openListener();
+        try {
+            for (const bad of [Buffer.alloc(4), frame(Buffer.alloc(MAX_FRAME_BYTES + 1)).subarray(0, 4)]) {
+                const socket = net.connect(listener.config.port, '127.0.0.1');
+                await once(socket, 'connect');
+                socket.write(Buffer.concat([frame('ok'), bad, frame('never read')]));
+                await once(socket, 'close');
+            }
+            await received(2, 2);
+            assert.deepEqual(frames, ['ok', 'ok']);
+            assert.equal(disconnected.length, 2);
+            assert.equal(listener.clients.size, 0);
+        } finally {
+            await listeners.closeAll();
+        }
+    });
+
+    it('closes a listener along with its clients', async () => {
+        const { connections, listeners, listener, received } = await openListener();
+        const socket = net.connect(listener.config.port, '127.0.0.1');
+        await once(socket, 'connect');
+        await new Promise(resolve => setTimeout(resolve, 20));
+
+        const closed = once(socket, 'close');
+        assert.equal(await listeners.close(listener.id), true);
+        await closed;
+        await received(0, 1);
+        assert.equal(connections.has(listener.id), false);
+        assert.deepEqual(listeners.list(), []);
+        assert.equal(await listeners.close(listener.id), false);
+    });
+
+    it('refuses to open the same address and port twice', async () => {
+        const { listeners, listener } = await openListener();
+        try {
+            await assert.rejects(listeners.open({ port: listener.config.port, address: '127.0.0.1' }), /already open/);
+        } finally {
+            await listeners.closeAll();
+        }
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { decode } from '@msgpack/msgpack';
+import { buildBatch, createTelemetryBatcher, encodeBatch, TelemetryBatch } from '../src/telemetryBatcher';
+import { telemetryMessage } from './fixtures';
+
+const T0 = Date.parse('2025-01-01T00:00:00.000Z');
+
+const messages = [
+    telemetryMessage(T0, { messageId: 1, altitude: 100 }),
+    telemetryMessage(T0 + 50, {
+        messageId: 2,
+        altitude: 200,
+        vehicleId: 'uav-2',
+        derived: { airspeed: 120, verticalSpeed: 600, distanceTraveled: 1.5, batteryDrainRate: null, timeToEmpty: null }
+    })
+];
+
+describe('telemetry batches', () => {
+    it('lays messages out as columns', () => {
+        const batch = buildBatch(messages, T0 + 100);
+
+        assert.equal(batch.count, 2);
+        assert.deepEqual(batch.vehicleId, ['uav-1', 'uav-2']);
+        assert.deepEqual(batch.columns.messageId, [1, 2]);
+        assert.deepEqual(batch.columns.timestamp, [T0, T0 + 50]);
+        assert.deepEqual(batch.columns.processingLatency, [100, 50]);
+        assert.deepEqual(batch.columns.altitude, [100, 200]);
+        assert.deepEqual(batch.columns.airspeed, [0, 120]);
+        assert.deepEqual(batch.columns.verticalSpeed, [NaN, 600]);
+    });
+
+    it('encodes the same batch in every format', () => {
+        const batch = buildBatch(messages, T0 + 100);
+
+        assert.equal(encodeBatch(batch, 'json'), batch);
+
+        const typed = encodeBatch(batch, 'typed') as { columns: Record<string, Buffer> };
+        const altitude = typed.columns.altitude;
+        assert.deepEqual(Array.from(new Float64Array(Uint8Array.from(altitude).buffer)), [100, 200]);
+
+        const unpacked = decode(encodeBatch(batch, 'msgpack') as Buffer) as TelemetryBatch;
+        assert.deepEqual(unpacked.columns.altitude, [100, 200]);
+        assert.deepEqual(unpacked.vehicleId, batch.vehicleId);
+    });
+
+    it('flushes each client\'s messages on the tick and shares identical payloads', async () => {
+        const sends: [string[], TelemetryBatch][] = [];
+        const batcher = createTelemetryBatcher({ intervalMs: 10 }, (ids, payload) => sends.push([ids, payload as TelemetryBatch]));
+        batcher.addClient('a', 'json');
+        batcher.addClient('b', 'json');
+        batcher.addClient('c', 'msgpack');
+
+        for (const id of ['a', 'b', 'c']) batcher.add(id, messages[0]);
+        assert.equal(batcher.add('unknown', messages[0]), false);
+        assert.equal(batcher.getFormat('c'), 'msgpack');
+
+        // Nothing is sent before start()
+        await sleep(30);
+        assert.equal(sends.length, 0);
+
+        batcher.start();
+        await sleep(30);
+        batcher.stop();
+
+        assert.deepEqual(sends.map(([ids]) => ids), [['a', 'b'], ['c']]);
+        assert.equal(sends[0][1].count, 1);
+        assert.ok(Buffer.isBuffer(sends[1][1]));
+    });
+});
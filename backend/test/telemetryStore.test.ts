@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createTelemetryStore, parseDuration, TelemetryQuery } from '../src/telemetryStore';
+import { telemetrySample } from './fixtures';
+
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'store-test-'));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const everything = (overrides: Partial<TelemetryQuery> = {}): TelemetryQuery => ({
+    from: 0,
+    to: Date.now() + 60000,
+    fields: ['altitude'],
+    limit: 100,
+    ...overrides
+});
+
+describe('parseDuration', () => {
+    it('accepts milliseconds and unit suffixes', () => {
+        assert.equal(parseDuration('250'), 250);
+        assert.equal(parseDuration('500ms'), 500);
+        assert.equal(parseDuration('1.5s'), 1500);
+        assert.equal(parseDuration('2h'), 7200000);
+        assert.equal(parseDuration(' 1d '), 86400000);
+    });
+
+    it('rejects anything else', () => {
+        for (const value of ['', '-5s', '5w', 'soon', '1e3']) assert.equal(parseDuration(value), undefined);
+    });
+});
+
+describe('telemetryStore', () => {
+    it('returns the most recent samples matching the filters', async () => {
+        const store = createTelemetryStore({ dir, segmentMs: 3600000, retentionMs: 86400000 });
+        for (let i = 0; i < 10; i++) {
+            store.store(telemetrySample({ altitude: i }), i % 2 ? 'udp:b' : 'udp:a', i < 5 ? 'uav-1' : 'uav-2');
+        }
+        await store.close();
+
+        const all = await store.querySamples(everything({ limit: 3 }));
+        assert.equal(all.matched, 10);
+        assert.equal(all.truncated, true);
+        assert.deepEqual(all.samples.map(sample => sample.altitude), [7, 8, 9]);
+        assert.equal(all.samples[0].timestamp, '2025-01-01T00:00:00.000Z');
+
+        const filtered = await store.querySamples(everything({ source: 'udp:a', vehicleId: 'uav-2' }));
+        assert.deepEqual(filtered.samples.map(sample => sample.altitude), [6, 8]);
+        assert.equal(filtered.truncated, false);
+        assert.equal(store.getStats().samplesWritten, 10);
+    });
+
+    it('aggregates samples into buckets', async () => {
+        const store = createTelemetryStore({ dir, segmentMs: 3600000, retentionMs: 86400000 });
+        for (const altitude of [100, 300, 200]) store.store(telemetrySample({ altitude }), 'udp:a', 'uav-1');
+        await store.close();
+
+        const buckets = await store.queryBuckets({ ...everything(), bucket: Date.now() + 60000 });
+        assert.equal(buckets.length, 1);
+        assert.equal(buckets[0].count, 3);
+        assert.deepEqual(buckets[0].fields.altitude, { min: 100, max: 300, avg: 200, last: 200 });
+    });
+
+    it('deletes segments past retention when opened', () => {
+        fs.writeFileSync(path.join(dir, '0-1000.ndjson'), '');
+        const recent = Math.floor(Date.now() / 1000) * 1000;
+        fs.writeFileSync(path.join(dir, `${recent}-${recent + 1000}.ndjson`), '');
+
+        const store = createTelemetryStore({ dir, segmentMs: 1000, retentionMs: 60000 });
+        store.open();
+        assert.deepEqual(fs.readdirSync(dir), [`${recent}-${recent + 1000}.ndjson`]);
+        assert.equal(store.getStats().segments, 1);
+    });
+
+    it('does not touch the disk until it is opened or written to', () => {
+        const missing = path.join(dir, 'missing');
+        const store = createTelemetryStore({ dir: missing, segmentMs: 1000, retentionMs: 1000 });
+        assert.equal(store.getStats().segments, 0);
+        assert.equal(fs.existsSync(missing), false);
+    });
+
+    it('drops a segment that fails to write and carries on with the next one', async () => {
+        mock.timers.enable({ apis: ['Date'], now: 0 });
+        try {
+            // A directory where the first segment file should go makes opening it fail
+            fs.mkdirSync(path.join(dir, '0-60000.ndjson'));
+            const store = createTelemetryStore({ dir, segmentMs: 60000, retentionMs: 86400000 });
+            store.store(telemetrySample(), 'udp:a', 'uav-1');
+            for (let waited = 0; !store.getStats().writeError && waited < 2000; waited += 10) {
+                await new Promise(resolve => setTimeout(resolve, 10));
+            }
+            assert.match(store.getStats().writeError!, /EISDIR/);
+            store.store(telemetrySample(), 'udp:a', 'uav-1');
+
+            mock.timers.setTime(60000);
+            store.store(telemetrySample({ altitude: 1 }), 'udp:a', 'uav-1');
+            await store.close();
+            const lines = fs.readFileSync(path.join(dir, '60000-120000.ndjson'), 'utf8').trim().split('\n');
+            assert.deepEqual(lines.map(line => JSON.parse(line).altitude), [1]);
+        } finally {
+            mock.timers.reset();
+        }
+    });
+
+    it('keeps accepting samples when its directory cannot be created', async () => {
+        fs.writeFileSync(path.join(dir, 'file'), '');
+        const store = createTelemetryStore({ dir: path.join(dir, 'file', 'telemetry'), segmentMs: 60000, retentionMs: 60000 });
+        store.open();
+        assert.match(store.getStats().writeError!, /ENOTDIR/);
+
+        store.store(telemetrySample(), 'udp:a', 'uav-1');
+        store.store(telemetrySample(), 'udp:a', 'uav-1');
+        await store.close();
+        assert.equal(store.getStats().samplesWritten, 0);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as dgram from 'dgram';
+import { once } from 'events';
+import { createUDPListeners, parseListenerSpec } from '../src/udpListeners';
+import { SourceConnection } from '../src/types';
+
+describe('parseListenerSpec', () => {
+    it('parses ports, addresses and labels', () => {
+        assert.deepEqual(parseListenerSpec('8080, 127.0.0.1:8081,backup@0.0.0.0:9000'), [
+            { port: 8080, address: '0.0.0.0', label: 'udp-8080' },
+            { port: 8081, address: '127.0.0.1', label: 'udp-8081' },
+            { port: 9000, address: '0.0.0.0', label: 'backup' }
+        ]);
+    });
+
+    it('names the protocol in default labels and errors', () => {
+        assert.equal(parseListenerSpec('7000', 'tcp')[0].label, 'tcp-7000');
+        assert.throws(() => parseListenerSpec('70000', 'tcp'), /Invalid TCP listener port in "70000"/);
+    });
+
+    it('rejects ports that are not in range', () => {
+        for (const spec of ['0', 'abc', '127.0.0.1:', '8080,-1']) {
+            assert.throws(() => parseListenerSpec(spec), /Invalid UDP listener port/);
+        }
+    });
+});
+
+describe('createUDPListeners', () => {
+    it('opens an ephemeral port, counts its messages and closes it', async () => {
+        const connections: Map<string, SourceConnection> = new Map();
+        const received: string[] = [];
+        const listeners = createUDPListeners(connections, msg => received.push(msg.toString()));
+
+        const listener = await listeners.open({ port: 0, address: '127.0.0.1' });
+        assert.notEqual(listener.config.port, 0);
+        assert.equal(listener.id, `127.0.0.1:${listener.config.port}`);
+        assert.equal(connections.get(listener.id)?.status, 'listening');
+
+        const sender = dgram.createSocket('udp4');
+        const delivered = once(listener.socket, 'message');
+        sender.send('hello', listener.config.port, '127.0.0.1');
+        await delivered;
+        sender.close();
+
+        assert.deepEqual(received, ['hello']);
+        assert.equal(connections.get(listener.id)?.messagesReceived, 1);
+
+        assert.equal(await listeners.close(listener.id), true);
+        assert.equal(await listeners.close(listener.id), false);
+        assert.equal(connections.size, 0);
+        assert.deepEqual(listeners.list(), []);
+    });
+
+    it('refuses to open the same address and port twice', async () => {
+        const listeners = createUDPListeners(new Map(), () => {});
+        const listener = await listeners.open({ port: 0, address: '127.0.0.1' });
+        await assert.rejects(listeners.open({ port: listener.config.port, address: '127.0.0.1' }), /already open/);
+        await listeners.closeAll();
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAndValidateTelemetry, rejectionKey, validateTelemetry } from '../src/validation';
+import { telemetrySample } from './fixtures';
+
+const sample = telemetrySample();
+
+describe('validateTelemetry', () => {
+    it('accepts a packet within the schema', () => {
+        const result = validateTelemetry(sample);
+        assert.equal(result.valid, true);
+        assert.ok(result.valid);
+        assert.deepEqual(result.data, sample);
+        assert.equal(result.sequence, undefined);
+    });
+
+    it('keeps only the schema fields and returns the sequence separately', () => {
+        const result = validateTelemetry({ ...sample, sequence: 7, injected: '<script>' });
+        assert.ok(result.valid);
+        assert.deepEqual(result.data, sample);
+        assert.equal(result.sequence, 7);
+    });
+
+    it('allows the vehicle id to be left out', () => {
+        const { vehicleId, ...rest } = sample;
+        const result = validateTelemetry(rest);
+        assert.ok(result.valid);
+        assert.equal('vehicleId' in result.data, false);
+    });
+
+    it('reports every problem in the packet', () => {
+        const result = validateTelemetry({
+            ...sample,
+            altitude: undefined,
+            heading: 400,
+            speedX: 'fast',
+            timestamp: 'yesterday',
+            vehicleId: 'has spaces'
+        });
+        assert.ok(!result.valid);
+        assert.deepEqual(
+            result.issues.map(rejectionKey).sort(),
+            [
+                'invalid_format:vehicleId',
+                'invalid_timestamp:timestamp',
+                'missing:altitude',
+                'out_of_range:heading',
+                'wrong_type:speedX'
+            ]
+        );
+    });
+
+    it('rejects non-finite numbers and a bad sequence', () => {
+        const result = validateTelemetry({ ...sample, temperature: Infinity, sequence: -1 });
+        assert.ok(!result.valid);
+        assert.deepEqual(result.issues.map(rejectionKey), ['wrong_type:temperature', 'wrong_type:sequence']);
+    });
+
+    it('rejects anything that is not an object', () => {
+        for (const raw of [null, 42, 'text', [sample]]) {
+            const result = validateTelemetry(raw);
+            assert.ok(!result.valid);
+            assert.deepEqual(result.issues.map(rejectionKey), ['not_object']);
+        }
+    });
+});
+
+describe('parseAndValidateTelemetry', () => {
+    it('parses and validates a JSON payload', () => {
+        assert.equal(parseAndValidateTelemetry(JSON.stringify(sample)).valid, true);
+    });
+
+    it('reports malformed JSON', () => {
+        const result = parseAndValidateTelemetry('{"altitude":');
+        assert.ok(!result.valid);
+        assert.equal(result.issues[0].code, 'invalid_json');
+        assert.equal(rejectionKey(result.issues[0]), 'invalid_json');
+    });
+});
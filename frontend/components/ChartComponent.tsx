@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import ReactECharts from 'echarts-for-react';
 import io, { Socket } from 'socket.io-client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,71 +13,213 @@ import { FaCircle, FaPlay, FaPause, FaStop, FaTrash } from 'react-icons/fa';
 import { MdSpeed, MdMemory, MdRocket } from 'react-icons/md';
 import { IoMdThunderstorm } from 'react-icons/io';
 import { RiSlowDownLine } from 'react-icons/ri';
+import ConnectionSettings, { ConnectionEvent, ConnectionState, getBackendStatusBadge } from '@/components/ConnectionSettings';
+import {
+  ConnectionProfile,
+  DEFAULT_PROFILE,
+  DEFAULT_PROFILE_ID,
+  loadActiveProfileId,
+  loadProfiles,
+  saveActiveProfileId,
+  saveProfiles
+} from '@/lib/connectionProfiles';
 
-interface FlightTelemetry {
-  timestamp: string;
-  altitude: number;
-  speedX: number;
-  speedY: number;
-  speedZ: number;
-  heading: number;
-  latitude: number;
-  longitude: number;
-  temperature: number;
-  battery_percentage: number;
-  processingLatency?: number;
-  messageId?: number;
-  sourceConnection?: string;
-}
-
+// null values break the lines where telemetry was lost and could not be backfilled
 interface ChartData {
   timestamps: string[];
-  speedX: number[];
-  speedY: number[];
-  speedZ: number[];
+  speedX: (number | null)[];
+  speedY: (number | null)[];
+  speedZ: (number | null)[];
+}
+
+// Columnar telemetry sent every few tens of ms; with the 'typed' format numeric columns arrive as Float64Array buffers
+interface TelemetryBatch {
+  count: number;
+  emittedAt: number;
+  vehicleId: string[];
+  sourceConnection: string[];
+  columns: Record<'messageId' | 'timestamp' | 'speedX' | 'speedY' | 'speedZ', ArrayBuffer | number[]>;
+}
+
+// Sent once after reconnecting with the messages missed since `since`, and the ids that could not be recovered
+interface TelemetryBackfill {
+  since: number;
+  recovered: number;
+  lost: { from: number; to: number } | null;
+  restarted: boolean;
+  batch: TelemetryBatch;
 }
 
 interface ProcessingStats {
   received: number;
   processed: number;
-  dropped: number;
-  queueSize: number;
+  batches: number;
+  lastBatchSize: number;
   fps: number;
   memoryUsage: number;
   avgProcessingTime: number;
 }
 
+interface LatencySnapshot {
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+type LatencyStage = 'network' | 'pipeline' | 'delivery' | 'endToEnd';
+
 interface PerformanceMetrics {
   messagesReceived: number;
   messagesSent: number;
-  avgLatency: number;
+  messagesPerSecond?: number;
+  latency?: Record<LatencyStage, LatencySnapshot>;
   connectionsCount: number;
   memoryUsage: number;
   startTime: number;
 }
 
-interface UDPConnection {
+interface SourceConnection {
   id: string;
+  protocol: 'udp' | 'tcp' | 'http' | 'websocket' | 'mqtt';
   address: string;
   port: number;
   status: 'active' | 'inactive' | 'listening';
   lastActivity: string;
   messagesReceived: number;
+  messagesRejected?: number;
+  rejectionReasons?: Record<string, number>;
+  label?: string;
+  sequence?: {
+    lastSequence: number;
+    lost: number;
+    duplicates: number;
+    outOfOrder: number;
+    lossRate: number;
+  };
 }
 
 interface SimulatorStatus {
   isRunning: boolean;
   isPaused: boolean;
+  packetFormat?: 'json' | 'binary';
+  fleetSize?: number;
+  scenario?: ScenarioStatus | null;
+  faults?: FaultReport;
+  replay?: ReplayStatus;
+  recording?: { isRecording: boolean; recordingId?: string; packetsWritten: number; error?: string };
+}
+
+interface ScenarioSummary {
+  id: string;
+  name: string;
+  description?: string;
+  phases: string[];
+  turbulence: string;
+}
+
+interface ScenarioStatus {
+  id: string;
+  name: string;
+  flights: { vehicleId: string; phase: string; nextWaypoint?: string; distanceToGoNm: number; altitude: number; airspeed: number }[];
+}
+
+interface FaultReport {
+  enabled: boolean;
+  inOutage: boolean;
+  injected: { packets: number; lost: number; duplicated: number; reordered: number; truncated: number; corrupted: number; outageDropped: number };
+  detected: { lost: number; duplicates: number; outOfOrder: number; rejected: number } | null;
+}
+
+interface StressMode {
+  id: string;
+  label: string;
+  description?: string;
+  interval: number;
+  jitter: number;
+  schedule?: { stages: { interval: number; durationMs: number; ramp: boolean }[]; repeat: boolean };
+}
+
+interface StressModeStatus {
+  mode: string;
+  currentInterval: number;
+  schedule: { elapsedMs: number; stageIndex: number; totalMs: number; complete: boolean } | null;
+}
+
+interface ReplayStatus {
+  isRunning: boolean;
+  isPaused: boolean;
+  recordingId?: string;
+  speed: number | 'max';
+  position: number;
+  duration: number;
+  packetsSent: number;
+  totalPackets: number;
+}
+
+interface VehicleSummary {
+  vehicleId: string;
+  sourceConnection: string;
+  messagesReceived: number;
+  lastSeen: string;
+  latitude: number;
+  longitude: number;
+  altitude: number;
+}
+
+interface Alert {
+  id: string;
+  ruleName: string;
+  severity: 'info' | 'warning' | 'critical';
+  vehicleId: string;
+  message: string;
+  state: 'active' | 'cleared';
+  firedAt: string;
+  acknowledged: boolean;
+}
+
+type AlertEvent = Alert & { event: 'fired' | 'cleared' | 'acknowledged' };
+
+interface Session {
+  authEnabled: boolean;
+  role: 'viewer' | 'operator';
+  subject: string;
+  telemetryFormat: 'message' | 'json' | 'typed' | 'msgpack';
+  batchIntervalMs?: number;
 }
 
-const STRESS_TEST_MODES = {
-  normal: { interval: 200, jitter: 0, label: 'Normal' },
-  high_frequency: { interval: 50, jitter: 10, label: 'High Freq' },
-  burst: { interval: 20, jitter: 50, label: 'Burst' },
-  variable: { interval: 100, jitter: 100, label: 'Variable' },
-  kafka_simulation: { interval: 30, jitter: 20, label: 'Kafka Sim' }
+const batchColumn = (batch: TelemetryBatch, name: keyof TelemetryBatch['columns']): ArrayLike<number> => {
+  const column = batch.columns[name];
+  return column instanceof ArrayBuffer ? new Float64Array(column) : column;
 };
 
+const ALL_VEHICLES = 'all';
+const FLEET_SIZES = [1, 5, 10];
+// Fault presets sent as-is to the changeFaults socket event; "Off" clears every fault
+const FAULT_PRESETS = [
+  { label: 'Off', faults: null },
+  { label: '5% Loss', faults: { probabilities: { loss: 0.05, duplicate: 0, reorder: 0, truncate: 0, corrupt: 0 }, outage: null } },
+  { label: 'Flaky Link', faults: { probabilities: { loss: 0.02, duplicate: 0.02, reorder: 0.05, truncate: 0.01, corrupt: 0.01 }, outage: null } },
+  { label: 'Outage 3s/30s', faults: { probabilities: { loss: 0, duplicate: 0, reorder: 0, truncate: 0, corrupt: 0 }, outage: { durationMs: 3000, periodMs: 30000 } } }
+];
+const LATENCY_STAGES: { key: LatencyStage; label: string }[] = [
+  { key: 'network', label: 'Sender → Server' },
+  { key: 'pipeline', label: 'Server Pipeline' },
+  { key: 'delivery', label: 'Emit → Render' },
+  { key: 'endToEnd', label: 'End to End' }
+];
+const PING_INTERVAL = 10000;
+const AUTH_TOKEN_KEY = 'telemetryAuthToken';
+const MAX_CONNECTION_EVENTS = 20;
+const LATENCY_REPORT_INTERVAL = 5000;
+
+interface HistorySample {
+  timestamp: string;
+  speedX: number;
+  speedY: number;
+  speedZ: number;
+}
+
 const SpeedChart: React.FC = () => {
   const [chartData, setChartData] = useState<ChartData>({
     timestamps: [],
@@ -86,103 +228,76 @@ const SpeedChart: React.FC = () => {
     speedZ: [],
   });
   
-  const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
+  const [connectionState, setConnectionState] = useState<ConnectionState>({ status: 'connecting', attempt: 0, lastError: null, events: [] });
+  // Saved backend endpoints; the socket and REST calls follow the active one
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([DEFAULT_PROFILE]);
+  const [activeProfileId, setActiveProfileId] = useState<string>(DEFAULT_PROFILE_ID);
+  const activeProfile = useMemo(
+    () => profiles.find(profile => profile.id === activeProfileId) ?? profiles[0],
+    [profiles, activeProfileId]
+  );
   const [lastUpdate, setLastUpdate] = useState<string>('');
   const [chartPaused, setChartPaused] = useState<boolean>(false);
+  // Read by the socket handlers, so pausing doesn't tear down and rebuild the connection
+  const chartPausedRef = useRef(false);
   
-  // Kafka-ready queue processing state
-  const [updateQueue, setUpdateQueue] = useState<FlightTelemetry[]>([]);
   const [processingStats, setProcessingStats] = useState<ProcessingStats>({
     received: 0,
     processed: 0,
-    dropped: 0,
-    queueSize: 0,
+    batches: 0,
+    lastBatchSize: 0,
     fps: 0,
     memoryUsage: 0,
     avgProcessingTime: 0
   });
   
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics | null>(null);
-  const [currentStressMode, setCurrentStressMode] = useState<string>('normal');
-  const [udpConnections, setUdpConnections] = useState<UDPConnection[]>([]);
+  const [stressModes, setStressModes] = useState<StressMode[]>([]);
+  const [stressStatus, setStressStatus] = useState<StressModeStatus>({ mode: 'normal', currentInterval: 200, schedule: null });
+  const [udpConnections, setUdpConnections] = useState<SourceConnection[]>([]);
   const [simulatorStatus, setSimulatorStatus] = useState<SimulatorStatus>({
     isRunning: false,
     isPaused: false
   });
+  const [vehicles, setVehicles] = useState<VehicleSummary[]>([]);
+  const [selectedVehicle, setSelectedVehicle] = useState<string>(ALL_VEHICLES);
+  const selectedVehicleRef = useRef<string>(ALL_VEHICLES);
+  const [activeAlerts, setActiveAlerts] = useState<Alert[]>([]);
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  
+  // API key or signed token, kept in localStorage and sent with the socket handshake and REST calls
+  const [authToken, setAuthToken] = useState<string>('');
+  // Profiles and token are read from localStorage after mount so the first render matches the server's
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [tokenDraft, setTokenDraft] = useState<string>('');
+  const [session, setSession] = useState<Session | null>(null);
+  const [commandError, setCommandError] = useState<string | null>(null);
+  const isOperator = session?.role === 'operator';
   
   const socketRef = useRef<any | null>(null);
   const chartRef = useRef<any>(null);
   const maxDataPoints = 250;
-  const maxQueueSize = 50;
   
   // Performance monitoring refs
   const frameCountRef = useRef(0);
   const lastFrameTimeRef = useRef(performance.now());
   const processingTimesRef = useRef<number[]>([]);
+  
+  // Clock sync with the server: offset = server clock - local clock, from the lowest-RTT recent ping
+  const clockSamplesRef = useRef<{ rtt: number; offset: number }[]>([]);
+  const clockOffsetRef = useRef(0);
+  const [clockSync, setClockSync] = useState<{ rtt: number; offset: number } | null>(null);
+  const latencySamplesRef = useRef<{ delivery: number[]; endToEnd: number[] }>({ delivery: [], endToEnd: [] });
+  // Highest messageId received, sent in the handshake so a reconnect is backfilled from there
+  const lastMessageIdRef = useRef(0);
+  const [backfillStatus, setBackfillStatus] = useState<string | null>(null);
 
-  // Kafka-ready queue processor (mimics Kafka consumer pattern)
   useEffect(() => {
-    if (chartPaused) return;
-
-    const processQueue = () => {
-      const startTime = performance.now();
-      
-      if (updateQueue.length > 0) {
-        const batchSize = Math.min(5, updateQueue.length);
-        const pointsToProcess = updateQueue.slice(-batchSize);
-        const droppedCount = updateQueue.length - batchSize;
-        
-        setChartData(prevData => {
-          let newTimestamps = [...prevData.timestamps];
-          let newSpeedX = [...prevData.speedX];
-          let newSpeedY = [...prevData.speedY]; 
-          let newSpeedZ = [...prevData.speedZ];
-          
-          pointsToProcess.forEach(data => {
-            newTimestamps.push(new Date(data.timestamp).toLocaleTimeString());
-            newSpeedX.push(data.speedX);
-            newSpeedY.push(data.speedY);
-            newSpeedZ.push(data.speedZ);
-          });
-          
-          return {
-            timestamps: newTimestamps.slice(-maxDataPoints),
-            speedX: newSpeedX.slice(-maxDataPoints),
-            speedY: newSpeedY.slice(-maxDataPoints),
-            speedZ: newSpeedZ.slice(-maxDataPoints)
-          };
-        });
-        
-        const processingTime = performance.now() - startTime;
-        processingTimesRef.current.push(processingTime);
-        if (processingTimesRef.current.length > 10) {
-          processingTimesRef.current.shift();
-        }
-        
-        setProcessingStats(prev => ({
-          received: prev.received,
-          processed: prev.processed + pointsToProcess.length,
-          dropped: prev.dropped + droppedCount,
-          queueSize: 0,
-          fps: prev.fps,
-          memoryUsage: prev.memoryUsage,
-          avgProcessingTime: processingTimesRef.current.reduce((a, b) => a + b, 0) / processingTimesRef.current.length
-        }));
-        
-        setUpdateQueue([]);
-        setLastUpdate(new Date().toLocaleTimeString());
-      }
-    };
-
-    const getProcessingInterval = () => {
-      if (updateQueue.length > 30) return 50;
-      if (updateQueue.length > 15) return 75;
-      return 100;
-    };
-
-    const intervalId = setInterval(processQueue, getProcessingInterval());
-    return () => clearInterval(intervalId);
-  }, [updateQueue.length, chartPaused]);
+    setProfiles(loadProfiles());
+    setActiveProfileId(loadActiveProfileId());
+    setAuthToken(localStorage.getItem(AUTH_TOKEN_KEY) || '');
+    setSettingsLoaded(true);
+  }, []);
 
   // Performance monitoring
   useEffect(() => {
@@ -210,36 +325,199 @@ const SpeedChart: React.FC = () => {
     measurePerformance();
   }, []);
 
+  // Backfill the chart from the backend's telemetry store so it doesn't start empty
+  const loadHistory = useCallback(async (vehicleId: string) => {
+    const params = new URLSearchParams({
+      fields: 'speedX,speedY,speedZ',
+      limit: String(maxDataPoints),
+      to: String(Date.now())
+    });
+    if (vehicleId !== ALL_VEHICLES) params.set('vehicleId', vehicleId);
+
+    try {
+      const response = await fetch(`${activeProfile.url}/telemetry?${params}`, {
+        headers: authToken ? { Authorization: `Bearer ${authToken}` } : undefined
+      });
+      if (!response.ok) return;
+      const { samples } = await response.json() as { samples: HistorySample[] };
+
+      setChartData(prevData => ({
+        timestamps: [...samples.map(sample => new Date(sample.timestamp).toLocaleTimeString()), ...prevData.timestamps].slice(-maxDataPoints),
+        speedX: [...samples.map(sample => sample.speedX), ...prevData.speedX].slice(-maxDataPoints),
+        speedY: [...samples.map(sample => sample.speedY), ...prevData.speedY].slice(-maxDataPoints),
+        speedZ: [...samples.map(sample => sample.speedZ), ...prevData.speedZ].slice(-maxDataPoints)
+      }));
+    } catch (error) {
+      console.warn('Failed to load telemetry history', error);
+    }
+  }, [authToken, activeProfile.url]);
+
+  useEffect(() => {
+    if (settingsLoaded) loadHistory(ALL_VEHICLES);
+  }, [settingsLoaded, loadHistory]);
+
   useEffect(() => {
-    socketRef.current = io('https://live-charts.onrender.com');
+    if (!settingsLoaded) return;
+    const { url, reconnection } = activeProfile;
+    // Status changes from the socket and its manager, with a short log for the connection panel
+    const updateConnection = (patch: Partial<ConnectionState>, event?: Omit<ConnectionEvent, 'at'>) => {
+      setConnectionState(prev => ({
+        ...prev,
+        ...patch,
+        events: event ? [...prev.events, { at: Date.now(), ...event }].slice(-MAX_CONNECTION_EVENTS) : prev.events
+      }));
+    };
+    updateConnection({ status: 'connecting', attempt: 0, lastError: null }, { level: 'info', message: `Connecting to ${url}` });
+
+    // Ask for typed-array batches; the server falls back to per-message telemetryData for clients that don't.
+    // The handshake is rebuilt on every reconnect with the resume point and the current vehicle subscription
+    socketRef.current = io(url, {
+      auth: (callback: (auth: object) => void) => callback({
+        telemetryFormat: 'typed',
+        ...(authToken && { token: authToken }),
+        ...(lastMessageIdRef.current > 0 && { lastMessageId: lastMessageIdRef.current }),
+        ...(selectedVehicleRef.current !== ALL_VEHICLES && { vehicleIds: [selectedVehicleRef.current] })
+      }),
+      reconnection: true,
+      reconnectionAttempts: reconnection.attempts > 0 ? reconnection.attempts : Infinity,
+      reconnectionDelay: reconnection.delayMs,
+      reconnectionDelayMax: reconnection.delayMaxMs,
+      randomizationFactor: reconnection.randomizationFactor,
+      timeout: reconnection.timeoutMs
+    });
 
     socketRef.current.on('connect', () => {
       console.log('Connected to server');
-      setConnectionStatus('connected');
+      updateConnection({ status: 'connected', attempt: 0, lastError: null }, { level: 'info', message: 'Connected' });
+      // The chart only keeps the newest points, so let the server skip messages while we lag behind
+      socketRef.current?.emit('setDeliveryPolicy', { mode: 'volatile' });
     });
 
-    socketRef.current.on('disconnect', () => {
-      setConnectionStatus('disconnected');
+    socketRef.current.on('disconnect', (reason: string) => {
+      // Only a server-side kick or a manual disconnect stops the client from reconnecting on its own
+      const willReconnect = reason !== 'io server disconnect' && reason !== 'io client disconnect';
+      updateConnection({ status: willReconnect ? 'reconnecting' : 'disconnected' }, { level: 'error', message: `Disconnected: ${reason}` });
     });
 
-    socketRef.current.on('telemetryData', (data: FlightTelemetry) => {
-      if (chartPaused) return;
-      
-      setUpdateQueue(prev => {
-        const newQueue = [...prev, data];
-        const trimmedQueue = newQueue.length > maxQueueSize ? newQueue.slice(-maxQueueSize) : newQueue;
-        
-        setProcessingStats(prevStats => ({
-          ...prevStats,
-          received: prevStats.received + 1,
-          queueSize: trimmedQueue.length,
-          dropped: prevStats.dropped + (newQueue.length > maxQueueSize ? 1 : 0)
-        }));
-        
-        return trimmedQueue;
+    // Handshake failures; a rejected middleware (e.g. bad credentials) is not retried by the client
+    socketRef.current.on('connect_error', (error: Error) => {
+      const unauthorized = error.message === 'Authentication required';
+      updateConnection(
+        { status: unauthorized ? 'unauthorized' : socketRef.current?.active ? 'reconnecting' : 'disconnected', lastError: error.message },
+        { level: 'error', message: `Handshake error: ${error.message}` }
+      );
+    });
+
+    socketRef.current.io.on('reconnect_attempt', (attempt: number) => {
+      updateConnection({ status: 'reconnecting', attempt }, {
+        level: 'info',
+        message: `Reconnect attempt ${attempt}${reconnection.attempts > 0 ? ` of ${reconnection.attempts}` : ''}`
       });
     });
 
+    socketRef.current.io.on('reconnect', (attempt: number) => {
+      updateConnection({}, { level: 'info', message: `Reconnected after ${attempt} attempt${attempt === 1 ? '' : 's'}` });
+    });
+
+    socketRef.current.io.on('reconnect_failed', () => {
+      updateConnection({ status: 'failed' }, { level: 'error', message: `Gave up after ${reconnection.attempts} attempts` });
+    });
+
+    socketRef.current.on('session', (current: Session) => {
+      setSession(current);
+    });
+
+    socketRef.current.on('commandError', ({ event, error }: { event: string; error: string }) => {
+      setCommandError(`${event}: ${error}`);
+    });
+
+    const sendPing = () => {
+      const sentAt = Date.now();
+      socketRef.current?.emit('latencyPing', sentAt, ({ serverTime }: { clientTime: number; serverTime: number }) => {
+        const receivedAt = Date.now();
+        const rtt = receivedAt - sentAt;
+        const samples = [...clockSamplesRef.current, { rtt, offset: serverTime - (sentAt + rtt / 2) }].slice(-8);
+        const best = samples.reduce((min, sample) => (sample.rtt < min.rtt ? sample : min));
+        clockSamplesRef.current = samples;
+        clockOffsetRef.current = best.offset;
+        setClockSync(best);
+      });
+    };
+    socketRef.current.on('connect', sendPing);
+    const pingInterval = setInterval(sendPing, PING_INTERVAL);
+
+    const reportInterval = setInterval(() => {
+      const { delivery, endToEnd } = latencySamplesRef.current;
+      if (delivery.length === 0) return;
+      socketRef.current?.emit('latencyReport', { delivery, endToEnd });
+      latencySamplesRef.current = { delivery: [], endToEnd: [] };
+    }, LATENCY_REPORT_INTERVAL);
+
+    socketRef.current.on('telemetryBatch', (batch: TelemetryBatch) => {
+      if (batch.count === 0) return;
+      // Tracked while paused too, so a reconnect after unpausing doesn't backfill the paused stretch
+      lastMessageIdRef.current = Math.max(lastMessageIdRef.current, ...Array.from(batchColumn(batch, 'messageId')));
+      if (chartPausedRef.current) return;
+      const startTime = performance.now();
+      const timestamps = batchColumn(batch, 'timestamp');
+      
+      // Latency as seen by the server clock when the batch arrives
+      const serverNow = Date.now() + clockOffsetRef.current;
+      for (let i = 0; i < batch.count; i++) {
+        latencySamplesRef.current.delivery.push(serverNow - batch.emittedAt);
+        latencySamplesRef.current.endToEnd.push(serverNow - timestamps[i]);
+      }
+      
+      const labels = Array.from(timestamps, time => new Date(time).toLocaleTimeString());
+      const speedX = Array.from(batchColumn(batch, 'speedX'));
+      const speedY = Array.from(batchColumn(batch, 'speedY'));
+      const speedZ = Array.from(batchColumn(batch, 'speedZ'));
+      setChartData(prevData => ({
+        timestamps: [...prevData.timestamps, ...labels].slice(-maxDataPoints),
+        speedX: [...prevData.speedX, ...speedX].slice(-maxDataPoints),
+        speedY: [...prevData.speedY, ...speedY].slice(-maxDataPoints),
+        speedZ: [...prevData.speedZ, ...speedZ].slice(-maxDataPoints)
+      }));
+      
+      processingTimesRef.current.push(performance.now() - startTime);
+      if (processingTimesRef.current.length > 10) {
+        processingTimesRef.current.shift();
+      }
+      
+      setProcessingStats(prev => ({
+        ...prev,
+        received: prev.received + batch.count,
+        processed: prev.processed + batch.count,
+        batches: prev.batches + 1,
+        lastBatchSize: batch.count,
+        avgProcessingTime: processingTimesRef.current.reduce((a, b) => a + b, 0) / processingTimesRef.current.length
+      }));
+      setLastUpdate(new Date().toLocaleTimeString());
+    });
+
+    // Arrives before any live telemetry on a resumed connection; samples that aged out become a break in the lines
+    socketRef.current.on('telemetryBackfill', ({ recovered, lost, restarted, batch }: TelemetryBackfill) => {
+      const broken = lost !== null || restarted;
+      setBackfillStatus([
+        `Recovered ${recovered} message${recovered === 1 ? '' : 's'}`,
+        lost && `ids ${lost.from}-${lost.to} lost`,
+        restarted && 'server restarted'
+      ].filter(Boolean).join(', '));
+      if (batch.count > 0) {
+        lastMessageIdRef.current = Math.max(lastMessageIdRef.current, ...Array.from(batchColumn(batch, 'messageId')));
+      }
+      if (chartPausedRef.current || (!broken && batch.count === 0)) return;
+
+      const labels = Array.from(batchColumn(batch, 'timestamp'), time => new Date(time).toLocaleTimeString());
+      const gap = broken ? [null] : [];
+      setChartData(prevData => ({
+        timestamps: [...prevData.timestamps, ...(broken ? [''] : []), ...labels].slice(-maxDataPoints),
+        speedX: [...prevData.speedX, ...gap, ...Array.from(batchColumn(batch, 'speedX'))].slice(-maxDataPoints),
+        speedY: [...prevData.speedY, ...gap, ...Array.from(batchColumn(batch, 'speedY'))].slice(-maxDataPoints),
+        speedZ: [...prevData.speedZ, ...gap, ...Array.from(batchColumn(batch, 'speedZ'))].slice(-maxDataPoints)
+      }));
+    });
+
     socketRef.current.on('performanceMetrics', (metrics: PerformanceMetrics) => {
       setPerformanceMetrics(metrics);
     });
@@ -248,11 +526,15 @@ const SpeedChart: React.FC = () => {
       setPerformanceMetrics(metrics);
     });
 
-    socketRef.current.on('stressModeChanged', (data: { mode: string }) => {
-      setCurrentStressMode(data.mode);
+    socketRef.current.on('stressModes', (modes: StressMode[]) => {
+      setStressModes(modes);
     });
 
-    socketRef.current.on('udpConnections', (connections: UDPConnection[]) => {
+    socketRef.current.on('stressModeChanged', (status: StressModeStatus) => {
+      setStressStatus(status);
+    });
+
+    socketRef.current.on('udpConnections', (connections: SourceConnection[]) => {
       setUdpConnections(connections);
     });
 
@@ -260,16 +542,34 @@ const SpeedChart: React.FC = () => {
       setSimulatorStatus(status);
     });
 
+    socketRef.current.on('scenarios', (scenarioList: ScenarioSummary[]) => {
+      setScenarios(scenarioList);
+    });
+
+    socketRef.current.on('vehicles', (vehicleList: VehicleSummary[]) => {
+      setVehicles(vehicleList);
+    });
+
+    socketRef.current.on('activeAlerts', (alerts: Alert[]) => {
+      setActiveAlerts(alerts);
+    });
+
+    socketRef.current.on('alert', ({ event, ...alert }: AlertEvent) => {
+      setActiveAlerts(prev => {
+        const others = prev.filter(existing => existing.id !== alert.id);
+        return event === 'cleared' ? others : [...others, alert];
+      });
+    });
+
     return () => {
+      clearInterval(pingInterval);
+      clearInterval(reportInterval);
       socketRef.current?.disconnect();
     };
-  }, [chartPaused]);
+  }, [settingsLoaded, authToken, activeProfile]);
 
-  const changeStressMode = useCallback((mode: keyof typeof STRESS_TEST_MODES) => {
-    if (socketRef.current) {
-      socketRef.current.emit('changeStressMode', mode);
-      setCurrentStressMode(mode);
-    }
+  const changeStressMode = useCallback((mode: string) => {
+    socketRef.current?.emit('changeStressMode', mode);
   }, []);
 
   const handleSimulatorStart = () => {
@@ -288,11 +588,102 @@ const SpeedChart: React.FC = () => {
     socketRef.current?.emit('simulatorResume');
   };
 
+  const handlePacketFormatChange = (format: 'json' | 'binary') => {
+    socketRef.current?.emit('changePacketFormat', format);
+  };
+
+  const handleSaveToken = () => {
+    const token = tokenDraft.trim();
+    if (token) {
+      localStorage.setItem(AUTH_TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(AUTH_TOKEN_KEY);
+    }
+    setAuthToken(token);
+    setTokenDraft('');
+    setCommandError(null);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    // messageIds are per server, so a different backend starts without a resume point
+    lastMessageIdRef.current = 0;
+    setBackfillStatus(null);
+    saveActiveProfileId(id);
+    setActiveProfileId(id);
+    setSession(null);
+    handleChartClear();
+  };
+
+  // Saving the active profile reconnects with its new settings
+  const handleSaveProfile = (profile: ConnectionProfile) => {
+    const next = profiles.some(existing => existing.id === profile.id)
+      ? profiles.map(existing => existing.id === profile.id ? profile : existing)
+      : [...profiles, profile];
+    saveProfiles(next);
+    setProfiles(next);
+    if (profile.id !== activeProfileId || profile.url !== activeProfile.url) {
+      handleSelectProfile(profile.id);
+    }
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    const next = profiles.filter(profile => profile.id !== id);
+    saveProfiles(next);
+    setProfiles(next);
+    if (id === activeProfileId) handleSelectProfile(DEFAULT_PROFILE_ID);
+  };
+
+  const handleReconnect = () => {
+    socketRef.current?.disconnect().connect();
+  };
+
+  const handleAcknowledgeAlert = (alertId: string) => {
+    socketRef.current?.emit('acknowledgeAlert', alertId);
+  };
+
+  const handleReplayToggle = () => {
+    socketRef.current?.emit(simulatorStatus.replay?.isPaused ? 'replayResume' : 'replayPause');
+  };
+
+  const handleReplayStop = () => {
+    socketRef.current?.emit('replayStop');
+  };
+
+  const handleFleetSizeChange = (size: number) => {
+    socketRef.current?.emit('changeFleetSize', size);
+  };
+
+  const handleFaultPreset = (faults: (typeof FAULT_PRESETS)[number]['faults']) => {
+    if (faults) {
+      socketRef.current?.emit('changeFaults', faults);
+    } else {
+      socketRef.current?.emit('clearFaults');
+    }
+  };
+
+  const handleScenarioChange = (scenarioId: string) => {
+    socketRef.current?.emit('changeScenario', scenarioId);
+  };
+
+  const handleVehicleChange = (vehicleId: string) => {
+    selectedVehicleRef.current = vehicleId;
+    setSelectedVehicle(vehicleId);
+    if (vehicleId === ALL_VEHICLES) {
+      socketRef.current?.emit('subscribeAllVehicles');
+    } else {
+      socketRef.current?.emit('subscribeVehicles', [vehicleId]);
+    }
+    handleChartClear();
+    loadHistory(vehicleId);
+  };
+
   const handleChartStart = () => {
+    chartPausedRef.current = false;
     setChartPaused(false);
   };
 
   const handleChartPause = () => {
+    chartPausedRef.current = true;
     setChartPaused(true);
   };
 
@@ -303,19 +694,9 @@ const SpeedChart: React.FC = () => {
       speedY: [],
       speedZ: []
     });
-    setUpdateQueue([]);
   };
 
-  const getStatusBadge = () => {
-    switch (connectionStatus) {
-      case 'connected':
-        return <Badge className="bg-green-500 hover:bg-green-600"><FaCircle className="mr-1" /> Connected</Badge>;
-      case 'connecting':
-        return <Badge variant="secondary"><FaCircle className="mr-1" /> Connecting...</Badge>;
-      case 'disconnected':
-        return <Badge variant="destructive"><FaCircle className="mr-1" /> Disconnected</Badge>;
-    }
-  };
+  const getStatusBadge = () => getBackendStatusBadge(connectionState.status, connectionState.attempt);
 
   const getPerformanceBadge = () => {
     if (processingStats.fps > 30) return <Badge className="bg-green-500"><MdRocket className="mr-1" /> {processingStats.fps} FPS</Badge>;
@@ -339,7 +720,7 @@ const SpeedChart: React.FC = () => {
   // ... existing getOption function remains the same ...
   const getOption = () => ({
     title: {
-      text: `Flight Speed Telemetry ${chartPaused ? '(PAUSED)' : '(LIVE)'}`,
+      text: `Flight Speed Telemetry${selectedVehicle !== ALL_VEHICLES ? ` - ${selectedVehicle}` : ''} ${chartPaused ? '(PAUSED)' : '(LIVE)'}`,
       left: 'center',
       textStyle: {
         color: chartPaused ? '#fbbf24' : '#fff',
@@ -458,21 +839,46 @@ const SpeedChart: React.FC = () => {
 
   return (
     <div className="space-y-4">
-      {/* UDP Connections Dashboard */}
+      {/* Backend Connection Profiles */}
+      <ConnectionSettings
+        profiles={profiles}
+        activeProfileId={activeProfile.id}
+        state={connectionState}
+        onSelect={handleSelectProfile}
+        onSave={handleSaveProfile}
+        onDelete={handleDeleteProfile}
+        onReconnect={handleReconnect}
+      />
+
+      {/* Source Connections Dashboard */}
       <Card className="bg-slate-900 border-slate-700">
         <CardHeader>
-          <CardTitle className="text-white text-lg">UDP Connections</CardTitle>
+          <CardTitle className="text-white text-lg">Source Connections</CardTitle>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {udpConnections.map((connection) => (
               <div key={connection.id} className="bg-slate-800 p-3 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
                   <span className="text-white font-mono text-sm">
-                    {connection.address}:{connection.port}
+                    <span className="text-slate-400 uppercase mr-2">{connection.protocol}</span>
+                    {connection.protocol === 'udp' ? `${connection.address}:${connection.port}` : connection.id.replace(/^[a-z]+:/, '')}
                   </span>
                   {getConnectionStatusBadge(connection.status)}
                 </div>
                 <div className="text-xs text-slate-400 space-y-1">
+                  {connection.label && <div>{connection.status === 'listening' ? 'Listener' : 'Via'}: {connection.label}</div>}
                   <div>Messages: {connection.messagesReceived}</div>
+                  {!!connection.messagesRejected && (
+                    <div className="text-red-400" title={Object.entries(connection.rejectionReasons || {}).map(([reason, count]) => `${reason}: ${count}`).join('\n')}>
+                      Rejected: {connection.messagesRejected}
+                    </div>
+                  )}
+                  {connection.sequence && (
+                    <div className={connection.sequence.lost > 0 ? 'text-yellow-400' : undefined}>
+                      Lost: {connection.sequence.lost} ({(connection.sequence.lossRate * 100).toFixed(2)}%)
+                      {' · '}Dup: {connection.sequence.duplicates}
+                      {' · '}OoO: {connection.sequence.outOfOrder}
+                    </div>
+                  )}
                   <div>Last Activity: {new Date(connection.lastActivity).toLocaleTimeString()}</div>
                 </div>
               </div>
@@ -481,14 +887,68 @@ const SpeedChart: React.FC = () => {
         </CardHeader>
       </Card>
 
+      {/* Active Alerts */}
+      <Card className="bg-slate-900 border-slate-700">
+        <CardHeader>
+          <CardTitle className="text-white text-lg">Alerts ({activeAlerts.length})</CardTitle>
+          {activeAlerts.length === 0 ? (
+            <div className="text-xs text-slate-400">No active alerts</div>
+          ) : (
+            <div className="space-y-2">
+              {activeAlerts.map((alert) => (
+                <div key={alert.id} className="bg-slate-800 p-2 rounded-lg flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Badge className={alert.severity === 'critical' ? 'bg-red-500' : alert.severity === 'warning' ? 'bg-yellow-500' : 'bg-blue-500'}>
+                      {alert.severity}
+                    </Badge>
+                    <span className="text-white">{alert.message}</span>
+                    <span className="text-xs text-slate-400">since {new Date(alert.firedAt).toLocaleTimeString()}</span>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={alert.acknowledged || !isOperator}
+                    onClick={() => handleAcknowledgeAlert(alert.id)}
+                    className="text-xs"
+                  >
+                    {alert.acknowledged ? 'Acknowledged' : 'Acknowledge'}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardHeader>
+      </Card>
+
       {/* Simulator & Chart Controls */}
       <Card className="bg-slate-900 border-slate-700">
         <CardHeader>
-          <CardTitle className="text-white text-lg">Controls</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-white text-lg">Controls</CardTitle>
+            <div className="flex items-center space-x-2 text-xs">
+              {session?.authEnabled && (
+                <Badge className={isOperator ? 'bg-green-600' : 'bg-slate-600'}>{session.role}: {session.subject}</Badge>
+              )}
+              <input
+                type="password"
+                value={tokenDraft}
+                onChange={(event) => setTokenDraft(event.target.value)}
+                placeholder={authToken ? 'Replace access key' : 'Access key'}
+                className="bg-slate-800 text-white border border-slate-600 rounded px-2 py-1"
+              />
+              <Button size="sm" variant="outline" onClick={handleSaveToken} className="text-xs">
+                {tokenDraft || !authToken ? 'Sign in' : 'Sign out'}
+              </Button>
+            </div>
+          </div>
+          {commandError && <div className="text-xs text-red-400">{commandError}</div>}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
               <span className="text-slate-400 text-sm">Simulator Controls</span>
-              <div className="flex space-x-2">
+              {!isOperator && (
+                <div className="text-xs text-slate-400">Read-only access: simulator controls need the operator role</div>
+              )}
+              <div className={isOperator ? 'flex space-x-2' : 'hidden'}>
                 <Button 
                   onClick={handleSimulatorStart}
                   disabled={simulatorStatus.isRunning && !simulatorStatus.isPaused}
@@ -514,9 +974,80 @@ const SpeedChart: React.FC = () => {
                   <FaStop className="mr-1" /> Stop
                 </Button>
               </div>
+              <div className={isOperator ? 'flex space-x-2' : 'hidden'}>
+                {(['json', 'binary'] as const).map((format) => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant={(simulatorStatus.packetFormat || 'json') === format ? "default" : "outline"}
+                    onClick={() => handlePacketFormatChange(format)}
+                    className="text-xs"
+                  >
+                    {format === 'json' ? 'JSON' : 'Binary'}
+                  </Button>
+                ))}
+                <span className="text-xs text-slate-400 self-center pl-2">Fleet:</span>
+                {FLEET_SIZES.map((size) => (
+                  <Button
+                    key={size}
+                    size="sm"
+                    variant={(simulatorStatus.fleetSize || 1) === size ? "default" : "outline"}
+                    onClick={() => handleFleetSizeChange(size)}
+                    className="text-xs"
+                  >
+                    {size}
+                  </Button>
+                ))}
+              </div>
+              <div className={isOperator ? 'flex space-x-2' : 'hidden'}>
+                <span className="text-xs text-slate-400 self-center">Faults:</span>
+                {FAULT_PRESETS.map(({ label, faults }) => (
+                  <Button
+                    key={label}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleFaultPreset(faults)}
+                    className="text-xs"
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
               <div className="text-xs text-slate-400">
                 Status: {simulatorStatus.isRunning ? (simulatorStatus.isPaused ? 'Paused' : 'Running') : 'Stopped'}
+                {simulatorStatus.scenario && (
+                  <span className="ml-2">
+                    | {simulatorStatus.scenario.name}: {simulatorStatus.scenario.flights[0]?.phase}
+                    {simulatorStatus.scenario.flights[0]?.nextWaypoint && ` → ${simulatorStatus.scenario.flights[0].nextWaypoint} (${simulatorStatus.scenario.flights[0].distanceToGoNm} nm)`}
+                  </span>
+                )}
+                {simulatorStatus.recording?.isRecording && (
+                  <span className="text-red-400 ml-2"><FaCircle className="inline mr-1" />REC {simulatorStatus.recording.packetsWritten} packets</span>
+                )}
+                {simulatorStatus.recording?.error && (
+                  <span className="text-red-400 ml-2">Recording stopped: {simulatorStatus.recording.error}</span>
+                )}
+                {simulatorStatus.faults?.enabled && (
+                  <div className={simulatorStatus.faults.inOutage ? 'text-red-400' : 'text-yellow-400'}>
+                    Injected: {simulatorStatus.faults.injected.lost + simulatorStatus.faults.injected.outageDropped} lost, {simulatorStatus.faults.injected.duplicated} dup, {simulatorStatus.faults.injected.reordered} reordered, {simulatorStatus.faults.injected.truncated + simulatorStatus.faults.injected.corrupted} damaged
+                    {simulatorStatus.faults.detected && ` | Detected: ${simulatorStatus.faults.detected.lost} lost, ${simulatorStatus.faults.detected.duplicates} dup, ${simulatorStatus.faults.detected.outOfOrder} out of order, ${simulatorStatus.faults.detected.rejected} rejected`}
+                  </div>
+                )}
               </div>
+              {simulatorStatus.replay?.isRunning && (
+                <div className="flex items-center space-x-2 text-xs text-slate-400">
+                  <span>
+                    Replay: {simulatorStatus.replay.recordingId} - {Math.round(simulatorStatus.replay.position / 1000)}s / {Math.round(simulatorStatus.replay.duration / 1000)}s
+                    ({simulatorStatus.replay.speed === 'max' ? 'max' : `${simulatorStatus.replay.speed}x`})
+                  </span>
+                  <Button onClick={handleReplayToggle} disabled={!isOperator} className="bg-yellow-600 hover:bg-yellow-700" size="sm">
+                    {simulatorStatus.replay.isPaused ? <FaPlay /> : <FaPause />}
+                  </Button>
+                  <Button onClick={handleReplayStop} disabled={!isOperator} className="bg-red-600 hover:bg-red-700" size="sm">
+                    <FaStop />
+                  </Button>
+                </div>
+              )}
             </div>
             
             <div className="space-y-2">
@@ -560,12 +1091,12 @@ const SpeedChart: React.FC = () => {
           <CardTitle className="text-white text-lg">Performance Monitor</CardTitle>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div className="space-y-1">
-              <span className="text-slate-400">Queue Processing</span>
+              <span className="text-slate-400">Batch Processing</span>
               <div className="text-white font-mono">
                 Received: {processingStats.received}<br/>
                 Processed: {processingStats.processed}<br/>
-                Dropped: {processingStats.dropped}<br/>
-                Queue: {processingStats.queueSize}
+                Batches: {processingStats.batches}<br/>
+                Last Batch: {processingStats.lastBatchSize}
               </div>
             </div>
             <div className="space-y-1">
@@ -581,9 +1112,9 @@ const SpeedChart: React.FC = () => {
               <div className="text-white font-mono">
                 {performanceMetrics ? (
                   <>
-                    Msg/sec: {Math.round((performanceMetrics.messagesReceived / ((Date.now() - performanceMetrics.startTime) / 1000)) * 100) / 100}<br/>
+                    Msg/sec: {performanceMetrics.messagesPerSecond ?? 0}<br/>
                     Connections: {performanceMetrics.connectionsCount}<br/>
-                    Avg Latency: {Math.round(performanceMetrics.avgLatency * 100) / 100}ms
+                    Clock Offset: {clockSync ? `${Math.round(clockSync.offset)}ms (RTT ${clockSync.rtt}ms)` : '—'}
                   </>
                 ) : 'Loading...'}
               </div>
@@ -591,23 +1122,67 @@ const SpeedChart: React.FC = () => {
             <div className="space-y-1">
               <span className="text-slate-400">Stress Test Mode</span>
               <div className="space-y-2">
-                <Badge className="bg-blue-500">{STRESS_TEST_MODES[currentStressMode as keyof typeof STRESS_TEST_MODES]?.label || currentStressMode}</Badge>
+                <Badge className="bg-blue-500">{stressModes.find(mode => mode.id === stressStatus.mode)?.label || stressStatus.mode}</Badge>
+                <span className="text-xs text-slate-400 ml-2">
+                  {stressStatus.currentInterval}ms
+                  {stressStatus.schedule && (stressStatus.schedule.complete
+                    ? ' (holding)'
+                    : ` (stage ${stressStatus.schedule.stageIndex + 1}, ${Math.round((stressStatus.schedule.elapsedMs % stressStatus.schedule.totalMs) / 1000)}s / ${Math.round(stressStatus.schedule.totalMs / 1000)}s)`)}
+                </span>
                 <div className="flex flex-wrap gap-1">
-                  {Object.entries(STRESS_TEST_MODES).map(([key, config]) => (
+                  {stressModes.map((mode) => (
                     <Button
-                      key={key}
+                      key={mode.id}
                       size="sm"
-                      variant={currentStressMode === key ? "default" : "outline"}
-                      onClick={() => changeStressMode(key as keyof typeof STRESS_TEST_MODES)}
+                      variant={stressStatus.mode === mode.id ? "default" : "outline"}
+                      disabled={!isOperator}
+                      title={mode.description}
+                      onClick={() => changeStressMode(mode.id)}
                       className="text-xs"
                     >
-                      {config.label}
+                      {mode.label}
                     </Button>
                   ))}
                 </div>
               </div>
             </div>
+            <div className="space-y-1">
+              <span className="text-slate-400">Flight Scenario</span>
+              <div className="flex flex-wrap gap-1">
+                {[{ id: 'none', name: 'Generated', description: 'Legacy sine-wave telemetry' }, ...scenarios].map((scenario) => (
+                  <Button
+                    key={scenario.id}
+                    size="sm"
+                    variant={(simulatorStatus.scenario?.id ?? 'none') === scenario.id ? "default" : "outline"}
+                    disabled={!isOperator}
+                    title={scenario.description}
+                    onClick={() => handleScenarioChange(scenario.id)}
+                    className="text-xs"
+                  >
+                    {scenario.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
           </div>
+          {performanceMetrics?.latency && (
+            <div className="mt-4">
+              <span className="text-slate-400 text-sm">Latency (p50 / p95 / p99)</span>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mt-1">
+                {LATENCY_STAGES.map(({ key, label }) => {
+                  const snapshot = performanceMetrics.latency![key];
+                  return (
+                    <div key={key} className="bg-slate-800 p-2 rounded-lg">
+                      <div className="text-xs text-slate-400">{label}</div>
+                      <div className="text-white font-mono">
+                        {snapshot.count > 0 ? `${snapshot.p50} / ${snapshot.p95} / ${snapshot.p99} ms` : 'No samples'}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
         </CardHeader>
       </Card>
 
@@ -622,6 +1197,18 @@ const SpeedChart: React.FC = () => {
               </CardDescription>
             </div>
             <div className="flex items-center space-x-2">
+              <select
+                value={selectedVehicle}
+                onChange={(e) => handleVehicleChange(e.target.value)}
+                className="bg-slate-800 text-white text-sm border border-slate-700 rounded-md px-2 py-1"
+              >
+                <option value={ALL_VEHICLES}>All vehicles ({vehicles.length})</option>
+                {vehicles.map((vehicle) => (
+                  <option key={vehicle.vehicleId} value={vehicle.vehicleId}>
+                    {vehicle.vehicleId}
+                  </option>
+                ))}
+              </select>
               {getStatusBadge()}
               {getPerformanceBadge()}
               {chartPaused && <Badge className="bg-yellow-500"><FaPause className="mr-1" /> PAUSED</Badge>}
@@ -630,7 +1217,8 @@ const SpeedChart: React.FC = () => {
           <Separator className="bg-slate-700" />
           <div className="flex items-center justify-between text-sm text-slate-400">
             <span>Data Points: {chartData.timestamps.length}/{maxDataPoints}</span>
-            <span>Queue Size: {processingStats.queueSize}/{maxQueueSize}</span>
+            {session && <span>Format: {session.telemetryFormat}{session.batchIntervalMs ? ` / ${session.batchIntervalMs}ms` : ''}</span>}
+            {backfillStatus && <span>Resume: {backfillStatus}</span>}
             {lastUpdate && <span>Last Update: {lastUpdate}</span>}
           </div>
         </CardHeader>
@@ -0,0 +1,210 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Card, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { FaCircle } from 'react-icons/fa';
+import {
+  ConnectionProfile,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_RECONNECTION,
+  ReconnectionSettings,
+  createProfileId,
+  validateProfile
+} from '@/lib/connectionProfiles';
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected' | 'failed' | 'unauthorized';
+
+export interface ConnectionEvent {
+  at: number;
+  level: 'info' | 'error';
+  message: string;
+}
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  // Reconnect attempt in progress, 0 while connected or on the first try
+  attempt: number;
+  lastError: string | null;
+  // Newest last
+  events: ConnectionEvent[];
+}
+
+interface ConnectionSettingsProps {
+  profiles: ConnectionProfile[];
+  activeProfileId: string;
+  state: ConnectionState;
+  onSelect: (id: string) => void;
+  onSave: (profile: ConnectionProfile) => void;
+  onDelete: (id: string) => void;
+  // Starts a fresh connection attempt, e.g. after the client gave up
+  onReconnect: () => void;
+}
+
+const RECONNECTION_FIELDS: { key: keyof ReconnectionSettings; label: string; step: number }[] = [
+  { key: 'attempts', label: 'Attempts (0 = unlimited)', step: 1 },
+  { key: 'delayMs', label: 'Retry delay (ms)', step: 100 },
+  { key: 'delayMaxMs', label: 'Max delay (ms)', step: 100 },
+  { key: 'randomizationFactor', label: 'Randomization (0-1)', step: 0.1 },
+  { key: 'timeoutMs', label: 'Handshake timeout (ms)', step: 1000 }
+];
+
+export const getBackendStatusBadge = (status: ConnectionStatus, attempt = 0) => {
+  switch (status) {
+    case 'connected':
+      return <Badge className="bg-green-500 hover:bg-green-600"><FaCircle className="mr-1" /> Connected</Badge>;
+    case 'connecting':
+      return <Badge variant="secondary"><FaCircle className="mr-1" /> Connecting...</Badge>;
+    case 'reconnecting':
+      return <Badge className="bg-yellow-500"><FaCircle className="mr-1" /> Reconnecting{attempt > 0 ? ` (${attempt})` : '...'}</Badge>;
+    case 'disconnected':
+      return <Badge variant="destructive"><FaCircle className="mr-1" /> Disconnected</Badge>;
+    case 'failed':
+      return <Badge variant="destructive"><FaCircle className="mr-1" /> Gave up</Badge>;
+    case 'unauthorized':
+      return <Badge variant="destructive"><FaCircle className="mr-1" /> Unauthorized</Badge>;
+  }
+};
+
+const ConnectionSettings: React.FC<ConnectionSettingsProps> = ({
+  profiles,
+  activeProfileId,
+  state,
+  onSelect,
+  onSave,
+  onDelete,
+  onReconnect
+}) => {
+  const [draft, setDraft] = useState<ConnectionProfile | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+  const { attempts } = activeProfile.reconnection;
+
+  const startEdit = (profile: ConnectionProfile) => {
+    setDraft({ ...profile, reconnection: { ...profile.reconnection } });
+    setDraftError(null);
+  };
+
+  const startNew = () => {
+    startEdit({ id: createProfileId(), name: '', url: 'http://localhost:8000', reconnection: DEFAULT_RECONNECTION });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const profile = { ...draft, name: draft.name.trim(), url: draft.url.trim().replace(/\/+$/, '') };
+    const error = validateProfile(profile);
+    if (error) {
+      setDraftError(error);
+      return;
+    }
+    onSave(profile);
+    setDraft(null);
+  };
+
+  const updateReconnection = (key: keyof ReconnectionSettings, value: string) => {
+    if (!draft) return;
+    setDraft({ ...draft, reconnection: { ...draft.reconnection, [key]: Number(value) } });
+  };
+
+  return (
+    <Card className="bg-slate-900 border-slate-700">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-white text-lg">Connection</CardTitle>
+          <div className="flex items-center space-x-2 text-xs">
+            <select
+              value={activeProfile.id}
+              onChange={(event) => onSelect(event.target.value)}
+              className="bg-slate-800 text-white border border-slate-600 rounded px-2 py-1"
+            >
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" onClick={() => startEdit(activeProfile)} className="text-xs">Edit</Button>
+            <Button size="sm" variant="outline" onClick={startNew} className="text-xs">New</Button>
+            {activeProfile.id !== DEFAULT_PROFILE_ID && (
+              <Button size="sm" variant="outline" onClick={() => onDelete(activeProfile.id)} className="text-xs">Delete</Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-2">
+            {getBackendStatusBadge(state.status, state.attempt)}
+            <span className="text-slate-300 font-mono text-xs">{activeProfile.url}</span>
+          </div>
+          <div className="flex items-center space-x-2 text-xs text-slate-400">
+            {state.status === 'reconnecting' && (
+              <span>Attempt {state.attempt}{attempts > 0 ? ` of ${attempts}` : ''}</span>
+            )}
+            {state.status !== 'connected' && (
+              <Button size="sm" variant="outline" onClick={onReconnect} className="text-xs">Retry now</Button>
+            )}
+          </div>
+        </div>
+        {state.lastError && state.status !== 'connected' && (
+          <div className="text-xs text-red-400">Handshake error: {state.lastError}</div>
+        )}
+
+        {draft && (
+          <div className="bg-slate-800 p-3 rounded-lg space-y-2 text-xs">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <label className="text-slate-400 space-y-1">
+                <span>Name</span>
+                <input
+                  value={draft.name}
+                  onChange={(event) => setDraft({ ...draft, name: event.target.value })}
+                  placeholder="Staging"
+                  className="w-full bg-slate-900 text-white border border-slate-600 rounded px-2 py-1"
+                />
+              </label>
+              <label className="text-slate-400 space-y-1">
+                <span>Backend URL</span>
+                <input
+                  value={draft.url}
+                  onChange={(event) => setDraft({ ...draft, url: event.target.value })}
+                  placeholder="http://localhost:8000"
+                  className="w-full bg-slate-900 text-white border border-slate-600 rounded px-2 py-1 font-mono"
+                />
+              </label>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {RECONNECTION_FIELDS.map(({ key, label, step }) => (
+                <label key={key} className="text-slate-400 space-y-1">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={step}
+                    value={draft.reconnection[key]}
+                    onChange={(event) => updateReconnection(key, event.target.value)}
+                    className="w-full bg-slate-900 text-white border border-slate-600 rounded px-2 py-1"
+                  />
+                </label>
+              ))}
+            </div>
+            {draftError && <div className="text-red-400">{draftError}</div>}
+            <div className="flex space-x-2">
+              <Button size="sm" onClick={handleSave} className="bg-blue-600 hover:bg-blue-700 text-xs">Save & connect</Button>
+              <Button size="sm" variant="outline" onClick={() => setDraft(null)} className="text-xs">Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        {state.events.length > 0 && (
+          <div className="bg-slate-800 p-2 rounded-lg max-h-32 overflow-y-auto font-mono text-xs space-y-0.5">
+            {[...state.events].reverse().map((event, index) => (
+              <div key={`${event.at}-${index}`} className={event.level === 'error' ? 'text-red-400' : 'text-slate-400'}>
+                {new Date(event.at).toLocaleTimeString()} {event.message}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+    </Card>
+  );
+};
+
+export default ConnectionSettings;
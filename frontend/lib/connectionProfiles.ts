@@ -0,0 +1,92 @@
+// Named backend endpoints the dashboard can switch between, kept in localStorage
+
+export interface ReconnectionSettings {
+  // Attempts before giving up; 0 retries forever
+  attempts: number;
+  // First retry delay, doubled on every attempt up to delayMaxMs
+  delayMs: number;
+  delayMaxMs: number;
+  // 0-1, spreads retries so many dashboards don't reconnect in lockstep
+  randomizationFactor: number;
+  // Handshake timeout per attempt
+  timeoutMs: number;
+}
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  url: string;
+  reconnection: ReconnectionSettings;
+}
+
+const PROFILES_KEY = 'telemetryConnectionProfiles';
+const ACTIVE_PROFILE_KEY = 'telemetryActiveProfile';
+export const DEFAULT_PROFILE_ID = 'default';
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// NEXT_PUBLIC_* values are inlined at build time, so each one has to be referenced literally
+export const DEFAULT_RECONNECTION: ReconnectionSettings = {
+  attempts: envNumber(process.env.NEXT_PUBLIC_RECONNECT_ATTEMPTS, 0),
+  delayMs: envNumber(process.env.NEXT_PUBLIC_RECONNECT_DELAY_MS, 1000),
+  delayMaxMs: envNumber(process.env.NEXT_PUBLIC_RECONNECT_DELAY_MAX_MS, 5000),
+  randomizationFactor: envNumber(process.env.NEXT_PUBLIC_RECONNECT_RANDOMIZATION, 0.5),
+  timeoutMs: envNumber(process.env.NEXT_PUBLIC_CONNECT_TIMEOUT_MS, 20000)
+};
+
+// Always present and not deletable, so the dashboard has somewhere to connect on first load
+export const DEFAULT_PROFILE: ConnectionProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  url: process.env.NEXT_PUBLIC_BACKEND_URL || 'https://live-charts.onrender.com',
+  reconnection: DEFAULT_RECONNECTION
+};
+
+export const createProfileId = () => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Validates a profile from the settings form; returns an error message for bad input
+export function validateProfile(profile: ConnectionProfile): string | null {
+  if (!profile.name.trim()) return 'Name is required';
+  try {
+    const url = new URL(profile.url);
+    if (!['http:', 'https:', 'ws:', 'wss:'].includes(url.protocol)) return 'URL must use http(s) or ws(s)';
+  } catch {
+    return 'URL must be absolute, e.g. http://localhost:8000';
+  }
+
+  const { attempts, delayMs, delayMaxMs, randomizationFactor, timeoutMs } = profile.reconnection;
+  if (!Number.isInteger(attempts) || attempts < 0) return 'Reconnect attempts must be 0 (unlimited) or more';
+  if (!(delayMs > 0) || !(delayMaxMs >= delayMs)) return 'Retry delay must be positive and no larger than the maximum delay';
+  if (!(randomizationFactor >= 0 && randomizationFactor <= 1)) return 'Randomization must be between 0 and 1';
+  if (!(timeoutMs > 0)) return 'Timeout must be positive';
+  return null;
+}
+
+// The default profile follows NEXT_PUBLIC_BACKEND_URL unless it was edited and saved
+export function loadProfiles(): ConnectionProfile[] {
+  if (typeof window === 'undefined') return [DEFAULT_PROFILE];
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]') as ConnectionProfile[];
+    const profiles = stored.filter(profile => profile && typeof profile.id === 'string' && typeof profile.url === 'string')
+      .map(profile => ({ ...profile, reconnection: { ...DEFAULT_RECONNECTION, ...profile.reconnection } }));
+    return profiles.some(profile => profile.id === DEFAULT_PROFILE_ID) ? profiles : [DEFAULT_PROFILE, ...profiles];
+  } catch {
+    return [DEFAULT_PROFILE];
+  }
+}
+
+export function saveProfiles(profiles: ConnectionProfile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export function loadActiveProfileId(): string {
+  if (typeof window === 'undefined') return DEFAULT_PROFILE_ID;
+  return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID;
+}
+
+export function saveActiveProfileId(id: string) {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+}